@@ -0,0 +1,39 @@
+// Per-frame loudness and zero-crossing rate on the audio thread, for voice activity detection
+// (src/lib/vad.ts). Posts { rms, zcr, frameMs } every 20 ms; the decisions are made on the page.
+
+const FRAME_MS = 20;
+
+class LevelProcessor extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+        this.sum = 0;
+        this.crossings = 0;
+        this.count = 0;
+        this.previous = 0;
+    }
+
+    process(inputs) {
+        const input = inputs[0] && inputs[0][0];
+        if (!input) return true;
+        for (let i = 0; i < input.length; i++) {
+            const sample = input[i];
+            this.sum += sample * sample;
+            if ((sample >= 0) !== (this.previous >= 0)) this.crossings++;
+            this.previous = sample;
+            if (++this.count === this.frameSize) {
+                this.port.postMessage({
+                    rms: Math.sqrt(this.sum / this.count),
+                    zcr: this.crossings / this.count,
+                    frameMs: FRAME_MS,
+                });
+                this.sum = 0;
+                this.crossings = 0;
+                this.count = 0;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor("level-processor", LevelProcessor);
@@ -0,0 +1,105 @@
+// Energy-based voice activity detection on the audio thread, for the local wake word spotter
+// (src/lib/keyword-spotter.ts). Tracks the background noise level (the quietest frame of the last moment,
+// as in src/lib/vad.ts, so a fan switched on raises it even mid-stretch) and posts each stretch of speech
+// as one Float32Array at the context's sample rate. Stretches too short to be a word, or too long to
+// be a wake phrase, are dropped here so the main thread only sees likely candidates.
+
+const FRAME_MS = 10;
+
+class VadProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const o = options.processorOptions || {};
+        this.frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+        this.ratio = o.ratio ?? 3;                 // speech is this many times louder than the noise floor
+        this.minLevel = o.minLevel ?? 0.01;        // and at least this loud (RMS)
+        this.hangover = o.hangoverFrames ?? 30;    // 300 ms of quiet ends a stretch
+        this.minFrames = o.minFrames ?? 25;        // under 250 ms of speech is a click or a cough
+        this.maxFrames = o.maxFrames ?? 250;       // over 2.5 s is talking, not a wake phrase
+        this.prerollFrames = o.prerollFrames ?? 10; // keeps the soft start of the first syllable
+        this.noiseWindow = o.noiseWindowFrames ?? 150; // the floor is the quietest frame of the last 1.5 s
+
+        this.noise = this.minLevel / this.ratio;
+        this.recent = [];      // RMS of the frames in the noise window
+        this.frame = new Float32Array(this.frameSize);
+        this.filled = 0;
+        this.preroll = [];
+        this.segment = null;   // frames of the stretch being heard
+        this.voiced = 0;
+        this.quiet = 0;
+        this.overlong = false; // waiting for a long stretch to end before listening again
+    }
+
+    process(inputs) {
+        const input = inputs[0] && inputs[0][0];
+        if (!input) return true;
+        for (let i = 0; i < input.length; i++) {
+            this.frame[this.filled++] = input[i];
+            if (this.filled === this.frameSize) {
+                this.handleFrame(this.frame);
+                this.frame = new Float32Array(this.frameSize);
+                this.filled = 0;
+            }
+        }
+        return true;
+    }
+
+    handleFrame(frame) {
+        let sum = 0;
+        for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+        const rms = Math.sqrt(sum / frame.length);
+        // Even speech dips between syllables, so the floor stays put while someone talks but follows
+        // steady noise up within a couple of seconds, and down quickly when the room gets quieter
+        this.recent.push(rms);
+        if (this.recent.length > this.noiseWindow) this.recent.shift();
+        const floor = Math.min(...this.recent);
+        this.noise += (floor - this.noise) * (floor < this.noise ? 0.2 : 0.03);
+        const speech = rms > Math.max(this.noise * this.ratio, this.minLevel);
+
+        if (this.overlong) {
+            this.quiet = speech ? 0 : this.quiet + 1;
+            if (this.quiet >= this.hangover) this.overlong = false;
+            return;
+        }
+
+        if (!this.segment) {
+            if (speech) {
+                this.segment = [...this.preroll, frame];
+                this.preroll = [];
+                this.voiced = 1;
+                this.quiet = 0;
+            } else {
+                this.preroll.push(frame);
+                if (this.preroll.length > this.prerollFrames) this.preroll.shift();
+            }
+            return;
+        }
+
+        this.segment.push(frame);
+        if (speech) {
+            this.voiced++;
+            this.quiet = 0;
+        } else {
+            this.quiet++;
+        }
+
+        if (this.segment.length > this.maxFrames) {
+            this.segment = null;
+            this.overlong = true;
+            this.quiet = 0;
+        } else if (this.quiet >= this.hangover) {
+            this.finish();
+        }
+    }
+
+    finish() {
+        const frames = this.segment.slice(0, this.segment.length - this.quiet);
+        this.segment = null;
+        if (this.voiced < this.minFrames) return;
+        const samples = new Float32Array(frames.length * this.frameSize);
+        frames.forEach((frame, i) => samples.set(frame, i * this.frameSize));
+        this.port.postMessage(samples, [samples.buffer]);
+    }
+}
+
+registerProcessor("vad-processor", VadProcessor);
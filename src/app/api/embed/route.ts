@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_EMBEDDING_MODELS, describeLLMError, embedTexts, LLMProviderConfig, resolveProviderConfig } from "@/lib/llm";
+import { EmbedRequest, EmbedResponse } from "@/lib/api-types";
+
+const MAX_TEXTS = 128;
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: EmbedRequest = await request.json();
+        const { texts } = body;
+
+        if (!Array.isArray(texts) || texts.length === 0 || !texts.every((t) => typeof t === "string")) {
+            return NextResponse.json({ error: "Texts are required" }, { status: 400 });
+        }
+        if (texts.length > MAX_TEXTS) {
+            return NextResponse.json({ error: `At most ${MAX_TEXTS} texts per request` }, { status: 400 });
+        }
+
+        // Embeddings have no rule-based equivalent; the client keeps its local similarity instead
+        let llm: LLMProviderConfig | null;
+        try {
+            llm = resolveProviderConfig(body);
+        } catch (err) {
+            // An unknown provider or a base URL the server does not allow
+            const info = describeLLMError(err);
+            return NextResponse.json({ error: info.message, aiError: info }, { status: 400 });
+        }
+        if (!llm) {
+            return NextResponse.json({ error: "No LLM provider configured for embeddings" }, { status: 503 });
+        }
+
+        try {
+            const model = body.embeddingModel?.trim() || DEFAULT_EMBEDDING_MODELS[llm.kind];
+            const vectors = await embedTexts(llm, texts, model);
+            return NextResponse.json<EmbedResponse>({
+                success: true,
+                source: "ai",
+                provider: llm.kind,
+                model,
+                data: { vectors },
+            });
+        } catch (err) {
+            console.error("LLM embed error:", err);
+            const info = describeLLMError(err);
+            return NextResponse.json({ error: info.message, aiError: info }, { status: 502 });
+        }
+    } catch (error) {
+        console.error("Embed API error:", error);
+        return NextResponse.json({ error: "Failed to embed texts" }, { status: 500 });
+    }
+}
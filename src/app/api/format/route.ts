@@ -1,164 +1,144 @@
 import { NextRequest, NextResponse } from "next/server";
+import { chatCompletion, chatCompletionStream, describeLLMError, LLMErrorInfo, LLMError, LLMProviderConfig, resolveProviderConfig } from "@/lib/llm";
+import { ApiFormattedPrompt, FormatRequest, FormatResponse, PromptData } from "@/lib/api-types";
+import { listFormatters } from "@/lib/formatters";
+import { completedArrayItems, ndjsonResponse } from "@/lib/streaming";
+import { StructuredPrompt } from "@/lib/structurer";
 
-// OpenRouter API helper
-async function callOpenRouter(apiKey: string, model: string, messages: { role: string; content: string }[]) {
-    const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": "https://voiceprompt-pro.vercel.app",
-            "X-Title": "VoicePrompt Pro",
-        },
-        body: JSON.stringify({ model, messages, max_tokens: 3000, temperature: 0.3 }),
-    });
-    if (!res.ok) throw new Error(`OpenRouter error: ${res.status}`);
-    return res.json();
-}
+type ItemCallback = (index: number, value: ApiFormattedPrompt) => void;
 
-interface FormattedPrompt {
-    llmName: string;
-    description: string;
-    formattedPrompt: string;
-}
+class UnknownTargetError extends Error { }
 
-interface PromptData {
-    context: string;
-    requirements?: string[];
-    constraints?: string[];
-    outputFormat?: string;
-    intent?: string;
-    fullPrompt?: string;
-}
+type NormalizedPrompt = Required<Omit<PromptData, "fullPrompt">>;
 
-interface FormatRequest {
-    prompt: PromptData;
-    targetLLM?: string;
-    apiKey?: string;
-    model?: string;
+interface FormatTarget extends ApiFormattedPrompt {
+    id: string;               // formatter id in the registry
 }
 
-// --- Rule-based formatters (fallback) ---
-function formatForClaude(ctx: string, reqs: string[], cons: string[], out: string): FormattedPrompt {
-    let p = `<task>\n${ctx}\n</task>\n`;
-    if (reqs.length) p += `\n<requirements>\n${reqs.map(r => `- ${r}`).join("\n")}\n</requirements>\n`;
-    if (cons.length) p += `\n<constraints>\n${cons.map(c => `- ${c}`).join("\n")}\n</constraints>\n`;
-    p += `\n<output_format>\n${out}\n</output_format>\n\n<thinking>\nPlease think step by step before responding.\n</thinking>`;
-    return { llmName: "Claude", description: "XML tags + structured thinking", formattedPrompt: p };
+// Format notes for the model, by formatter id; a target without one is described by its formatter
+const STYLE_RULES: Record<string, string> = {
+    claude: "Use XML tags (<task>, <requirements>, <thinking>)",
+    gemini: "Use markdown headers and bullet points",
+    chatgpt: "Split into [System] and [User] messages",
+    deepseek: "Include \"think step by step\" reasoning prompts",
+    grok: "Keep it concise and direct",
+};
+
+// One rule-based prompt per registered formatter; the model is asked for the same targets
+function formatWithRules(prompt: NormalizedPrompt): FormatTarget[] {
+    const structured: StructuredPrompt = { ...prompt, title: "", fullPrompt: "", qualityScore: 0 };
+    return listFormatters().map(({ id, format }) => {
+        const { llmName, description, formattedPrompt } = format(structured);
+        return { id, llmName, description, formattedPrompt };
+    });
 }
 
-function formatForGemini(ctx: string, reqs: string[], cons: string[], out: string): FormattedPrompt {
-    let p = `# Task\n${ctx}\n`;
-    if (reqs.length) p += `\n## Requirements\n${reqs.map(r => `* ${r}`).join("\n")}\n`;
-    if (cons.length) p += `\n## Constraints\n${cons.map(c => `* ${c}`).join("\n")}\n`;
-    p += `\n## Expected Output\n${out}\n\n---\n*Please provide a thorough, well-organized response.*`;
-    return { llmName: "Gemini", description: "Markdown with grounding", formattedPrompt: p };
+function buildSystemPrompt(targets: FormatTarget[]): string {
+    return `You are an expert prompt engineer. Given a structured prompt, create ${targets.length} optimized versions for different LLMs.
+
+Return ONLY raw JSON (no markdown, no code blocks) in this format:
+[
+${targets.map((t) => `  ${JSON.stringify({ llmName: t.llmName, description: t.description, formattedPrompt: "..." })}`).join(",\n")}
+]
+
+Rules for each format:
+${targets.map((t) => `- ${t.llmName}: ${STYLE_RULES[t.id] ?? t.description}`).join("\n")}
+
+Make each prompt detailed and optimized for that specific LLM.`;
 }
 
-function formatForChatGPT(ctx: string, reqs: string[], cons: string[], out: string, intent: string): FormattedPrompt {
-    const system = `You are an expert ${intent.toLowerCase()} assistant. Follow the user's instructions precisely.`;
-    let user = ctx;
-    if (reqs.length) user += `\n\nRequirements:\n${reqs.map(r => `- ${r}`).join("\n")}`;
-    if (cons.length) user += `\n\nConstraints:\n${cons.map(c => `- ${c}`).join("\n")}`;
-    user += `\n\nExpected output: ${out}`;
-    return { llmName: "ChatGPT", description: "System/User message split", formattedPrompt: `[System]\n${system}\n\n[User]\n${user}` };
+function isFormattedPrompt(value: unknown): value is ApiFormattedPrompt {
+    const v = value as ApiFormattedPrompt;
+    return !!v && typeof v.llmName === "string" && typeof v.formattedPrompt === "string";
 }
 
-function formatForDeepSeek(ctx: string, reqs: string[], cons: string[], out: string): FormattedPrompt {
-    let p = `Let me think about this step by step.\n\n**Task:** ${ctx}\n`;
-    if (reqs.length) p += `\n**Requirements:**\n${reqs.map(r => `- ${r}`).join("\n")}\n`;
-    if (cons.length) p += `\n**Constraints:**\n${cons.map(c => `- ${c}`).join("\n")}\n`;
-    p += `\n**Expected Output:** ${out}\n\nPlease reason through this carefully, showing your thought process before providing the final answer.`;
-    return { llmName: "DeepSeek", description: "Chain-of-thought reasoning", formattedPrompt: p };
+// Ask the model, streaming each finished per-LLM prompt to onItem when given
+async function formatWithAI(
+    llm: LLMProviderConfig,
+    prompt: NormalizedPrompt,
+    targets: FormatTarget[],
+    onItem?: ItemCallback,
+    signal?: AbortSignal
+): Promise<ApiFormattedPrompt[]> {
+    const { context, requirements, constraints, outputFormat, intent } = prompt;
+    const userMsg = `Structured prompt to format:\n\nContext: ${context}\nRequirements: ${requirements.join(", ") || "None"}\nConstraints: ${constraints.join(", ") || "None"}\nOutput Format: ${outputFormat}\nIntent: ${intent}`;
+    const messages = [{ role: "system", content: buildSystemPrompt(targets) }, { role: "user", content: userMsg }];
+
+    let aiText = "";
+    if (onItem) {
+        let emitted = 0;
+        for await (const delta of chatCompletionStream(llm, messages, "format", {}, signal)) {
+            aiText += delta;
+            const items = completedArrayItems(aiText);
+            for (; emitted < items.length; emitted++) {
+                if (isFormattedPrompt(items[emitted])) onItem(emitted, items[emitted] as ApiFormattedPrompt);
+            }
+        }
+    } else {
+        aiText = await chatCompletion(llm, messages, "format");
+    }
+
+    const jsonMatch = aiText.match(/\[[\s\S]*\]/);
+    if (jsonMatch) {
+        const parsed = JSON.parse(jsonMatch[0]);
+        if (Array.isArray(parsed) && parsed.length > 0) return parsed.filter(isFormattedPrompt);
+    }
+    throw new LLMError("bad_response", llm.kind, "Model response contained no JSON array");
 }
 
-function formatForGrok(ctx: string, reqs: string[], cons: string[], out: string): FormattedPrompt {
-    let p = `${ctx}`;
-    if (reqs.length) p += ` Requirements: ${reqs.join(", ")}.`;
-    if (cons.length) p += ` Avoid: ${cons.join(", ")}.`;
-    p += ` Output: ${out}. Be direct and concise.`;
-    return { llmName: "Grok", description: "Concise & direct", formattedPrompt: p };
+async function format(body: FormatRequest, onItem?: ItemCallback, signal?: AbortSignal): Promise<FormatResponse> {
+    const { prompt, targetLLM } = body;
+    const normalized: NormalizedPrompt = {
+        context: prompt.context,
+        requirements: prompt.requirements ?? [],
+        constraints: prompt.constraints ?? [],
+        outputFormat: prompt.outputFormat ?? "Clear response",
+        intent: prompt.intent ?? "General",
+    };
+    const targets = formatWithRules(normalized);
+    const pick = (formats: ApiFormattedPrompt[]) =>
+        targetLLM ? formats.filter((f) => f.llmName.toLowerCase() === targetLLM.toLowerCase()) : formats;
+
+    // If a provider is configured (client settings or server env), use the LLM to generate optimized formats
+    let aiError: LLMErrorInfo | undefined;
+    try {
+        const llm = resolveProviderConfig(body);
+        if (llm) {
+            const formats = await formatWithAI(llm, normalized, targets, onItem, signal);
+            const picked = pick(formats);
+            return { success: true, source: "ai", provider: llm.kind, model: llm.model, data: picked.length > 0 ? picked : formats };
+        }
+    } catch (err) {
+        console.error("LLM format error, falling back:", err);
+        aiError = describeLLMError(err);
+    }
+
+    // Fallback: Rule-based formatting
+    const data = pick(targets.map(({ llmName, description, formattedPrompt }) => ({ llmName, description, formattedPrompt })));
+    if (data.length === 0) throw new UnknownTargetError(`Unknown LLM: ${targetLLM}`);
+    return { success: true, source: "rule-based", aiError, data };
 }
 
 export async function POST(request: NextRequest) {
     try {
         const body: FormatRequest = await request.json();
-        const { prompt, targetLLM, apiKey, model } = body;
 
-        if (!prompt || !prompt.context) {
+        if (!body.prompt || !body.prompt.context) {
             return NextResponse.json({ error: "Prompt data is required" }, { status: 400 });
         }
 
-        const { context, requirements = [], constraints = [], outputFormat = "Clear response", intent = "General" } = prompt;
-
-        // Use provided key, or fall back to server env variable
-        const effectiveApiKey = apiKey?.trim() || process.env.OPENROUTER_API_KEY || "";
-
-        // If API key available, use AI to generate optimized formats
-        if (effectiveApiKey) {
-            try {
-                const systemPrompt = `You are an expert prompt engineer. Given a structured prompt, create 5 optimized versions for different LLMs.
-
-Return ONLY raw JSON (no markdown, no code blocks) in this format:
-[
-  {"llmName": "Claude", "description": "XML tags + thinking", "formattedPrompt": "..."},
-  {"llmName": "Gemini", "description": "Markdown + grounding", "formattedPrompt": "..."},
-  {"llmName": "ChatGPT", "description": "System/User split", "formattedPrompt": "..."},
-  {"llmName": "DeepSeek", "description": "Chain-of-thought", "formattedPrompt": "..."},
-  {"llmName": "Grok", "description": "Concise & direct", "formattedPrompt": "..."}
-]
-
-Rules for each format:
-- Claude: Use XML tags (<task>, <requirements>, <thinking>)
-- Gemini: Use markdown headers and bullet points
-- ChatGPT: Split into [System] and [User] messages
-- DeepSeek: Include "think step by step" reasoning prompts
-- Grok: Keep it concise and direct
-
-Make each prompt detailed and optimized for that specific LLM.`;
-
-                const userMsg = `Structured prompt to format:\n\nContext: ${context}\nRequirements: ${requirements.join(", ") || "None"}\nConstraints: ${constraints.join(", ") || "None"}\nOutput Format: ${outputFormat}\nIntent: ${intent}`;
-
-                const aiResponse = await callOpenRouter(
-                    effectiveApiKey,
-                    model || "deepseek/deepseek-chat-v3-0324:free",
-                    [{ role: "system", content: systemPrompt }, { role: "user", content: userMsg }]
-                );
-
-                const aiText = aiResponse.choices?.[0]?.message?.content || "";
-                const jsonMatch = aiText.match(/\[[\s\S]*\]/);
-                if (jsonMatch) {
-                    const parsed = JSON.parse(jsonMatch[0]);
-                    if (Array.isArray(parsed) && parsed.length > 0) {
-                        if (targetLLM) {
-                            const match = parsed.find((f: FormattedPrompt) => f.llmName.toLowerCase() === targetLLM.toLowerCase());
-                            if (match) return NextResponse.json({ success: true, data: [match] });
-                        }
-                        return NextResponse.json({ success: true, data: parsed });
-                    }
-                }
-            } catch (aiError) {
-                console.error("OpenRouter format error, falling back:", aiError);
-            }
-        }
-
-        // Fallback: Rule-based formatting
-        const allFormats: FormattedPrompt[] = [
-            formatForClaude(context, requirements, constraints, outputFormat),
-            formatForGemini(context, requirements, constraints, outputFormat),
-            formatForChatGPT(context, requirements, constraints, outputFormat, intent),
-            formatForDeepSeek(context, requirements, constraints, outputFormat),
-            formatForGrok(context, requirements, constraints, outputFormat),
-        ];
-
-        if (targetLLM) {
-            const match = allFormats.find((f) => f.llmName.toLowerCase() === targetLLM.toLowerCase());
-            if (match) return NextResponse.json({ success: true, data: [match] });
-            return NextResponse.json({ error: `Unknown LLM: ${targetLLM}` }, { status: 400 });
+        if (body.stream) {
+            return ndjsonResponse<FormatResponse>(async (send, signal) => {
+                const result = await format(body, (index, value) => send({ type: "item", index, value }), signal);
+                send({ type: "done", payload: result });
+            }, request.signal);
         }
 
-        return NextResponse.json({ success: true, data: allFormats });
+        return NextResponse.json(await format(body));
     } catch (error) {
+        if (error instanceof UnknownTargetError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
         console.error("Format API error:", error);
         return NextResponse.json({ error: "Failed to format prompt" }, { status: 500 });
     }
@@ -1,111 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
+import { chatCompletion, chatCompletionStream, describeLLMError, LLMErrorInfo, LLMOutputError, LLMProviderConfig, resolveProviderConfig } from "@/lib/llm";
+import { StructureRequest, StructureResponse } from "@/lib/api-types";
+import { StructuredPrompt, structurePrompt } from "@/lib/structurer";
+import { INTENTS } from "@/lib/intents";
+import { formatIssues, parseStructuredPrompt } from "@/lib/prompt-schema";
+import { analyzePrompt } from "@/lib/quality";
+import { completedObjectFields, ndjsonResponse } from "@/lib/streaming";
 
-// OpenRouter API helper
-async function callOpenRouter(apiKey: string, model: string, messages: { role: string; content: string }[]) {
-    const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": "https://voiceprompt-pro.vercel.app",
-            "X-Title": "VoicePrompt Pro",
-        },
-        body: JSON.stringify({ model, messages, max_tokens: 2000, temperature: 0.4 }),
-    });
-    if (!res.ok) throw new Error(`OpenRouter error: ${res.status}`);
-    return res.json();
-}
-
-// --- Rule-based fallback logic ---
-const INTENT_PATTERNS: Record<string, RegExp[]> = {
-    "Code Generation": [/\b(code|program|function|class|api|script|build|create|develop|implement|debug|fix)\b/i, /\b(కోడ్|ప్రోగ్రామ్|ఫంక్షన్|స్క్రిప్ట్|బిల్డ్)\b/i],
-    "Writing": [/\b(write|essay|article|blog|story|email|letter|content|draft)\b/i, /\b(రాయి|వ్యాసం|ఆర్టికల్|బ్లాగ్|కథ|ఇమెయిల్)\b/i],
-    "Analysis": [/\b(analyze|review|compare|evaluate|assess|research|explain)\b/i, /\b(విశ్లేషించు|సమీక్ష|పోల్చు|వివరించు)\b/i],
-    "Creative": [/\b(design|creative|imagine|brainstorm|idea|concept)\b/i, /\b(డిజైన్|సృజనాత్మక|ఊహించు|ఆలోచన)\b/i],
-    "Data": [/\b(data|database|sql|query|csv|json|table|chart)\b/i, /\b(డేటా|డేటాబేస్|టేబుల్|చార్ట్)\b/i],
-};
-
-function detectIntent(text: string): string {
-    for (const [intent, patterns] of Object.entries(INTENT_PATTERNS)) {
-        for (const p of patterns) { if (p.test(text)) return intent; }
-    }
-    return "General";
-}
-
-function extractRequirements(text: string): string[] {
-    const reqs: string[] = [];
-    const patterns = [
-        /(?:i need|i want|should have|must have|requires?|include)\s+(.+?)(?:\.|,|$)/gi,
-        /(?:నాకు కావాలి|ఉండాలి|కావాలి)\s+(.+?)(?:\.|,|$)/gi,
-    ];
-    for (const p of patterns) {
-        let m; while ((m = p.exec(text)) !== null) { reqs.push(m[1].trim()); }
-    }
-    if (reqs.length === 0 && text.length > 10) {
-        reqs.push(text.length > 100 ? text.substring(0, 100) : text);
-    }
-    return reqs;
-}
+type FieldCallback = (name: string, value: unknown) => void;
 
-function extractConstraints(text: string): string[] {
-    const constraints: string[] = [];
-    const patterns = [
-        /(?:don't|do not|avoid|without|no |shouldn't)\s+(.+?)(?:\.|,|$)/gi,
-        /(?:only|must be|should be|limit|restrict)\s+(.+?)(?:\.|,|$)/gi,
-        /(?:వద్దు|లేకుండా|మాత్రమే)\s+(.+?)(?:\.|,|$)/gi,
-    ];
-    for (const p of patterns) {
-        let m; while ((m = p.exec(text)) !== null) { constraints.push(m[1].trim()); }
-    }
-    return constraints;
-}
+function buildSystemPrompt(language?: string): string {
+    const langHint = language && !language.startsWith("en")
+        ? `The user's input may be in a non-English language (${language}). Translate and understand it, then create the structured prompt in English.`
+        : "";
 
-function calculateQuality(text: string, reqs: string[], constraints: string[], intent: string): number {
-    let score = 20;
-    if (text.split(/\s+/).length > 5) score += 15;
-    if (text.split(/\s+/).length > 20) score += 15;
-    if (reqs.length > 0) score += 15;
-    if (reqs.length > 2) score += 10;
-    if (constraints.length > 0) score += 10;
-    if (intent !== "General") score += 15;
-    return Math.min(100, score);
-}
-
-interface StructureRequest {
-    transcript: string;
-    conversationHistory?: string;
-    language?: string;
-    apiKey?: string;
-    model?: string;
-}
-
-export async function POST(request: NextRequest) {
-    try {
-        const body: StructureRequest = await request.json();
-        const { transcript, apiKey, model, language } = body;
-
-        // Use provided key, or fall back to server env variable
-        const effectiveApiKey = apiKey?.trim() || process.env.OPENROUTER_API_KEY || "";
-
-        if (!transcript || transcript.trim().length === 0) {
-            return NextResponse.json({ error: "Transcript is required" }, { status: 400 });
-        }
-
-        // If API key available, use OpenRouter AI to structure the prompt
-        if (effectiveApiKey) {
-            try {
-                const langHint = language && !language.startsWith("en")
-                    ? `The user's input may be in a non-English language (${language}). Translate and understand it, then create the structured prompt in English.`
-                    : "";
-
-                const systemPrompt = `You are an expert prompt engineer. Given a user's raw request (which may be in any language including Telugu), create a perfectly structured prompt.
+    return `You are an expert prompt engineer. Given a user's raw request (which may be in any language including Telugu), create a perfectly structured prompt.
 
 ${langHint}
 
 Return your response in this EXACT JSON format (no markdown, no code blocks, just raw JSON):
 {
   "title": "short title (max 8 words)",
-  "intent": "one of: Code Generation, Writing, Analysis, Creative, Data, General",
+  "intent": "one of: ${INTENTS.join(", ")}",
   "context": "clear restatement of what the user wants in English",
   "requirements": ["requirement 1", "requirement 2"],
   "constraints": ["constraint 1"],
@@ -116,67 +32,99 @@ Return your response in this EXACT JSON format (no markdown, no code blocks, jus
 
 Make the fullPrompt detailed with ## sections for Task, Requirements, Constraints, Expected Output, and Guidelines.
 qualityScore should be 0-100 based on how clear and complete the request is.`;
+}
 
-                const aiResponse = await callOpenRouter(
-                    effectiveApiKey,
-                    model || "deepseek/deepseek-chat-v3-0324:free",
-                    [
-                        { role: "system", content: systemPrompt },
-                        { role: "user", content: transcript },
-                    ]
-                );
-
-                const aiText = aiResponse.choices?.[0]?.message?.content || "";
-
-                // Parse JSON from AI response
-                const jsonMatch = aiText.match(/\{[\s\S]*\}/);
-                if (jsonMatch) {
-                    const parsed = JSON.parse(jsonMatch[0]);
-                    return NextResponse.json({
-                        success: true,
-                        data: {
-                            title: parsed.title || "Untitled Prompt",
-                            intent: parsed.intent || "General",
-                            context: parsed.context || transcript,
-                            requirements: parsed.requirements || [],
-                            constraints: parsed.constraints || [],
-                            outputFormat: parsed.outputFormat || "Clear response",
-                            fullPrompt: parsed.fullPrompt || transcript,
-                            qualityScore: parsed.qualityScore || 70,
-                        },
-                    });
-                }
-            } catch (aiError) {
-                console.error("OpenRouter structure error, falling back:", aiError);
+interface AIStructureResult {
+    data: StructuredPrompt;
+    repaired: boolean;
+}
+
+// Ask the model, streaming completed fields to onField when given.
+// Output is schema-validated; one repair pass re-prompts with the validation errors.
+async function structureWithAI(
+    llm: LLMProviderConfig,
+    transcript: string,
+    language: string | undefined,
+    onField?: FieldCallback,
+    signal?: AbortSignal
+): Promise<AIStructureResult> {
+    const messages = [
+        { role: "system", content: buildSystemPrompt(language) },
+        { role: "user", content: transcript },
+    ];
+
+    let aiText = "";
+    if (onField) {
+        const emitted = new Set<string>();
+        for await (const delta of chatCompletionStream(llm, messages, "structure", {}, signal)) {
+            aiText += delta;
+            for (const [name, value] of Object.entries(completedObjectFields(aiText))) {
+                if (emitted.has(name)) continue;
+                emitted.add(name);
+                onField(name, value);
             }
         }
+    } else {
+        aiText = await chatCompletion(llm, messages, "structure");
+    }
+
+    const first = parseStructuredPrompt(aiText);
+    if (first.ok) return { data: first.value, repaired: false };
+
+    console.warn("Structure output failed validation, attempting repair:", first.issues);
+    const repairText = await chatCompletion(llm, [
+        ...messages,
+        { role: "assistant", content: aiText },
+        {
+            role: "user",
+            content: `Your answer failed validation:\n${formatIssues(first.issues)}\n\nReturn ONLY the corrected JSON object with every field present. No markdown, no explanation.`,
+        },
+    ], "structure");
+
+    const repaired = parseStructuredPrompt(repairText);
+    if (repaired.ok) return { data: repaired.value, repaired: true };
+
+    throw new LLMOutputError(llm.kind, "Model output failed schema validation after one repair attempt", repaired.issues);
+}
+
+async function structure(body: StructureRequest, onField?: FieldCallback, signal?: AbortSignal): Promise<StructureResponse> {
+    const { transcript, language } = body;
+
+    // If a provider is configured (client settings or server env), use the LLM to structure the prompt
+    let aiError: LLMErrorInfo | undefined;
+    try {
+        const llm = resolveProviderConfig(body);
+        if (llm) {
+            const { data, repaired } = await structureWithAI(llm, transcript, language, onField, signal);
+            // Score with the same analyzer as every other path, so the bar matches the checklist
+            data.qualityScore = analyzePrompt(data).score;
+            return { success: true, source: "ai", provider: llm.kind, model: llm.model, repaired, data };
+        }
+    } catch (err) {
+        console.error("LLM structure error, falling back:", err);
+        aiError = describeLLMError(err);
+    }
+
+    // Fallback: the same rule-based structuring the client uses offline, with its per-language lexicons
+    return { success: true, source: "rule-based", aiError, data: structurePrompt(transcript, undefined, language) };
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: StructureRequest = await request.json();
+
+        if (!body.transcript || body.transcript.trim().length === 0) {
+            return NextResponse.json({ error: "Transcript is required" }, { status: 400 });
+        }
+
+        if (body.stream) {
+            return ndjsonResponse<StructureResponse>(async (send, signal) => {
+                const result = await structure(body, (name, value) => send({ type: "field", name, value }), signal);
+                send({ type: "done", payload: result });
+            }, request.signal);
+        }
 
-        // Fallback: Rule-based structuring
-        const intent = detectIntent(transcript);
-        const requirements = extractRequirements(transcript);
-        const constraints = extractConstraints(transcript);
-        const outputFormat = intent === "Code Generation" ? "Working code with comments" :
-            intent === "Writing" ? "Well-structured text" :
-                intent === "Analysis" ? "Detailed analysis with insights" : "Clear, helpful response";
-
-        const words = transcript.split(/\s+/).slice(0, 8).join(" ");
-        const title = words.length > 50 ? words.substring(0, 47) + "..." : words;
-        const context = transcript;
-
-        const sections: string[] = [];
-        sections.push(`## Task\n${context}`);
-        if (requirements.length > 0) sections.push(`## Requirements\n${requirements.map((r) => `- ${r}`).join("\n")}`);
-        if (constraints.length > 0) sections.push(`## Constraints\n${constraints.map((c) => `- ${c}`).join("\n")}`);
-        sections.push(`## Expected Output\n${outputFormat}`);
-        sections.push(`## Guidelines\n- Be thorough and detailed\n- Follow best practices\n- Explain important decisions`);
-
-        const fullPrompt = sections.join("\n\n");
-        const qualityScore = calculateQuality(transcript, requirements, constraints, intent);
-
-        return NextResponse.json({
-            success: true,
-            data: { title, intent, context, requirements, constraints, outputFormat, fullPrompt, qualityScore },
-        });
+        return NextResponse.json(await structure(body));
     } catch (error) {
         console.error("Structure API error:", error);
         return NextResponse.json({ error: "Failed to structure prompt" }, { status: 500 });
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { chatCompletion, describeLLMError, LLMError, LLMErrorInfo, LLMProviderConfig, resolveProviderConfig } from "@/lib/llm";
+import { TranslateRequest, TranslateResponse } from "@/lib/api-types";
+import { isEnglish, translateLocally } from "@/lib/translation";
+
+function languageName(code: string): string {
+    try {
+        return new Intl.DisplayNames(["en"], { type: "language" }).of(code.split("-")[0]) ?? code;
+    } catch {
+        return code;
+    }
+}
+
+async function translateWithAI(llm: LLMProviderConfig, text: string, language: string): Promise<string> {
+    const systemPrompt = `You translate voice transcripts from ${languageName(language)} into natural English.
+The text is a request someone wants turned into an AI prompt. Keep its meaning, every detail and every constraint.
+Keep technical terms, product names and code identifiers as they are.
+Reply with the English translation only — no notes, no quotes.`;
+
+    const aiText = await chatCompletion(llm, [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: text },
+    ], "translate");
+
+    const translated = aiText.trim().replace(/^["“]|["”]$/g, "").trim();
+    if (!translated) throw new LLMError("bad_response", llm.kind, "Model returned an empty translation");
+    return translated;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: TranslateRequest = await request.json();
+        const { text, language } = body;
+
+        if (!text || text.trim().length === 0) {
+            return NextResponse.json({ error: "Text is required" }, { status: 400 });
+        }
+
+        if (isEnglish(language)) {
+            return NextResponse.json<TranslateResponse>({ success: true, source: "rule-based", data: { text } });
+        }
+
+        // If a provider is configured (client settings or server env), use the LLM
+        let aiError: LLMErrorInfo | undefined;
+        try {
+            const llm = resolveProviderConfig(body);
+            if (llm) {
+                const translated = await translateWithAI(llm, text, language);
+                return NextResponse.json<TranslateResponse>({
+                    success: true,
+                    source: "ai",
+                    provider: llm.kind,
+                    model: llm.model,
+                    data: { text: translated },
+                });
+            }
+        } catch (err) {
+            console.error("LLM translate error, falling back:", err);
+            aiError = describeLLMError(err);
+        }
+
+        // Fallback: dictionary translation and transliteration
+        return NextResponse.json<TranslateResponse>({
+            success: true,
+            source: "rule-based",
+            aiError,
+            data: { text: translateLocally(text, language) },
+        });
+    } catch (error) {
+        console.error("Translate API error:", error);
+        return NextResponse.json({ error: "Failed to translate text" }, { status: 500 });
+    }
+}
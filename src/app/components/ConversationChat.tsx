@@ -2,17 +2,42 @@
 
 import React, { useEffect, useRef } from "react";
 import { ChatMessage } from "@/lib/conversation";
+import { SlotState } from "@/lib/slots";
 
 interface ConversationChatProps {
     messages: ChatMessage[];
     isTyping: boolean;
     interimTranscript: string;
+    slots?: SlotState[];  // what the assistant still needs to know
+}
+
+// Filled and missing details for the current intent, so users can see what is still open
+function SlotChips({ slots }: { slots: SlotState[] }) {
+    return (
+        <div className="flex flex-wrap gap-1.5 pb-2 border-b border-[var(--border-color)]">
+            {slots.map((slot) => (
+                <span
+                    key={slot.id}
+                    className="text-[10px] px-2 py-0.5 rounded-full border"
+                    style={{
+                        borderColor: slot.filled ? "var(--accent-green)" : "var(--border-color)",
+                        color: slot.filled ? "var(--accent-green)" : "var(--text-muted)",
+                    }}
+                    title={slot.filled ? slot.value : slot.required ? "Still needed" : "Optional"}
+                >
+                    {slot.filled ? "✓" : "○"} {slot.label}
+                    {!slot.filled && !slot.required && " (optional)"}
+                </span>
+            ))}
+        </div>
+    );
 }
 
 export default function ConversationChat({
     messages,
     isTyping,
     interimTranscript,
+    slots = [],
 }: ConversationChatProps) {
     const bottomRef = useRef<HTMLDivElement>(null);
 
@@ -22,6 +47,8 @@ export default function ConversationChat({
 
     return (
         <div className="flex flex-col gap-3 p-4 overflow-y-auto max-h-[400px] min-h-[200px]">
+            {slots.length > 0 && <SlotChips slots={slots} />}
+
             {messages.length === 0 && !interimTranscript && (
                 <div className="flex items-center justify-center h-full py-12 text-center">
                     <div>
@@ -1,29 +1,411 @@
 "use client";
 
-import React from "react";
-import { SavedPrompt } from "@/lib/storage";
+import React, { useMemo, useRef, useState } from "react";
+import { DuplicateMode, HISTORY_EXPORT_FORMATS, HistoryExportFormat, ImportPlan } from "@/lib/history-transfer";
+import { INTENTS } from "@/lib/intents";
+import { currentRevisionIndex, diffRevisions, REVISION_LABELS, revisionsOf } from "@/lib/revisions";
+import { highlight, HighlightPart, SearchHit } from "@/lib/search-index";
+import { SUPPORTED_LANGUAGES } from "@/lib/speech";
+import { FacetCount, PromptFilter, SavedPrompt } from "@/lib/storage";
+import { parseTags, suggestTags } from "@/lib/tags";
 
 interface HistorySidebarProps {
     isOpen: boolean;
     onClose: () => void;
     prompts: SavedPrompt[];
+    hasMore: boolean;               // more pages behind "Load more"
+    onLoadMore: () => void;
     onSelect: (prompt: SavedPrompt) => void;
     onDelete: (id: string) => void;
     searchQuery: string;
     onSearchChange: (query: string) => void;
+    searchHits: Record<string, SearchHit>;  // by prompt id; empty when not searching
+    onFilterChange: (filter: PromptFilter) => void;
+    folders: FacetCount[];
+    tags: FacetCount[];
+    onUpdatePrompts: (prompts: SavedPrompt[]) => void;  // favorite, tags, folder
+    onDeletePrompts: (ids: string[]) => void;
+    onExport: (format: HistoryExportFormat, ids: string[] | null) => void;  // null = all of history
+    onPlanImport: (file: File) => Promise<ImportPlan>;
+    onImport: (plan: ImportPlan, mode: DuplicateMode) => void;
+}
+
+// Which part of history the sidebar shows; at most one field is set
+type HistoryView = Pick<PromptFilter, "favorite" | "folder" | "tag">;
+
+type FilterChipKey = "intent" | "language" | "date" | "quality";
+type FilterChips = Record<FilterChipKey, string>;  // "" = any
+
+const NO_FILTERS: FilterChips = { intent: "", language: "", date: "", quality: "" };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGES = [
+    { value: "day", label: "Today", days: 1 },
+    { value: "week", label: "Past week", days: 7 },
+    { value: "month", label: "Past month", days: 30 },
+    { value: "year", label: "Past year", days: 365 },
+];
+
+const QUALITY_RANGES = [
+    { value: "high", label: "Quality 80+", min: 80, max: undefined },
+    { value: "medium", label: "Quality 50–79", min: 50, max: 79 },
+    { value: "low", label: "Quality below 50", min: undefined, max: 49 },
+];
+
+function toPromptFilter(chips: FilterChips): PromptFilter {
+    const range = DATE_RANGES.find((r) => r.value === chips.date);
+    const quality = QUALITY_RANGES.find((q) => q.value === chips.quality);
+    return {
+        intent: chips.intent || undefined,
+        language: chips.language || undefined,
+        since: range ? Date.now() - range.days * DAY_MS : undefined,
+        minQuality: quality?.min,
+        maxQuality: quality?.max,
+    };
+}
+
+// A filter as a pill-shaped select; highlighted while it narrows the list
+function FilterChip({ label, value, options, onChange }: {
+    label: string;
+    value: string;
+    options: { value: string; label: string }[];
+    onChange: (value: string) => void;
+}) {
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={`max-w-[9rem] px-2 py-1 rounded-full text-[10px] border cursor-pointer focus:outline-none transition-colors ${value
+                ? "bg-[var(--accent-purple)]/15 border-[var(--accent-purple)] text-[var(--text-primary)]"
+                : "bg-[var(--bg-secondary)] border-[var(--border-color)] text-[var(--text-secondary)]"}`}
+        >
+            <option value="">{label}</option>
+            {options.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+        </select>
+    );
+}
+
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+    return (
+        <>
+            {parts.map((part, i) => part.match
+                ? <mark key={i} className="bg-[var(--accent-purple)]/25 text-[var(--text-primary)] rounded-sm">{part.text}</mark>
+                : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+        </>
+    );
+}
+
+const inputClass = "flex-1 min-w-0 px-2 py-1 rounded-md text-[10px] bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors";
+const smallButtonClass = "px-2 py-1 rounded-md text-[10px] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] disabled:opacity-40 transition-colors";
+
+const DIFF_LINE_CLASS = {
+    same: "text-[var(--text-muted)]",
+    added: "text-[var(--accent-green)] bg-[var(--accent-green)]/10",
+    removed: "text-[var(--accent-red)] bg-[var(--accent-red)]/10 line-through",
+};
+const DIFF_MARKER = { same: " ", added: "+", removed: "-" };
+
+// Revision list of one prompt with a line diff between the two picked revisions (A → B)
+function RevisionHistory({ prompt }: { prompt: SavedPrompt }) {
+    const revisions = revisionsOf(prompt);
+    const current = currentRevisionIndex(prompt);
+    const [from, setFrom] = useState(Math.max(0, current - 1));
+    const [to, setTo] = useState(current);
+    const diff = useMemo(() => diffRevisions(revisions[from], revisions[to]), [revisions, from, to]);
+
+    const pickClass = (picked: boolean) =>
+        `w-4 h-4 shrink-0 rounded text-[9px] font-bold transition-all ${picked ? "bg-[var(--accent-purple)] text-white" : "bg-[var(--bg-secondary)] text-[var(--text-muted)] hover:text-[var(--text-primary)]"}`;
+
+    return (
+        <div className="mt-2 space-y-2 cursor-default" onClick={(e) => e.stopPropagation()}>
+            <ol className="space-y-1">
+                {revisions.map((revision, i) => (
+                    <li key={i} className="flex items-center gap-1.5 text-[10px]">
+                        <button onClick={() => setFrom(i)} className={pickClass(i === from)} title="Compare from this revision">A</button>
+                        <button onClick={() => setTo(i)} className={pickClass(i === to)} title="Compare to this revision">B</button>
+                        <span className={i === current ? "font-medium text-[var(--text-primary)]" : "text-[var(--text-secondary)]"}>
+                            {REVISION_LABELS[revision.kind]}
+                        </span>
+                        <span className="text-[var(--text-muted)]">{new Date(revision.timestamp).toLocaleTimeString()}</span>
+                        {revision.kind === "voice" && revision.transcript && (
+                            <span className="truncate text-[var(--text-muted)]" title={revision.transcript}>“{revision.transcript}”</span>
+                        )}
+                    </li>
+                ))}
+            </ol>
+            {from === to ? (
+                <p className="text-[10px] text-[var(--text-muted)]">Pick two different revisions to compare</p>
+            ) : (
+                <pre className="text-[10px] leading-relaxed whitespace-pre-wrap font-mono bg-[var(--bg-secondary)] rounded-lg p-2 max-h-64 overflow-y-auto">
+                    {diff.map((line, i) => (
+                        <div key={i} className={DIFF_LINE_CLASS[line.type]}>
+                            {DIFF_MARKER[line.type]} {line.text}
+                        </div>
+                    ))}
+                </pre>
+            )}
+        </div>
+    );
+}
+
+// Tags and folder of one prompt, with suggested tags one click away
+function OrganizePanel({ prompt, onUpdate }: {
+    prompt: SavedPrompt;
+    onUpdate: (prompt: SavedPrompt) => void;
+}) {
+    const [tagInput, setTagInput] = useState("");
+    const [folderInput, setFolderInput] = useState(prompt.folder ?? "");
+    const suggestions = suggestTags(prompt);
+
+    const addTags = (tags: string[]) => {
+        const next = [...new Set([...prompt.tags, ...tags])];
+        if (next.length !== prompt.tags.length) onUpdate({ ...prompt, tags: next });
+        setTagInput("");
+    };
+
+    return (
+        <div className="mt-2 space-y-2 cursor-default" onClick={(e) => e.stopPropagation()}>
+            <div className="flex gap-1.5">
+                <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && addTags(parseTags(tagInput))}
+                    placeholder="Add tags..."
+                    className={inputClass}
+                />
+                <button onClick={() => addTags(parseTags(tagInput))} className={smallButtonClass}>Add</button>
+            </div>
+            {suggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-[10px] text-[var(--text-muted)]">Suggested:</span>
+                    {suggestions.map((tag) => (
+                        <button
+                            key={tag}
+                            onClick={() => addTags([tag])}
+                            className="text-[10px] px-1.5 py-0.5 rounded-full border border-dashed border-[var(--border-color)] text-[var(--text-secondary)] hover:border-[var(--accent-purple)] hover:text-[var(--text-primary)] transition-colors"
+                        >
+                            + #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex gap-1.5">
+                <input
+                    type="text"
+                    list="history-folders"
+                    value={folderInput}
+                    onChange={(e) => setFolderInput(e.target.value)}
+                    placeholder="No folder"
+                    className={inputClass}
+                />
+                <button
+                    onClick={() => onUpdate({ ...prompt, folder: folderInput.trim() || undefined })}
+                    disabled={(folderInput.trim() || undefined) === prompt.folder}
+                    className={smallButtonClass}
+                >
+                    Move
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// Suggestions for every folder input, rendered once per sidebar
+function FolderOptions({ folders }: { folders: FacetCount[] }) {
+    return (
+        <datalist id="history-folders">
+            {folders.map((folder) => <option key={folder.value} value={folder.value} />)}
+        </datalist>
+    );
+}
+
+// Actions on the selected prompts
+function BulkBar({ count, tags, onSelectAll, onTag, onMove, onDelete, onDone }: {
+    count: number;
+    tags: FacetCount[];
+    onSelectAll: () => void;
+    onTag: (tags: string[]) => void;
+    onMove: (folder: string | undefined) => void;
+    onDelete: () => void;
+    onDone: () => void;
+}) {
+    const [action, setAction] = useState<"tag" | "move" | null>(null);
+    const [input, setInput] = useState("");
+
+    const apply = () => {
+        if (action === "tag") {
+            const parsed = parseTags(input);
+            if (parsed.length === 0) return;
+            onTag(parsed);
+        }
+        if (action === "move") onMove(input.trim() || undefined);
+        setAction(null);
+        setInput("");
+    };
+
+    return (
+        <div className="p-3 border-t border-[var(--border-color)] space-y-2">
+            <div className="flex items-center justify-between text-[10px] text-[var(--text-secondary)]">
+                <span>{count} selected</span>
+                <div className="flex gap-2">
+                    <button onClick={onSelectAll} className="hover:text-[var(--text-primary)] transition-colors">Select all</button>
+                    <button onClick={onDone} className="hover:text-[var(--text-primary)] transition-colors">Done</button>
+                </div>
+            </div>
+            {action ? (
+                <div className="flex gap-1.5">
+                    <input
+                        type="text"
+                        autoFocus
+                        list={action === "tag" ? "history-tags" : "history-folders"}
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && apply()}
+                        placeholder={action === "tag" ? "Tags to add..." : "Folder (empty = none)"}
+                        className={inputClass}
+                    />
+                    <button onClick={apply} className={smallButtonClass}>Apply</button>
+                    <button onClick={() => setAction(null)} className={smallButtonClass}>✕</button>
+                    <datalist id="history-tags">
+                        {tags.map((tag) => <option key={tag.value} value={tag.value} />)}
+                    </datalist>
+                </div>
+            ) : (
+                <div className="grid grid-cols-3 gap-1.5">
+                    <button onClick={() => setAction("tag")} disabled={count === 0} className={smallButtonClass}>🏷️ Tag</button>
+                    <button onClick={() => setAction("move")} disabled={count === 0} className={smallButtonClass}>📁 Move</button>
+                    <button
+                        onClick={() => confirm(`Delete ${count} prompt${count === 1 ? "" : "s"}?`) && onDelete()}
+                        disabled={count === 0}
+                        className={`${smallButtonClass} hover:text-[var(--accent-red)]`}
+                    >
+                        🗑️ Delete
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Summary of a file about to be imported, with the choice of what to do with duplicates
+function ImportDialog({ fileName, plan, error, onImport, onCancel }: {
+    fileName: string;
+    plan: ImportPlan | null;
+    error: string | null;
+    onImport: (mode: DuplicateMode) => void;
+    onCancel: () => void;
+}) {
+    const [mode, setMode] = useState<DuplicateMode>("merge");
+
+    return (
+        <div className="p-3 border-t border-[var(--border-color)] space-y-2 text-[10px]">
+            <p className="font-medium text-[var(--text-primary)] truncate">📥 {fileName}</p>
+            {error ? (
+                <p className="text-[var(--accent-red)]">{error}</p>
+            ) : !plan ? (
+                <p className="text-[var(--text-muted)]">Reading…</p>
+            ) : (
+                <>
+                    <p className="text-[var(--text-secondary)]">
+                        {plan.added.length} new • {plan.duplicates.length} already in history
+                        {plan.errors.length > 0 && ` • ${plan.errors.length} skipped`}
+                    </p>
+                    {plan.errors.length > 0 && (
+                        <ul className="text-[var(--accent-orange)] max-h-16 overflow-y-auto">
+                            {plan.errors.map((e, i) => <li key={i}>{e}</li>)}
+                        </ul>
+                    )}
+                    {plan.duplicates.length > 0 && (
+                        <div className="space-y-1">
+                            {([
+                                ["merge", "Merge — keep mine, add their tags and folder"],
+                                ["overwrite", "Overwrite mine with the imported ones"],
+                            ] as const).map(([value, label]) => (
+                                <label key={value} className="flex items-center gap-1.5 text-[var(--text-secondary)] cursor-pointer">
+                                    <input type="radio" checked={mode === value} onChange={() => setMode(value)} className="accent-[var(--accent-purple)]" />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+            <div className="flex gap-1.5">
+                <button
+                    onClick={() => onImport(mode)}
+                    disabled={!plan || plan.added.length + plan.duplicates.length === 0}
+                    className={`${smallButtonClass} flex-1`}
+                >
+                    Import
+                </button>
+                <button onClick={onCancel} className={`${smallButtonClass} flex-1`}>Cancel</button>
+            </div>
+        </div>
+    );
 }
 
 export default function HistorySidebar({
     isOpen,
     onClose,
     prompts,
+    hasMore,
+    onLoadMore,
     onSelect,
     onDelete,
     searchQuery,
     onSearchChange,
+    searchHits,
+    onFilterChange,
+    folders,
+    tags,
+    onUpdatePrompts,
+    onDeletePrompts,
+    onExport,
+    onPlanImport,
+    onImport,
 }: HistorySidebarProps) {
+    const [expanded, setExpanded] = useState<{ id: string; panel: "revisions" | "organize" } | null>(null);
+    const [chips, setChips] = useState<FilterChips>(NO_FILTERS);
+    const [view, setView] = useState<HistoryView>({});
+    const [selected, setSelected] = useState<Set<string> | null>(null);  // null when not selecting
+    const [importing, setImporting] = useState<{ fileName: string; plan: ImportPlan | null; error: string | null } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const filtered = Object.values(chips).some(Boolean) || Object.keys(view).length > 0;
+
+    const applyFilter = (nextChips: FilterChips, nextView: HistoryView) => {
+        setChips(nextChips);
+        setView(nextView);
+        onFilterChange({ ...toPromptFilter(nextChips), ...nextView });
+    };
+    const setChip = (key: FilterChipKey, value: string) => applyFilter({ ...chips, [key]: value }, view);
+
+    const togglePanel = (id: string, panel: "revisions" | "organize") => {
+        setExpanded(expanded?.id === id && expanded.panel === panel ? null : { id, panel });
+    };
+    const toggleSelected = (id: string) => {
+        const next = new Set(selected);
+        if (!next.delete(id)) next.add(id);
+        setSelected(next);
+    };
+    const selectedPrompts = prompts.filter((p) => selected?.has(p.id));
+
+    const startImport = (file: File) => {
+        setImporting({ fileName: file.name, plan: null, error: null });
+        onPlanImport(file)
+            .then((plan) => setImporting({ fileName: file.name, plan, error: null }))
+            .catch((err: Error) => setImporting({ fileName: file.name, plan: null, error: err.message }));
+    };
+
     if (!isOpen) return null;
 
+    const viewButtonClass = (active: boolean) =>
+        `px-2 py-1 rounded-full text-[10px] border transition-colors ${active
+            ? "bg-[var(--accent-purple)]/15 border-[var(--accent-purple)] text-[var(--text-primary)]"
+            : "bg-[var(--bg-secondary)] border-[var(--border-color)] text-[var(--text-secondary)]"}`;
+
     return (
         <>
             {/* Backdrop */}
@@ -43,12 +425,31 @@ export default function HistorySidebar({
                     <h2 className="text-sm font-semibold text-[var(--text-primary)]">
                         📜 Prompt History
                     </h2>
-                    <button
-                        onClick={onClose}
-                        className="w-7 h-7 rounded-lg flex items-center justify-center text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-card-hover)] transition-all text-xs"
-                    >
-                        ✕
-                    </button>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => setSelected(selected ? null : new Set())}
+                            className={`px-2 h-7 rounded-lg text-[10px] transition-all ${selected ? "text-[var(--accent-purple)]" : "text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-card-hover)]"}`}
+                            title="Select several prompts"
+                        >
+                            ☑️ Select
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="w-7 h-7 rounded-lg flex items-center justify-center text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-card-hover)] transition-all text-xs"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                </div>
+
+                {/* Views: everything, favorites, one folder or one tag */}
+                <div className="flex flex-wrap items-center gap-1.5 px-3 pt-3">
+                    <button onClick={() => applyFilter(chips, {})} className={viewButtonClass(Object.keys(view).length === 0)}>All</button>
+                    <button onClick={() => applyFilter(chips, { favorite: true })} className={viewButtonClass(!!view.favorite)}>⭐ Favorites</button>
+                    <FilterChip label="📁 Folder" value={view.folder ?? ""} onChange={(v) => applyFilter(chips, v ? { folder: v } : {})}
+                        options={folders.map((f) => ({ value: f.value, label: `📁 ${f.value} (${f.count})` }))} />
+                    <FilterChip label="🏷️ Tag" value={view.tag ?? ""} onChange={(v) => applyFilter(chips, v ? { tag: v } : {})}
+                        options={tags.map((t) => ({ value: t.value, label: `#${t.value} (${t.count})` }))} />
                 </div>
 
                 {/* Search */}
@@ -60,6 +461,22 @@ export default function HistorySidebar({
                         onChange={(e) => onSearchChange(e.target.value)}
                         className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
                     />
+                    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                        <FilterChip label="Intent" value={chips.intent} onChange={(v) => setChip("intent", v)}
+                            options={INTENTS.map((intent) => ({ value: intent, label: intent }))} />
+                        <FilterChip label="Language" value={chips.language} onChange={(v) => setChip("language", v)}
+                            options={SUPPORTED_LANGUAGES.map((lang) => ({ value: lang.code, label: `${lang.flag} ${lang.name}` }))} />
+                        <FilterChip label="Any date" value={chips.date} onChange={(v) => setChip("date", v)} options={DATE_RANGES} />
+                        <FilterChip label="Any quality" value={chips.quality} onChange={(v) => setChip("quality", v)} options={QUALITY_RANGES} />
+                        {filtered && (
+                            <button
+                                onClick={() => applyFilter(NO_FILTERS, {})}
+                                className="text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                            >
+                                Clear
+                            </button>
+                        )}
+                    </div>
                 </div>
 
                 {/* Prompt list */}
@@ -68,53 +485,201 @@ export default function HistorySidebar({
                         <div className="text-center py-8">
                             <div className="text-2xl mb-2">📝</div>
                             <p className="text-xs text-[var(--text-muted)]">
-                                {searchQuery ? "No matching prompts" : "No saved prompts yet"}
+                                {searchQuery || filtered ? "No matching prompts" : "No saved prompts yet"}
                             </p>
                         </div>
                     ) : (
-                        prompts.map((prompt) => (
-                            <div
-                                key={prompt.id}
-                                className="glass-card-sm p-3 cursor-pointer hover:bg-[var(--bg-card-hover)] transition-all group"
-                                onClick={() => onSelect(prompt)}
-                            >
-                                <div className="flex items-start justify-between mb-1">
-                                    <div className="flex-1 min-w-0">
-                                        <h3 className="text-xs font-medium text-[var(--text-primary)] truncate">
-                                            {prompt.title}
-                                        </h3>
-                                        <div className="flex items-center gap-2 mt-1">
-                                            <span
-                                                className="text-[10px] px-1.5 py-0.5 rounded-full"
-                                                style={{
-                                                    background: "var(--accent-purple)20",
-                                                    color: "var(--accent-purple)",
-                                                }}
-                                            >
-                                                {prompt.intent}
-                                            </span>
-                                            <span className="text-[10px] text-[var(--text-muted)]">
-                                                {new Date(prompt.timestamp).toLocaleDateString()}
-                                            </span>
+                        prompts.map((prompt) => {
+                            const hit = searchHits[prompt.id];
+                            const isSelected = !!selected?.has(prompt.id);
+                            return (
+                                <div
+                                    key={prompt.id}
+                                    className={`glass-card-sm p-3 cursor-pointer hover:bg-[var(--bg-card-hover)] transition-all group ${isSelected ? "ring-1 ring-[var(--accent-purple)]" : ""}`}
+                                    onClick={() => (selected ? toggleSelected(prompt.id) : onSelect(prompt))}
+                                >
+                                    <div className="flex items-start justify-between mb-1">
+                                        {selected && (
+                                            <input
+                                                type="checkbox"
+                                                checked={isSelected}
+                                                readOnly
+                                                className="mt-0.5 mr-2 accent-[var(--accent-purple)] pointer-events-none"
+                                            />
+                                        )}
+                                        <div className="flex-1 min-w-0">
+                                            <h3 className="text-xs font-medium text-[var(--text-primary)] truncate">
+                                                {hit ? <Highlighted parts={highlight(prompt.title, hit.terms)} /> : prompt.title}
+                                            </h3>
+                                            <div className="flex items-center gap-2 mt-1">
+                                                <span
+                                                    className="text-[10px] px-1.5 py-0.5 rounded-full"
+                                                    style={{
+                                                        background: "var(--accent-purple)20",
+                                                        color: "var(--accent-purple)",
+                                                    }}
+                                                >
+                                                    {prompt.intent}
+                                                </span>
+                                                <span className="text-[10px] text-[var(--text-muted)]">
+                                                    {new Date(prompt.timestamp).toLocaleDateString()}
+                                                </span>
+                                                {prompt.session?.model && (
+                                                    <span className="text-[10px] text-[var(--text-muted)] truncate" title={`Structured by ${prompt.session.model}`}>
+                                                        🤖 {prompt.session.model}
+                                                    </span>
+                                                )}
+                                                {revisionsOf(prompt).length > 1 && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            togglePanel(prompt.id, "revisions");
+                                                        }}
+                                                        className="text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                                                        title="Compare revisions"
+                                                    >
+                                                        🕘 {revisionsOf(prompt).length}
+                                                    </button>
+                                                )}
+                                            </div>
                                         </div>
+                                        {!selected && (
+                                            <div className="flex items-center gap-0.5">
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        onUpdatePrompts([{ ...prompt, favorite: prompt.favorite ? 0 : 1 }]);
+                                                    }}
+                                                    className={`w-5 h-5 rounded flex items-center justify-center transition-all text-[10px] ${prompt.favorite ? "" : "opacity-0 group-hover:opacity-100 text-[var(--text-muted)]"}`}
+                                                    title={prompt.favorite ? "Remove from favorites" : "Add to favorites"}
+                                                >
+                                                    {prompt.favorite ? "⭐" : "☆"}
+                                                </button>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        togglePanel(prompt.id, "organize");
+                                                    }}
+                                                    className="opacity-0 group-hover:opacity-100 w-5 h-5 rounded flex items-center justify-center text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-all text-[10px]"
+                                                    title="Tags and folder"
+                                                >
+                                                    🏷️
+                                                </button>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        onDelete(prompt.id);
+                                                    }}
+                                                    className="opacity-0 group-hover:opacity-100 w-5 h-5 rounded flex items-center justify-center text-[var(--text-muted)] hover:text-[var(--accent-red)] transition-all text-[10px]"
+                                                >
+                                                    🗑️
+                                                </button>
+                                            </div>
+                                        )}
                                     </div>
-                                    <button
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onDelete(prompt.id);
-                                        }}
-                                        className="opacity-0 group-hover:opacity-100 w-5 h-5 rounded flex items-center justify-center text-[var(--text-muted)] hover:text-[var(--accent-red)] transition-all text-[10px]"
-                                    >
-                                        🗑️
-                                    </button>
+                                    {hit && hit.snippet.length > 0 ? (
+                                        <p className="text-[10px] text-[var(--text-secondary)] line-clamp-3 mt-1">
+                                            <Highlighted parts={hit.snippet} />
+                                        </p>
+                                    ) : (
+                                        <>
+                                            <p className="text-[10px] text-[var(--text-muted)] truncate mt-1">
+                                                {prompt.rawTranscript}
+                                            </p>
+                                            {prompt.englishTranscript && (
+                                                <p className="text-[10px] text-[var(--text-secondary)] truncate" title="English translation">
+                                                    🌐 {prompt.englishTranscript}
+                                                </p>
+                                            )}
+                                        </>
+                                    )}
+                                    {(prompt.folder || prompt.tags.length > 0) && (
+                                        <div className="flex flex-wrap gap-1 mt-1.5">
+                                            {prompt.folder && (
+                                                <span className="text-[10px] text-[var(--text-secondary)]">📁 {prompt.folder}</span>
+                                            )}
+                                            {prompt.tags.map((tag) => (
+                                                <span key={tag} className="text-[10px] text-[var(--accent-blue)]">#{tag}</span>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {expanded?.id === prompt.id && expanded.panel === "revisions" && <RevisionHistory prompt={prompt} />}
+                                    {expanded?.id === prompt.id && expanded.panel === "organize" && (
+                                        <OrganizePanel prompt={prompt} onUpdate={(p) => onUpdatePrompts([p])} />
+                                    )}
                                 </div>
-                                <p className="text-[10px] text-[var(--text-muted)] truncate mt-1">
-                                    {prompt.rawTranscript}
-                                </p>
-                            </div>
-                        ))
+                            );
+                        })
+                    )}
+                    {hasMore && (
+                        <button
+                            onClick={onLoadMore}
+                            className="w-full py-2 rounded-lg text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-card-hover)] transition-all"
+                        >
+                            Load more
+                        </button>
                     )}
                 </div>
+
+                {selected && (
+                    <BulkBar
+                        count={selectedPrompts.length}
+                        tags={tags}
+                        onSelectAll={() => setSelected(new Set(prompts.map((p) => p.id)))}
+                        onTag={(added) => onUpdatePrompts(selectedPrompts.map((p) => ({ ...p, tags: [...new Set([...p.tags, ...added])] })))}
+                        onMove={(folder) => onUpdatePrompts(selectedPrompts.map((p) => ({ ...p, folder })))}
+                        onDelete={() => {
+                            onDeletePrompts(selectedPrompts.map((p) => p.id));
+                            setSelected(new Set());
+                        }}
+                        onDone={() => setSelected(null)}
+                    />
+                )}
+                {importing ? (
+                    <ImportDialog
+                        fileName={importing.fileName}
+                        plan={importing.plan}
+                        error={importing.error}
+                        onImport={(mode) => {
+                            if (importing.plan) onImport(importing.plan, mode);
+                            setImporting(null);
+                        }}
+                        onCancel={() => setImporting(null)}
+                    />
+                ) : (
+                    <div className="flex items-center gap-1.5 p-3 border-t border-[var(--border-color)]">
+                        <select
+                            value=""
+                            onChange={(e) => {
+                                const ids = selected && selectedPrompts.length > 0 ? selectedPrompts.map((p) => p.id) : null;
+                                onExport(e.target.value as HistoryExportFormat, ids);
+                            }}
+                            className={`${smallButtonClass} flex-1 cursor-pointer focus:outline-none`}
+                        >
+                            <option value="" disabled>
+                                ⬇️ Export {selected && selectedPrompts.length > 0 ? `${selectedPrompts.length} selected` : "all"}…
+                            </option>
+                            {HISTORY_EXPORT_FORMATS.map((f) => (
+                                <option key={f.id} value={f.id}>{f.name}</option>
+                            ))}
+                        </select>
+                        <button onClick={() => fileInputRef.current?.click()} className={`${smallButtonClass} flex-1`}>
+                            ⬆️ Import…
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".json,.csv,application/json,text/csv"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) startImport(file);
+                                e.target.value = "";
+                            }}
+                        />
+                    </div>
+                )}
+                <FolderOptions folders={folders} />
             </div>
 
             <style jsx>{`
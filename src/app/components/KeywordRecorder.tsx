@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useState } from "react";
+import { MAX_KEYWORD_RECORDINGS, MIN_KEYWORD_RECORDINGS, recordKeywordTemplate } from "@/lib/keyword-spotter";
+
+interface KeywordRecorderProps {
+    recordings: number[][][];
+    onChange: (recordings: number[][][]) => void;
+}
+
+// Records the user saying their wake phrase, for the on-device keyword spotter
+export default function KeywordRecorder({ recordings, onChange }: KeywordRecorderProps) {
+    const [recording, setRecording] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const record = () => {
+        setRecording(true);
+        setError(null);
+        recordKeywordTemplate()
+            .then((features) => onChange([...recordings, features]))
+            .catch((err: Error) => setError(err.message))
+            .finally(() => setRecording(false));
+    };
+
+    const missing = MIN_KEYWORD_RECORDINGS - recordings.length;
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center gap-1.5">
+                {Array.from({ length: MAX_KEYWORD_RECORDINGS }, (_, i) => (
+                    <span
+                        key={i}
+                        className={`w-2.5 h-2.5 rounded-full ${i < recordings.length ? "bg-[var(--accent-green)]" : "bg-[var(--bg-secondary)] border border-[var(--border-color)]"}`}
+                    />
+                ))}
+                <span className="text-[10px] text-[var(--text-muted)] ml-1">
+                    {recordings.length}/{MAX_KEYWORD_RECORDINGS} recordings
+                </span>
+            </div>
+            <div className="flex items-center gap-1.5">
+                <button
+                    onClick={record}
+                    disabled={recording || recordings.length >= MAX_KEYWORD_RECORDINGS}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--accent-purple)]/15 text-[var(--accent-purple)] hover:bg-[var(--accent-purple)]/25 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                >
+                    {recording ? "🔴 Say your wake phrase…" : "🎙️ Record"}
+                </button>
+                <button
+                    onClick={() => onChange([])}
+                    disabled={recording || recordings.length === 0}
+                    className="px-3 py-1.5 rounded-lg text-xs text-[var(--text-muted)] hover:text-[var(--accent-red)] disabled:opacity-40 transition-all"
+                >
+                    Clear
+                </button>
+            </div>
+            {error ? (
+                <p className="text-[10px] text-[var(--accent-red)]">{error}</p>
+            ) : missing > 0 ? (
+                <p className="text-[10px] text-[var(--accent-orange)]">
+                    Record {missing} more before the wake phrase works. Say it the way you normally would.
+                </p>
+            ) : null}
+        </div>
+    );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useState } from "react";
+import { INTENTS } from "@/lib/intents";
+import { StructuredPrompt } from "@/lib/structurer";
+
+interface PromptEditorProps {
+    prompt: StructuredPrompt;
+    onChange: (prompt: StructuredPrompt) => void;  // every keystroke; the parent re-formats and saves
+}
+
+const inputClass = "w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors";
+const iconButtonClass = "w-6 h-6 shrink-0 rounded flex items-center justify-center text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-card-hover)] disabled:opacity-30 disabled:pointer-events-none transition-all";
+
+interface ListEditorProps {
+    label: string;
+    items: string[];
+    placeholder: string;
+    onChange: (items: string[]) => void;
+}
+
+// Editable bullet list with add, remove and reorder; emptied rows stay until removed and are skipped in the prompt
+function ListEditor({ label, items, placeholder, onChange }: ListEditorProps) {
+    const [draft, setDraft] = useState("");
+
+    const update = (index: number, value: string) => onChange(items.map((item, i) => (i === index ? value : item)));
+    const remove = (index: number) => onChange(items.filter((_, i) => i !== index));
+    const move = (index: number, delta: number) => {
+        const next = [...items];
+        [next[index], next[index + delta]] = [next[index + delta], next[index]];
+        onChange(next);
+    };
+    const add = () => {
+        if (!draft.trim()) return;
+        onChange([...items, draft.trim()]);
+        setDraft("");
+    };
+
+    return (
+        <div>
+            <label className="text-[10px] text-[var(--text-muted)] block mb-1">{label}</label>
+            <div className="space-y-1.5">
+                {items.map((item, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                        <input
+                            value={item}
+                            onChange={(e) => update(i, e.target.value)}
+                            className={inputClass}
+                        />
+                        <button onClick={() => move(i, -1)} disabled={i === 0} className={iconButtonClass} title="Move up">▲</button>
+                        <button onClick={() => move(i, 1)} disabled={i === items.length - 1} className={iconButtonClass} title="Move down">▼</button>
+                        <button onClick={() => remove(i)} className={`${iconButtonClass} hover:text-[var(--accent-red)]`} title="Remove">✕</button>
+                    </div>
+                ))}
+                <div className="flex items-center gap-1">
+                    <input
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && add()}
+                        onBlur={add}
+                        placeholder={placeholder}
+                        className={inputClass}
+                    />
+                    <button onClick={add} disabled={!draft.trim()} className={iconButtonClass} title="Add">＋</button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default function PromptEditor({ prompt, onChange }: PromptEditorProps) {
+    const update = (partial: Partial<StructuredPrompt>) => onChange({ ...prompt, ...partial });
+
+    return (
+        <div className="p-4 space-y-3 border-b border-[var(--border-color)] animate-fade-in">
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+                <div>
+                    <label className="text-[10px] text-[var(--text-muted)] block mb-1">Title</label>
+                    <input value={prompt.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label className="text-[10px] text-[var(--text-muted)] block mb-1">Intent</label>
+                    <select value={prompt.intent} onChange={(e) => update({ intent: e.target.value })} className={inputClass}>
+                        {/* Keep an intent the model invented selectable */}
+                        {!(INTENTS as readonly string[]).includes(prompt.intent) && <option value={prompt.intent}>{prompt.intent}</option>}
+                        {INTENTS.map((intent) => <option key={intent} value={intent}>{intent}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div>
+                <label className="text-[10px] text-[var(--text-muted)] block mb-1">Task</label>
+                <textarea
+                    value={prompt.context}
+                    onChange={(e) => update({ context: e.target.value })}
+                    rows={3}
+                    className={`${inputClass} resize-y`}
+                />
+            </div>
+
+            <ListEditor
+                label="Requirements"
+                items={prompt.requirements}
+                placeholder="Add a requirement…"
+                onChange={(requirements) => update({ requirements })}
+            />
+
+            <ListEditor
+                label="Constraints"
+                items={prompt.constraints}
+                placeholder="Add a constraint…"
+                onChange={(constraints) => update({ constraints })}
+            />
+
+            <div>
+                <label className="text-[10px] text-[var(--text-muted)] block mb-1">Expected Output</label>
+                <input value={prompt.outputFormat} onChange={(e) => update({ outputFormat: e.target.value })} className={inputClass} />
+            </div>
+        </div>
+    );
+}
@@ -1,20 +1,162 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
+import { EXPORT_FORMATS, EXPORT_TARGETS, ExportFormat, ExportTarget, exportPrompt } from "@/lib/exporters";
 import { FormattedPrompt } from "@/lib/formatters";
+import { analyzePrompt, QualityReport } from "@/lib/quality";
+import PromptEditor from "./PromptEditor";
+import { StructuredPrompt } from "@/lib/structurer";
 
 interface PromptOutputProps {
     formattedPrompts: FormattedPrompt[];
     qualityScore: number;
     onCopy: (text: string) => void;
+    partialPrompt?: Partial<StructuredPrompt> | null; // fields streamed so far
+    isStreaming?: boolean;
+    onCancel?: () => void;
+    structuredPrompt?: StructuredPrompt | null; // source for API payload exports and the quality checklist
+    onAskAbout?: (question: string) => void;    // put a quality gap back into the conversation
+    onEdit?: (prompt: StructuredPrompt) => void; // edited fields from the structured prompt editor
+    onUndo?: () => void;                         // step through the saved prompt's revisions
+    onRedo?: () => void;
+    canUndo?: boolean;
+    canRedo?: boolean;
+    showQualityScore?: boolean;                  // the score bar and checklist; off in settings hides them
+}
+
+const historyButtonClass = "w-6 h-6 rounded-lg flex items-center justify-center text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-card-hover)] disabled:opacity-30 disabled:pointer-events-none transition-all";
+
+// "text" shows the formatted prompt; otherwise "<target>:<format>"
+type ExportMode = "text" | `${ExportTarget}:${ExportFormat}`;
+
+// Per-dimension quality breakdown; failed checks say what to add
+function QualityChecklist({ report, onAskAbout }: { report: QualityReport; onAskAbout?: (question: string) => void }) {
+    return (
+        <ul className="px-4 py-3 space-y-2 border-b border-[var(--border-color)] text-xs animate-fade-in">
+            {report.checks.map((c) => (
+                <li key={c.dimension} className="flex items-start gap-2">
+                    <span>{c.passed ? "✅" : "⚠️"}</span>
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-[var(--text-primary)]">{c.label}</span>
+                            <span className="text-[10px] text-[var(--text-muted)]">{c.points}/{c.maxPoints}</span>
+                        </div>
+                        <p className="text-[10px] text-[var(--text-muted)]">{c.detail}</p>
+                        {c.suggestion && <p className="text-[10px] text-[var(--text-secondary)]">💡 {c.suggestion}</p>}
+                    </div>
+                    {c.question && onAskAbout && (
+                        <button
+                            onClick={() => onAskAbout(c.question!)}
+                            className="px-2 py-1 text-[10px] font-medium rounded-lg whitespace-nowrap text-[var(--accent-purple)] border border-[var(--border-color)] hover:bg-[var(--bg-card-hover)] transition-all"
+                            title="Ask me about this"
+                        >
+                            💬 Ask me
+                        </button>
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+function PendingLine({ width }: { width: string }) {
+    return <div className="h-2 rounded-full shimmer-bar opacity-40" style={{ width }} />;
+}
+
+// Structured fields as they stream in, before any LLM format is ready
+function PartialStructure({ prompt }: { prompt: Partial<StructuredPrompt> }) {
+    return (
+        <div className="p-4 space-y-3 text-xs">
+            <div>
+                <span className="text-[var(--text-muted)]">Title</span>
+                {prompt.title ? (
+                    <p className="text-sm font-semibold text-[var(--text-primary)] animate-fade-in">{prompt.title}</p>
+                ) : (
+                    <PendingLine width="60%" />
+                )}
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="text-[var(--text-muted)]">Intent</span>
+                {prompt.intent ? (
+                    <span className="px-1.5 py-0.5 rounded-full text-[var(--accent-purple)] animate-fade-in" style={{ background: "var(--accent-purple)20" }}>
+                        {prompt.intent}
+                    </span>
+                ) : (
+                    <PendingLine width="30%" />
+                )}
+            </div>
+            <div>
+                <span className="text-[var(--text-muted)]">Requirements</span>
+                {prompt.requirements ? (
+                    <ul className="list-disc pl-4 text-[var(--text-primary)] animate-fade-in">
+                        {prompt.requirements.map((r, i) => <li key={i}>{r}</li>)}
+                    </ul>
+                ) : (
+                    <PendingLine width="80%" />
+                )}
+            </div>
+            {prompt.constraints && prompt.constraints.length > 0 && (
+                <div>
+                    <span className="text-[var(--text-muted)]">Constraints</span>
+                    <ul className="list-disc pl-4 text-[var(--text-primary)] animate-fade-in">
+                        {prompt.constraints.map((c, i) => <li key={i}>{c}</li>)}
+                    </ul>
+                </div>
+            )}
+            {prompt.outputFormat && (
+                <div className="animate-fade-in">
+                    <span className="text-[var(--text-muted)]">Expected Output</span>
+                    <p className="text-[var(--text-primary)]">{prompt.outputFormat}</p>
+                </div>
+            )}
+        </div>
+    );
 }
 
 export default function PromptOutput({
     formattedPrompts,
     qualityScore,
     onCopy,
+    partialPrompt,
+    isStreaming = false,
+    onCancel,
+    structuredPrompt,
+    onAskAbout,
+    onEdit,
+    onUndo,
+    onRedo,
+    canUndo = false,
+    canRedo = false,
+    showQualityScore = true,
 }: PromptOutputProps) {
     const [activeTab, setActiveTab] = useState(0);
+    const [exportMode, setExportMode] = useState<ExportMode>("text");
+    const [showChecklist, setShowChecklist] = useState(false);
+    const [editing, setEditing] = useState(false);
+    const report = useMemo(() => (structuredPrompt ? analyzePrompt(structuredPrompt) : null), [structuredPrompt]);
+
+    const cancelButton = isStreaming && onCancel && (
+        <button
+            onClick={onCancel}
+            className="px-2.5 py-1 text-[10px] font-medium rounded-lg text-[var(--accent-red)] border border-[var(--border-color)] hover:bg-[var(--bg-card-hover)] transition-all"
+        >
+            ⏹ Cancel
+        </button>
+    );
+
+    if (formattedPrompts.length === 0 && isStreaming) {
+        return (
+            <div className="glass-card overflow-hidden animate-slide-up">
+                <div className="px-4 py-3 border-b border-[var(--border-color)] flex items-center justify-between">
+                    <span className="text-xs font-medium text-[var(--text-secondary)] animate-pulse">
+                        ✨ Structuring your prompt...
+                    </span>
+                    {cancelButton}
+                </div>
+                <PartialStructure prompt={partialPrompt ?? {}} />
+            </div>
+        );
+    }
 
     if (formattedPrompts.length === 0) {
         return (
@@ -30,46 +172,87 @@ export default function PromptOutput({
         );
     }
 
-    const activePrompt = formattedPrompts[activeTab];
+    const activePrompt = formattedPrompts[Math.min(activeTab, formattedPrompts.length - 1)];
+
+    let shownText = activePrompt.formattedPrompt;
+    if (exportMode !== "text" && structuredPrompt) {
+        const [target, format] = exportMode.split(":") as [ExportTarget, ExportFormat];
+        shownText = exportPrompt(structuredPrompt, target, format);
+    }
 
     return (
         <div className="glass-card overflow-hidden animate-slide-up">
             {/* Quality Score Bar */}
             <div className="px-4 py-3 border-b border-[var(--border-color)] flex items-center justify-between">
                 <div className="flex items-center gap-3">
-                    <span className="text-xs font-medium text-[var(--text-secondary)]">Prompt Quality</span>
-                    <div className="flex items-center gap-2">
-                        <div className="w-24 h-1.5 rounded-full bg-[var(--bg-secondary)] overflow-hidden">
-                            <div
-                                className="h-full rounded-full transition-all duration-700"
-                                style={{
-                                    width: `${qualityScore}%`,
-                                    background:
-                                        qualityScore >= 80
-                                            ? "var(--accent-green)"
-                                            : qualityScore >= 50
-                                                ? "var(--accent-orange)"
-                                                : "var(--accent-red)",
-                                }}
-                            />
+                    {showQualityScore && (
+                        <>
+                            <span className="text-xs font-medium text-[var(--text-secondary)]">Prompt Quality</span>
+                            <div className="flex items-center gap-2">
+                                <div className="w-24 h-1.5 rounded-full bg-[var(--bg-secondary)] overflow-hidden">
+                                    <div
+                                        className="h-full rounded-full transition-all duration-700"
+                                        style={{
+                                            width: `${qualityScore}%`,
+                                            background:
+                                                qualityScore >= 80
+                                                    ? "var(--accent-green)"
+                                                    : qualityScore >= 50
+                                                        ? "var(--accent-orange)"
+                                                        : "var(--accent-red)",
+                                        }}
+                                    />
+                                </div>
+                                <span
+                                    className="text-xs font-bold"
+                                    style={{
+                                        color:
+                                            qualityScore >= 80
+                                                ? "var(--accent-green)"
+                                                : qualityScore >= 50
+                                                    ? "var(--accent-orange)"
+                                                    : "var(--accent-red)",
+                                    }}
+                                >
+                                    {qualityScore}/100
+                                </span>
+                            </div>
+                            {report && (
+                                <button
+                                    onClick={() => setShowChecklist(!showChecklist)}
+                                    className="text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                                    title="Show the quality checklist"
+                                >
+                                    {showChecklist ? "▾" : "▸"} {report.checks.filter((c) => c.passed).length}/{report.checks.length} checks
+                                </button>
+                            )}
+                        </>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    {onUndo && onRedo && !isStreaming && (
+                        <div className="flex items-center">
+                            <button onClick={onUndo} disabled={!canUndo} className={historyButtonClass} title="Undo">↶</button>
+                            <button onClick={onRedo} disabled={!canRedo} className={historyButtonClass} title="Redo">↷</button>
                         </div>
-                        <span
-                            className="text-xs font-bold"
-                            style={{
-                                color:
-                                    qualityScore >= 80
-                                        ? "var(--accent-green)"
-                                        : qualityScore >= 50
-                                            ? "var(--accent-orange)"
-                                            : "var(--accent-red)",
-                            }}
+                    )}
+                    {structuredPrompt && onEdit && !isStreaming && (
+                        <button
+                            onClick={() => setEditing(!editing)}
+                            className={`px-2.5 py-1 text-[10px] font-medium rounded-lg border border-[var(--border-color)] hover:bg-[var(--bg-card-hover)] transition-all ${editing ? "text-[var(--accent-purple)]" : "text-[var(--text-secondary)]"}`}
+                            title="Edit the structured prompt"
                         >
-                            {qualityScore}/100
-                        </span>
-                    </div>
+                            ✏️ {editing ? "Done" : "Edit"}
+                        </button>
+                    )}
+                    {cancelButton}
                 </div>
             </div>
 
+            {report && showChecklist && showQualityScore && <QualityChecklist report={report} onAskAbout={onAskAbout} />}
+
+            {editing && structuredPrompt && onEdit && !isStreaming && <PromptEditor prompt={structuredPrompt} onChange={onEdit} />}
+
             {/* LLM Tabs */}
             <div className="flex border-b border-[var(--border-color)] overflow-x-auto">
                 {formattedPrompts.map((fp, idx) => (
@@ -83,6 +266,11 @@ export default function PromptOutput({
                         <span>{fp.llmName}</span>
                     </button>
                 ))}
+                {isStreaming && (
+                    <span className="flex items-center px-4 py-2.5 text-xs text-[var(--text-muted)] animate-pulse whitespace-nowrap">
+                        ⏳ More coming...
+                    </span>
+                )}
             </div>
 
             {/* Active prompt content */}
@@ -91,21 +279,40 @@ export default function PromptOutput({
                     <span className="text-xs text-[var(--text-muted)]">
                         {activePrompt.description}
                     </span>
-                    <button
-                        onClick={() => onCopy(activePrompt.formattedPrompt)}
-                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-all hover:scale-105"
-                        style={{
-                            background: `${activePrompt.color}20`,
-                            color: activePrompt.color,
-                            border: `1px solid ${activePrompt.color}30`,
-                        }}
-                    >
-                        📋 Copy
-                    </button>
+                    <div className="flex items-center gap-2">
+                        {structuredPrompt && (
+                            <select
+                                value={exportMode}
+                                onChange={(e) => setExportMode(e.target.value as ExportMode)}
+                                className="px-2 py-1.5 rounded-lg text-[10px] bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-secondary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                title="Export as an API request"
+                            >
+                                <option value="text">Prompt text</option>
+                                {EXPORT_TARGETS.map((t) => (
+                                    <optgroup key={t.id} label={`${t.icon} ${t.name} API`}>
+                                        {EXPORT_FORMATS.map((f) => (
+                                            <option key={f.id} value={`${t.id}:${f.id}`}>{t.name} — {f.name}</option>
+                                        ))}
+                                    </optgroup>
+                                ))}
+                            </select>
+                        )}
+                        <button
+                            onClick={() => onCopy(shownText)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-all hover:scale-105"
+                            style={{
+                                background: `${activePrompt.color}20`,
+                                color: activePrompt.color,
+                                border: `1px solid ${activePrompt.color}30`,
+                            }}
+                        >
+                            📋 Copy
+                        </button>
+                    </div>
                 </div>
 
                 <pre className="text-sm leading-relaxed whitespace-pre-wrap text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-xl p-4 max-h-[400px] overflow-y-auto font-mono">
-                    {activePrompt.formattedPrompt}
+                    {shownText}
                 </pre>
             </div>
         </div>
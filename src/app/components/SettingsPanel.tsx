@@ -1,15 +1,29 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
+import { ApiBackend, backendSupports, DEFAULT_FASTAPI_URL } from "@/lib/api-client";
+import { DEFAULT_BASE_URLS, DEFAULT_EMBEDDING_MODELS, DEFAULT_MODELS, LLMProviderKind, LLMRequestFields } from "@/lib/llm";
+import { PromptTemplate } from "@/lib/prompt-templates";
+import { SpeechEngineKind, SUPPORTED_LANGUAGES } from "@/lib/speech";
+import { DEFAULT_WAKE_OPTIONS, DEFAULT_WAKE_PHRASES, WakeEngine, WakePhrase } from "@/lib/wake-word";
+import { DEFAULT_WHISPER_URL } from "@/lib/whisper-stt";
+import KeywordRecorder from "./KeywordRecorder";
+import TemplateEditor from "./TemplateEditor";
 
 export interface AppSettings {
-    silenceTimeout: number;       // seconds before auto-processing (1-10)
+    silenceTimeout: number;       // longest pause (seconds) before auto-processing; short commands finish sooner (1-10)
     ttsSpeed: number;             // speech rate (0.5 - 2.0)
     ttsPitch: number;             // speech pitch (0.5 - 2.0)
     ttsVoice: string;             // selected voice name
     autoStructure: boolean;       // auto-structure after sufficient info
+    sttEngine: SpeechEngineKind;  // browser speech recognition, or a local Whisper server
+    whisperUrl: string;           // transcription endpoint of the Whisper server
     wakeWordEnabled: boolean;     // enable/disable wake word detection
-    wakeWord: string;             // custom wake word
+    wakeEngine: WakeEngine;       // browser speech recognition, or the on-device keyword spotter
+    wakePhrases: WakePhrase[];    // wake phrases, each in its language; any of them wakes the app
+    keywordRecordings: number[][][]; // MFCC recordings of the wake phrase for the on-device spotter
+    wakeSensitivity: number;      // how loosely a heard phrase may match (0.1 strict - 1.0 loose)
+    wakeCooldown: number;         // seconds before the wake word can trigger again (1-10)
     showQualityScore: boolean;    // show prompt quality score
     defaultLanguage: string;      // default speech language
     theme: "dark" | "purple" | "midnight"; // color theme
@@ -17,6 +31,14 @@ export interface AppSettings {
     maxHistoryItems: number;      // max prompts in history
     openRouterApiKey: string;     // OpenRouter API key for AI features
     aiModel: string;              // AI model to use
+    llmProvider: LLMProviderKind; // where AI requests go (OpenRouter or a local server)
+    llmBaseUrl: string;           // base URL of the local server ("" = provider default)
+    localModel: string;           // model name on the local server
+    apiBackend: ApiBackend;       // same-origin Next.js routes or the FastAPI backend
+    fastApiUrl: string;           // FastAPI base URL when apiBackend is "fastapi"
+    customTemplates: PromptTemplate[]; // user-defined target LLM formats
+    similarityBackend: "local" | "embedding"; // how similar saved prompts are found while speaking
+    embeddingModel: string;       // embedding model for the provider ("" = provider default)
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -25,8 +47,14 @@ export const DEFAULT_SETTINGS: AppSettings = {
     ttsPitch: 1.0,
     ttsVoice: "",
     autoStructure: true,
+    sttEngine: "browser",
+    whisperUrl: DEFAULT_WHISPER_URL,
     wakeWordEnabled: true,
-    wakeWord: "hey listen",
+    wakeEngine: "speech",
+    wakePhrases: DEFAULT_WAKE_PHRASES,
+    keywordRecordings: [],
+    wakeSensitivity: DEFAULT_WAKE_OPTIONS.sensitivity,
+    wakeCooldown: DEFAULT_WAKE_OPTIONS.cooldownMs / 1000,
     showQualityScore: true,
     defaultLanguage: "te-IN",
     theme: "dark",
@@ -34,6 +62,14 @@ export const DEFAULT_SETTINGS: AppSettings = {
     maxHistoryItems: 50,
     openRouterApiKey: "",
     aiModel: "deepseek/deepseek-chat-v3-0324:free",
+    llmProvider: "openrouter",
+    llmBaseUrl: "",
+    localModel: "",
+    apiBackend: "next",
+    fastApiUrl: DEFAULT_FASTAPI_URL,
+    customTemplates: [],
+    similarityBackend: "local",
+    embeddingModel: "",
 };
 
 export const FREE_AI_MODELS = [
@@ -46,6 +82,22 @@ export const FREE_AI_MODELS = [
     { id: "nousresearch/deephermes-3-llama-3-8b-preview:free", name: "DeepHermes 3" },
 ];
 
+export const LLM_PROVIDERS: { id: LLMProviderKind; name: string }[] = [
+    { id: "openrouter", name: "OpenRouter (cloud)" },
+    { id: "openai-compatible", name: "OpenAI-compatible (LM Studio, vLLM, llama.cpp)" },
+    { id: "ollama", name: "Ollama" },
+];
+
+// Provider fields sent with every API route request.
+// OpenRouter is the default, so it is left implicit and a server-side LLM_PROVIDER still applies.
+export function llmRequestFields(settings: AppSettings): LLMRequestFields {
+    const embeddingModel = settings.embeddingModel || undefined;
+    if (settings.llmProvider === "openrouter") {
+        return { apiKey: settings.openRouterApiKey, model: settings.aiModel, embeddingModel };
+    }
+    return { provider: settings.llmProvider, baseUrl: settings.llmBaseUrl, model: settings.localModel, embeddingModel };
+}
+
 interface SettingsPanelProps {
     isOpen: boolean;
     onClose: () => void;
@@ -53,11 +105,20 @@ interface SettingsPanelProps {
     onSettingsChange: (settings: AppSettings) => void;
 }
 
+// Settings saved by older versions: a single English wake word became a list of phrases
+function migrateSettings(saved: Partial<AppSettings> & { wakeWord?: string }): Partial<AppSettings> {
+    const { wakeWord, ...rest } = saved;
+    if (wakeWord && !rest.wakePhrases && wakeWord.trim() !== DEFAULT_WAKE_PHRASES[0].phrase) {
+        rest.wakePhrases = [{ phrase: wakeWord.trim(), lang: "en-US" }];
+    }
+    return rest;
+}
+
 function loadSettings(): AppSettings {
     if (typeof window === "undefined") return DEFAULT_SETTINGS;
     try {
         const saved = localStorage.getItem("voiceprompt-settings");
-        if (saved) return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+        if (saved) return { ...DEFAULT_SETTINGS, ...migrateSettings(JSON.parse(saved)) };
     } catch { } // eslint-disable-line no-empty
     return DEFAULT_SETTINGS;
 }
@@ -68,11 +129,14 @@ function saveSettings(settings: AppSettings) {
     } catch { } // eslint-disable-line no-empty
 }
 
-export function useSettings(): [AppSettings, (s: AppSettings) => void] {
+// Settings, their setter, and whether the saved ones have been loaded yet (defaults until then)
+export function useSettings(): [AppSettings, (s: AppSettings) => void, boolean] {
     const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+    const [loaded, setLoaded] = useState(false);
 
     useEffect(() => {
         setSettings(loadSettings());
+        setLoaded(true);
     }, []);
 
     const updateSettings = (newSettings: AppSettings) => {
@@ -80,7 +144,7 @@ export function useSettings(): [AppSettings, (s: AppSettings) => void] {
         saveSettings(newSettings);
     };
 
-    return [settings, updateSettings];
+    return [settings, updateSettings, loaded];
 }
 
 export default function SettingsPanel({
@@ -109,6 +173,10 @@ export default function SettingsPanel({
         onSettingsChange({ ...settings, ...partial });
     };
 
+    const updateWakePhrase = (index: number, partial: Partial<WakePhrase>) => {
+        update({ wakePhrases: settings.wakePhrases.map((p, i) => (i === index ? { ...p, ...partial } : p)) });
+    };
+
     return (
         <>
             <div
@@ -146,34 +214,128 @@ export default function SettingsPanel({
                             </h3>
                             <div className="space-y-3">
                                 <div>
-                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">OpenRouter API Key</label>
-                                    <input
-                                        type="password"
-                                        value={settings.openRouterApiKey}
-                                        onChange={(e) => update({ openRouterApiKey: e.target.value })}
+                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Provider</label>
+                                    <select
+                                        value={settings.llmProvider}
+                                        onChange={(e) => update({ llmProvider: e.target.value as LLMProviderKind })}
                                         className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
-                                        placeholder="sk-or-v1-..."
-                                    />
-                                    <p className="text-[10px] text-[var(--text-muted)] mt-1">
-                                        Free key from <a href="https://openrouter.ai/keys" target="_blank" rel="noopener" className="text-[var(--accent-purple)] underline">openrouter.ai/keys</a> — no credit card needed
-                                    </p>
+                                    >
+                                        {LLM_PROVIDERS.map((p) => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
                                 </div>
+                                {settings.llmProvider === "openrouter" ? (
+                                    <>
+                                        <div>
+                                            <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">OpenRouter API Key</label>
+                                            <input
+                                                type="password"
+                                                value={settings.openRouterApiKey}
+                                                onChange={(e) => update({ openRouterApiKey: e.target.value })}
+                                                className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                                placeholder="sk-or-v1-..."
+                                            />
+                                            <p className="text-[10px] text-[var(--text-muted)] mt-1">
+                                                Free key from <a href="https://openrouter.ai/keys" target="_blank" rel="noopener" className="text-[var(--accent-purple)] underline">openrouter.ai/keys</a> — no credit card needed
+                                            </p>
+                                        </div>
+                                        <div>
+                                            <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">AI Model</label>
+                                            <select
+                                                value={settings.aiModel}
+                                                onChange={(e) => update({ aiModel: e.target.value })}
+                                                className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                            >
+                                                {FREE_AI_MODELS.map((m) => (
+                                                    <option key={m.id} value={m.id}>{m.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {settings.openRouterApiKey ? (
+                                            <div className="text-[10px] text-[var(--accent-green)] flex items-center gap-1">✅ AI enabled — Telugu & all languages supported</div>
+                                        ) : (
+                                            <div className="text-[10px] text-[var(--accent-orange)] flex items-center gap-1">⚠️ Add API key to enable AI-powered prompts (supports Telugu)</div>
+                                        )}
+                                    </>
+                                ) : (
+                                    <>
+                                        <div>
+                                            <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Server URL</label>
+                                            <input
+                                                type="text"
+                                                value={settings.llmBaseUrl}
+                                                onChange={(e) => update({ llmBaseUrl: e.target.value })}
+                                                className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                                placeholder={DEFAULT_BASE_URLS[settings.llmProvider]}
+                                            />
+                                            <p className="text-[10px] text-[var(--text-muted)] mt-1">
+                                                Other than the default, the server must list this URL in LLM_BASE_URL or LLM_ALLOWED_BASE_URLS.
+                                            </p>
+                                        </div>
+                                        <div>
+                                            <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Model</label>
+                                            <input
+                                                type="text"
+                                                value={settings.localModel}
+                                                onChange={(e) => update({ localModel: e.target.value })}
+                                                className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                                placeholder={DEFAULT_MODELS[settings.llmProvider]}
+                                            />
+                                        </div>
+                                        <div className="text-[10px] text-[var(--accent-green)] flex items-center gap-1">🖥️ AI requests go to your local model server</div>
+                                    </>
+                                )}
                                 <div>
-                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">AI Model</label>
+                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Backend</label>
                                     <select
-                                        value={settings.aiModel}
-                                        onChange={(e) => update({ aiModel: e.target.value })}
+                                        value={settings.apiBackend}
+                                        onChange={(e) => update({ apiBackend: e.target.value as ApiBackend })}
                                         className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
                                     >
-                                        {FREE_AI_MODELS.map((m) => (
-                                            <option key={m.id} value={m.id}>{m.name}</option>
-                                        ))}
+                                        <option value="next">Built-in (Next.js API routes)</option>
+                                        <option value="fastapi">FastAPI server (backend/main.py)</option>
                                     </select>
                                 </div>
-                                {settings.openRouterApiKey ? (
-                                    <div className="text-[10px] text-[var(--accent-green)] flex items-center gap-1">✅ AI enabled — Telugu & all languages supported</div>
-                                ) : (
-                                    <div className="text-[10px] text-[var(--accent-orange)] flex items-center gap-1">⚠️ Add API key to enable AI-powered prompts (supports Telugu)</div>
+                                {settings.apiBackend === "fastapi" && (
+                                    <div>
+                                        <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">FastAPI URL</label>
+                                        <input
+                                            type="text"
+                                            value={settings.fastApiUrl}
+                                            onChange={(e) => update({ fastApiUrl: e.target.value })}
+                                            className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                            placeholder={DEFAULT_FASTAPI_URL}
+                                        />
+                                    </div>
+                                )}
+                                <div>
+                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Similar Prompts</label>
+                                    <select
+                                        value={settings.similarityBackend}
+                                        onChange={(e) => update({ similarityBackend: e.target.value as AppSettings["similarityBackend"] })}
+                                        className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                    >
+                                        <option value="local">Local word matching (offline)</option>
+                                        <option value="embedding" disabled={!backendSupports(settings.apiBackend, "embed")}>Embeddings from the provider</option>
+                                    </select>
+                                    <p className="text-[10px] text-[var(--text-muted)] mt-1">
+                                        {backendSupports(settings.apiBackend, "embed")
+                                            ? "Finds saved prompts like the one you are dictating"
+                                            : "The FastAPI server has no embeddings, so similar prompts and translation run locally"}
+                                    </p>
+                                </div>
+                                {settings.similarityBackend === "embedding" && backendSupports(settings.apiBackend, "embed") && (
+                                    <div>
+                                        <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Embedding Model</label>
+                                        <input
+                                            type="text"
+                                            value={settings.embeddingModel}
+                                            onChange={(e) => update({ embeddingModel: e.target.value })}
+                                            className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                            placeholder={DEFAULT_EMBEDDING_MODELS[settings.llmProvider]}
+                                        />
+                                    </div>
                                 )}
                             </div>
                         </section>
@@ -187,11 +349,41 @@ export default function SettingsPanel({
                             </h3>
 
                             <div className="space-y-3">
+                                {/* Speech Engine */}
+                                <div>
+                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Speech Engine</label>
+                                    <select
+                                        value={settings.sttEngine}
+                                        onChange={(e) => update({ sttEngine: e.target.value as SpeechEngineKind })}
+                                        className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                    >
+                                        <option value="browser">Browser speech recognition (Chrome, Edge)</option>
+                                        <option value="whisper">Local Whisper server (any browser)</option>
+                                    </select>
+                                    <p className="text-[10px] text-[var(--text-muted)] mt-1">
+                                        {settings.sttEngine === "browser"
+                                            ? "Chrome sends your dictation to Google for transcription."
+                                            : "Recordings go only to the server below: whisper.cpp (/inference) or faster-whisper (/v1/audio/transcriptions)."}
+                                    </p>
+                                </div>
+                                {settings.sttEngine === "whisper" && (
+                                    <div>
+                                        <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Whisper URL</label>
+                                        <input
+                                            type="text"
+                                            value={settings.whisperUrl}
+                                            onChange={(e) => update({ whisperUrl: e.target.value })}
+                                            className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                            placeholder={DEFAULT_WHISPER_URL}
+                                        />
+                                    </div>
+                                )}
+
                                 {/* Wake Word Toggle */}
                                 <div className="flex items-center justify-between">
                                     <div>
                                         <label className="text-xs font-medium text-[var(--text-primary)]">Wake Word Detection</label>
-                                        <p className="text-[10px] text-[var(--text-muted)]">Say the wake word to activate</p>
+                                        <p className="text-[10px] text-[var(--text-muted)]">Say a wake phrase to activate</p>
                                     </div>
                                     <button
                                         onClick={() => update({ wakeWordEnabled: !settings.wakeWordEnabled })}
@@ -205,15 +397,113 @@ export default function SettingsPanel({
                                     </button>
                                 </div>
 
-                                {/* Custom Wake Word */}
+                                {/* Wake Engine */}
                                 <div>
-                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Wake Word</label>
-                                    <input
-                                        type="text"
-                                        value={settings.wakeWord}
-                                        onChange={(e) => update({ wakeWord: e.target.value.toLowerCase() })}
+                                    <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Wake Engine</label>
+                                    <select
+                                        value={settings.wakeEngine}
+                                        onChange={(e) => update({ wakeEngine: e.target.value as WakeEngine })}
                                         className="w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
-                                        placeholder="hey listen"
+                                    >
+                                        <option value="speech">Browser speech recognition (typed phrases)</option>
+                                        <option value="local">On-device keyword spotter (recorded phrase)</option>
+                                    </select>
+                                    <p className="text-[10px] text-[var(--text-muted)] mt-1">
+                                        {settings.wakeEngine === "speech"
+                                            ? "Chrome sends what the microphone hears to Google while it waits for the wake phrase."
+                                            : "Audio never leaves this device; the wake phrase is matched against your recordings."}
+                                    </p>
+                                </div>
+
+                                {settings.wakeEngine === "speech" ? (
+                                    <>
+                                        {/* Wake Phrases */}
+                                        <div>
+                                            <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Wake Phrases</label>
+                                            <div className="space-y-1.5">
+                                                {settings.wakePhrases.map((wake, i) => (
+                                                    <div key={i} className="flex items-center gap-1.5">
+                                                        <select
+                                                            value={wake.lang}
+                                                            onChange={(e) => updateWakePhrase(i, { lang: e.target.value })}
+                                                            className="w-20 px-1.5 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                                            title="Language of the phrase"
+                                                        >
+                                                            {SUPPORTED_LANGUAGES.map((l) => (
+                                                                <option key={l.code} value={l.code}>{l.flag} {l.code}</option>
+                                                            ))}
+                                                        </select>
+                                                        <input
+                                                            type="text"
+                                                            value={wake.phrase}
+                                                            onChange={(e) => updateWakePhrase(i, { phrase: e.target.value })}
+                                                            className="flex-1 min-w-0 px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors"
+                                                            placeholder="hey listen"
+                                                        />
+                                                        <button
+                                                            onClick={() => update({ wakePhrases: settings.wakePhrases.filter((_, j) => j !== i) })}
+                                                            disabled={settings.wakePhrases.length === 1}
+                                                            className="w-6 h-6 rounded flex items-center justify-center text-[10px] text-[var(--text-muted)] hover:text-[var(--accent-red)] disabled:opacity-30 transition-all"
+                                                            title="Remove phrase"
+                                                        >
+                                                            ✕
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            <button
+                                                onClick={() => update({ wakePhrases: [...settings.wakePhrases, { phrase: "", lang: settings.defaultLanguage }] })}
+                                                className="mt-1.5 text-[10px] text-[var(--accent-purple)] hover:underline"
+                                            >
+                                                + Add phrase
+                                            </button>
+                                        </div>
+                                    </>
+                                ) : (
+                                    <div>
+                                        <label className="text-xs font-medium text-[var(--text-primary)] block mb-1">Wake Phrase Recordings</label>
+                                        <KeywordRecorder
+                                            recordings={settings.keywordRecordings}
+                                            onChange={(keywordRecordings) => update({ keywordRecordings })}
+                                        />
+                                    </div>
+                                )}
+
+                                {/* Wake Sensitivity */}
+                                <div>
+                                    <div className="flex items-center justify-between mb-1">
+                                        <label className="text-xs font-medium text-[var(--text-primary)]">Wake Sensitivity</label>
+                                        <span className="text-[10px] text-[var(--accent-green)]">{Math.round(settings.wakeSensitivity * 100)}%</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min="0.1"
+                                        max="1"
+                                        step="0.1"
+                                        value={settings.wakeSensitivity}
+                                        onChange={(e) => update({ wakeSensitivity: parseFloat(e.target.value) })}
+                                        className="w-full accent-[var(--accent-purple)] h-1"
+                                    />
+                                    <div className="flex justify-between text-[10px] text-[var(--text-muted)]">
+                                        <span>Exact phrase</span>
+                                        <span>Sound-alikes</span>
+                                    </div>
+                                </div>
+
+                                {/* Wake Cooldown */}
+                                <div>
+                                    <div className="flex items-center justify-between mb-1">
+                                        <label className="text-xs font-medium text-[var(--text-primary)]">Wake Cooldown</label>
+                                        <span className="text-[10px] text-[var(--accent-green)]">{settings.wakeCooldown}s</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min="1"
+                                        max="10"
+                                        step="1"
+                                        value={settings.wakeCooldown}
+                                        onChange={(e) => update({ wakeCooldown: parseFloat(e.target.value) })}
+                                        className="w-full accent-[var(--accent-purple)] h-1"
                                     />
                                 </div>
 
@@ -236,6 +526,9 @@ export default function SettingsPanel({
                                         <span>1s (fast)</span>
                                         <span>10s (patient)</span>
                                     </div>
+                                    <p className="text-[10px] text-[var(--text-muted)] mt-1">
+                                        The longest pause before your prompt is processed. Short commands finish sooner.
+                                    </p>
                                 </div>
                             </div>
                         </section>
@@ -315,7 +608,7 @@ export default function SettingsPanel({
                                 <div className="flex items-center justify-between">
                                     <div>
                                         <label className="text-xs font-medium text-[var(--text-primary)]">Auto-Structure</label>
-                                        <p className="text-[10px] text-[var(--text-muted)]">Automatically structure when ready</p>
+                                        <p className="text-[10px] text-[var(--text-muted)]">Process when you pause; off waits for &quot;done&quot; or a tap</p>
                                     </div>
                                     <button
                                         onClick={() => update({ autoStructure: !settings.autoStructure })}
@@ -351,6 +644,19 @@ export default function SettingsPanel({
 
                         <hr className="border-[var(--border-color)]" />
 
+                        {/* Custom Formats */}
+                        <section>
+                            <h3 className="text-xs font-semibold text-[var(--accent-purple)] uppercase tracking-wider mb-3">
+                                🧩 Custom Formats
+                            </h3>
+                            <TemplateEditor
+                                templates={settings.customTemplates}
+                                onChange={(customTemplates) => update({ customTemplates })}
+                            />
+                        </section>
+
+                        <hr className="border-[var(--border-color)]" />
+
                         {/* History & Storage */}
                         <section>
                             <h3 className="text-xs font-semibold text-[var(--accent-purple)] uppercase tracking-wider mb-3">
@@ -362,7 +668,7 @@ export default function SettingsPanel({
                                 <div className="flex items-center justify-between">
                                     <div>
                                         <label className="text-xs font-medium text-[var(--text-primary)]">Auto-Save History</label>
-                                        <p className="text-[10px] text-[var(--text-muted)]">Save prompts automatically</p>
+                                        <p className="text-[10px] text-[var(--text-muted)]">Save new prompts automatically; off shows a Save button</p>
                                     </div>
                                     <button
                                         onClick={() => update({ autoSaveHistory: !settings.autoSaveHistory })}
@@ -0,0 +1,61 @@
+"use client";
+
+import React from "react";
+import { SimilarPrompt } from "@/lib/similarity";
+import { SavedPrompt } from "@/lib/storage";
+
+interface SimilarPromptsProps {
+    suggestions: SimilarPrompt[];
+    disabled: boolean;                       // while a turn is being processed or spoken
+    onReuse: (prompt: SavedPrompt) => void;
+    onMerge: (prompt: SavedPrompt) => void;
+    onDismiss: () => void;
+}
+
+// Saved prompts resembling the one being dictated, offered for reuse or merging
+export default function SimilarPrompts({ suggestions, disabled, onReuse, onMerge, onDismiss }: SimilarPromptsProps) {
+    if (suggestions.length === 0) return null;
+
+    const actionClass = "px-2 py-0.5 rounded-md text-[10px] font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed";
+
+    return (
+        <div className="glass-card-sm p-3 space-y-2">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-[var(--text-primary)]">🔁 You made something like this before</h3>
+                <button
+                    onClick={onDismiss}
+                    className="w-5 h-5 rounded flex items-center justify-center text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-all text-[10px]"
+                    title="Dismiss"
+                >
+                    ✕
+                </button>
+            </div>
+            {suggestions.map(({ prompt, score }) => (
+                <div key={prompt.id} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                        <p className="text-xs text-[var(--text-primary)] truncate" title={prompt.rawTranscript}>{prompt.title}</p>
+                        <p className="text-[10px] text-[var(--text-muted)]">
+                            {Math.round(score * 100)}% similar • {new Date(prompt.timestamp).toLocaleDateString()}
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => onReuse(prompt)}
+                        disabled={disabled}
+                        className={`${actionClass} bg-[var(--accent-green)]/15 text-[var(--accent-green)] hover:bg-[var(--accent-green)]/25`}
+                        title="Open this prompt instead"
+                    >
+                        Reuse
+                    </button>
+                    <button
+                        onClick={() => onMerge(prompt)}
+                        disabled={disabled}
+                        className={`${actionClass} bg-[var(--accent-purple)]/15 text-[var(--accent-purple)] hover:bg-[var(--accent-purple)]/25`}
+                        title="Combine what you are saying with this prompt"
+                    >
+                        Merge
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -1,11 +1,15 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useState } from "react";
+import type { VoiceActivityDetector } from "@/lib/vad";
 
 interface StatusIndicatorProps {
     status: "idle" | "wake-listening" | "listening" | "processing" | "speaking";
+    vad?: VoiceActivityDetector;   // shows the live input level while listening
 }
 
+const LEVEL_BARS = 5;
+
 const STATUS_CONFIG = {
     idle: {
         label: 'Say "Hey Listen" to start',
@@ -44,8 +48,11 @@ const STATUS_CONFIG = {
     },
 };
 
-export default function StatusIndicator({ status }: StatusIndicatorProps) {
+export default function StatusIndicator({ status, vad }: StatusIndicatorProps) {
     const config = STATUS_CONFIG[status];
+    const [level, setLevel] = useState(0);
+
+    useEffect(() => vad?.subscribeLevel(setLevel), [vad]);
 
     return (
         <div className="flex items-center gap-3">
@@ -64,6 +71,21 @@ export default function StatusIndicator({ status }: StatusIndicatorProps) {
             <span className="text-sm font-medium" style={{ color: config.dotColor }}>
                 {config.label}
             </span>
+            {vad && status === "listening" && (
+                <div className="flex items-end gap-0.5 h-3" aria-label={`Input level ${Math.round(level * 100)}%`}>
+                    {Array.from({ length: LEVEL_BARS }, (_, i) => (
+                        <span
+                            key={i}
+                            className="w-1 rounded-sm transition-all duration-75"
+                            style={{
+                                height: `${((i + 1) / LEVEL_BARS) * 100}%`,
+                                backgroundColor: config.dotColor,
+                                opacity: level * LEVEL_BARS > i ? 1 : 0.2,
+                            }}
+                        />
+                    ))}
+                </div>
+            )}
         </div>
     );
 }
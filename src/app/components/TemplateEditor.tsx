@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+    PromptTemplate,
+    TEMPLATE_FIELDS,
+    TEMPLATE_PRESETS,
+    createTemplate,
+    renderTemplate,
+    validateTemplate,
+} from "@/lib/prompt-templates";
+import { StructuredPrompt } from "@/lib/structurer";
+
+interface TemplateEditorProps {
+    templates: PromptTemplate[];
+    onChange: (templates: PromptTemplate[]) => void;
+}
+
+// Sample data so the preview shows something meaningful while editing
+const PREVIEW_PROMPT: StructuredPrompt = {
+    title: "Todo REST API",
+    intent: "Code Generation",
+    context: "Build a REST API for a todo app",
+    requirements: ["CRUD endpoints for todos", "JWT authentication"],
+    constraints: ["No external database"],
+    outputFormat: "Complete, production-ready code with comments",
+    fullPrompt: "## Task\nBuild a REST API for a todo app",
+    qualityScore: 72,
+};
+
+const inputClass = "w-full px-3 py-2 rounded-lg text-xs bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-purple)] transition-colors";
+
+export default function TemplateEditor({ templates, onChange }: TemplateEditorProps) {
+    const [openId, setOpenId] = useState<string | null>(null);
+
+    const updateTemplate = (id: string, partial: Partial<PromptTemplate>) => {
+        onChange(templates.map((t) => (t.id === id ? { ...t, ...partial } : t)));
+    };
+
+    const addTemplate = (presetIndex: number) => {
+        const created = createTemplate(TEMPLATE_PRESETS[presetIndex]);
+        onChange([...templates, created]);
+        setOpenId(created.id);
+    };
+
+    return (
+        <div className="space-y-2">
+            {templates.length === 0 && (
+                <p className="text-[10px] text-[var(--text-muted)]">
+                    Add your own target LLMs (Llama, Mistral, Qwen, house styles). They appear as extra tabs next to the built-in five.
+                </p>
+            )}
+
+            {templates.map((t) => {
+                const error = validateTemplate(t.template);
+                const isOpen = openId === t.id;
+                return (
+                    <div key={t.id} className="rounded-lg border border-[var(--border-color)] overflow-hidden">
+                        <div className="flex items-center justify-between px-3 py-2 bg-[var(--bg-secondary)]">
+                            <button
+                                onClick={() => setOpenId(isOpen ? null : t.id)}
+                                className="flex items-center gap-2 text-xs font-medium text-[var(--text-primary)]"
+                            >
+                                <span>{t.icon}</span>
+                                <span>{t.name || "Untitled"}</span>
+                                {error && <span className="text-[10px] text-[var(--accent-red)]">⚠️</span>}
+                            </button>
+                            <button
+                                onClick={() => onChange(templates.filter((x) => x.id !== t.id))}
+                                className="text-[10px] text-[var(--text-muted)] hover:text-[var(--accent-red)] transition-all"
+                                title="Delete format"
+                            >
+                                🗑️
+                            </button>
+                        </div>
+
+                        {isOpen && (
+                            <div className="p-3 space-y-2">
+                                <div className="grid grid-cols-[1fr_56px_40px] gap-2">
+                                    <input
+                                        type="text"
+                                        value={t.name}
+                                        onChange={(e) => updateTemplate(t.id, { name: e.target.value })}
+                                        className={inputClass}
+                                        placeholder="Name"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={t.icon}
+                                        onChange={(e) => updateTemplate(t.id, { icon: e.target.value })}
+                                        className={`${inputClass} text-center`}
+                                        placeholder="Icon"
+                                    />
+                                    <input
+                                        type="color"
+                                        value={t.color}
+                                        onChange={(e) => updateTemplate(t.id, { color: e.target.value })}
+                                        className="w-full h-full rounded-lg bg-transparent cursor-pointer"
+                                        title="Accent color"
+                                    />
+                                </div>
+                                <input
+                                    type="text"
+                                    value={t.description}
+                                    onChange={(e) => updateTemplate(t.id, { description: e.target.value })}
+                                    className={inputClass}
+                                    placeholder="Description"
+                                />
+                                <textarea
+                                    value={t.template}
+                                    onChange={(e) => updateTemplate(t.id, { template: e.target.value })}
+                                    rows={8}
+                                    spellCheck={false}
+                                    className={`${inputClass} font-mono leading-relaxed`}
+                                />
+                                <p className="text-[10px] text-[var(--text-muted)]">
+                                    Fields: {TEMPLATE_FIELDS.map((f) => `{{${f}}}`).join(" ")} • Loops: {"{{#requirements}}- {{.}}{{/requirements}}"} • If empty: {"{{^constraints}}…{{/constraints}}"}
+                                </p>
+                                {error ? (
+                                    <p className="text-[10px] text-[var(--accent-red)]">⚠️ {error}</p>
+                                ) : (
+                                    <pre className="text-[10px] leading-relaxed whitespace-pre-wrap text-[var(--text-secondary)] bg-[var(--bg-secondary)] rounded-lg p-2 max-h-40 overflow-y-auto font-mono">
+                                        {renderTemplate(t.template, PREVIEW_PROMPT)}
+                                    </pre>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            <select
+                value=""
+                onChange={(e) => e.target.value !== "" && addTemplate(parseInt(e.target.value))}
+                className={inputClass}
+            >
+                <option value="">➕ Add target LLM format...</option>
+                {TEMPLATE_PRESETS.map((p, i) => (
+                    <option key={p.name} value={i}>{p.icon} {p.name} — {p.description}</option>
+                ))}
+            </select>
+        </div>
+    );
+}
@@ -1,100 +1,273 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import StatusIndicator from "./components/StatusIndicator";
 import ConversationChat from "./components/ConversationChat";
 import PromptOutput from "./components/PromptOutput";
 import VoiceRecorder from "./components/VoiceRecorder";
 import HistorySidebar from "./components/HistorySidebar";
+import SimilarPrompts from "./components/SimilarPrompts";
 import LanguageSelector from "./components/LanguageSelector";
-import SettingsPanel, { useSettings } from "./components/SettingsPanel";
+import SettingsPanel, { DEFAULT_SETTINGS, llmRequestFields, useSettings } from "./components/SettingsPanel";
 import Logo from "./components/Logo";
-import { SpeechManager } from "@/lib/speech";
-import { WakeWordDetector } from "@/lib/wake-word";
+import { SpeechManager, WebSpeechEngine } from "@/lib/speech";
+import { DEFAULT_WHISPER_URL, WhisperEngine } from "@/lib/whisper-stt";
+import { WakeDetector, WakeWordDetector } from "@/lib/wake-word";
+import { KeywordSpotter, MIN_KEYWORD_RECORDINGS } from "@/lib/keyword-spotter";
 import { TTSManager } from "@/lib/tts";
+import { DEFAULT_VAD_OPTIONS, VoiceActivityDetector } from "@/lib/vad";
 import { ConversationManager, ChatMessage } from "@/lib/conversation";
-import { structurePrompt } from "@/lib/structurer";
-import { formatForAllLLMs, FormattedPrompt } from "@/lib/formatters";
-import { SavedPrompt, savePrompt, getAllPrompts, deletePrompt, searchPrompts } from "@/lib/storage";
+import { rebuildPrompt, structurePrompt, StructuredPrompt } from "@/lib/structurer";
+import { formatForAllLLMs, formatForCustomLLMs, FormattedPrompt, withDisplayInfo } from "@/lib/formatters";
+import { syncTemplateFormatters } from "@/lib/prompt-templates";
+import { SlotState } from "@/lib/slots";
+import { ApiTranslator, LocalTranslator } from "@/lib/translation";
+import { applyVoiceCommand, parseVoiceCommand, VoiceCommand } from "@/lib/voice-commands";
+import { addRevision, canRedo, canUndo, currentRevision, mergeInto, moveRevision, PromptRevision } from "@/lib/revisions";
+import { SavedPrompt, SavedSession, savePrompt, savePrompts, deletePrompt, deletePrompts, getAllPrompts, pruneHistory, queryPrompts, searchPrompts, findSimilarPrompts, listFacet, FacetCount, PromptCursor, PromptFilter } from "@/lib/storage";
+import { tokenize, type SearchHit } from "@/lib/search-index";
+import { EmbeddingIndex, SimilarPrompt } from "@/lib/similarity";
+import { downloadText, DuplicateMode, exportHistory, HISTORY_EXPORT_FORMATS, HistoryExportFormat, ImportPlan, planImport, resolveImport } from "@/lib/history-transfer";
+import { ApiClient, ApiError, backendSupports } from "@/lib/api-client";
+import { ApiFormattedPrompt } from "@/lib/api-types";
+import { LLMErrorInfo } from "@/lib/llm";
 
 type AppStatus = "idle" | "wake-listening" | "listening" | "processing" | "speaking";
 
+const EDIT_SAVE_DELAY_MS = 800;  // editor changes are written to history once typing pauses
+const SIMILAR_DELAY_MS = 600;    // similar prompts are looked up once speech pauses this long
+const MIN_SIMILAR_TERMS = 3;     // too little speech matches everything
+const PRUNE_DELAY_MS = 1500;     // a lowered history limit applies once the slider settles
+
 export default function Home() {
   // Core state
   const [status, setStatus] = useState<AppStatus>("idle");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [slots, setSlots] = useState<SlotState[]>([]);
   const [interimTranscript, setInterimTranscript] = useState("");
   const [formattedPrompts, setFormattedPrompts] = useState<FormattedPrompt[]>([]);
   const [qualityScore, setQualityScore] = useState(0);
-  const [currentLang, setCurrentLang] = useState("te-IN");
+  const [partialPrompt, setPartialPrompt] = useState<Partial<StructuredPrompt> | null>(null);
+  const [structuredPrompt, setStructuredPrompt] = useState<StructuredPrompt | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [revisionNav, setRevisionNav] = useState({ canUndo: false, canRedo: false });
+  const [currentLang, setCurrentLang] = useState(DEFAULT_SETTINGS.defaultLanguage);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
 
   // Theme state
   const [isDark, setIsDark] = useState(true);
 
   // Settings state
-  const [settings, setSettings] = useSettings();
+  const [settings, setSettings, settingsLoaded] = useSettings();
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const settingsRef = useRef(settings);  // for the voice loop's callbacks
+  const statusRef = useRef(status);      // for effects that must not rerun on every status change
+
+  // API client follows the backend and provider chosen in settings
+  const apiClient = useMemo(
+    () => new ApiClient({ backend: settings.apiBackend, fastApiUrl: settings.fastApiUrl, llm: llmRequestFields(settings) }),
+    [settings]
+  );
+  const translator = useMemo(
+    () => backendSupports(settings.apiBackend, "translate") ? new ApiTranslator(apiClient) : new LocalTranslator(),
+    [settings.apiBackend, apiClient]
+  );
+  // A new client may mean a new embedding model, whose vectors must not mix with cached ones
+  const vad = useMemo(() => new VoiceActivityDetector(), []);
+  const embeddingIndex = useMemo(
+    () => settings.similarityBackend === "embedding" && backendSupports(settings.apiBackend, "embed")
+      ? new EmbeddingIndex(async (texts) => (await apiClient.embed({ texts })).data.vectors)
+      : undefined,
+    [settings.similarityBackend, settings.apiBackend, apiClient]
+  );
 
   // History state
   const [historyOpen, setHistoryOpen] = useState(false);
   const [savedPrompts, setSavedPrompts] = useState<SavedPrompt[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [historyFilter, setHistoryFilter] = useState<PromptFilter>({});
+  const [searchHits, setSearchHits] = useState<Record<string, SearchHit>>({});  // by prompt id, while searching
+  const [historyNext, setHistoryNext] = useState<PromptCursor | null>(null);  // cursor for "Load more"
+  const [historyVersion, setHistoryVersion] = useState(0);                    // bumped to reload history
+  const [similarPrompts, setSimilarPrompts] = useState<SimilarPrompt[]>([]);
+  const [historyFacets, setHistoryFacets] = useState<{ folders: FacetCount[]; tags: FacetCount[] }>({ folders: [], tags: [] });
+  const [unsavedPrompt, setUnsavedPrompt] = useState<SavedPrompt | null>(null);  // new entry waiting for Save when auto-save is off
 
   // Refs for managers (persist across renders)
   const speechRef = useRef<SpeechManager | null>(null);
-  const wakeWordRef = useRef<WakeWordDetector | null>(null);
+  const wakeWordRef = useRef<WakeDetector | null>(null);
   const ttsRef = useRef<TTSManager | null>(null);
   const conversationRef = useRef<ConversationManager | null>(null);
   const finalTranscriptRef = useRef("");
-  const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const interimTranscriptRef = useRef("");
+  const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);  // fallback endpointing when voice activity detection is unavailable
+  const vadReadyRef = useRef(false);
+  const finishingRef = useRef(false);  // the turn is ending; the engine may still deliver its last words
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const currentSavedRef = useRef<SavedPrompt | null>(null);  // history entry shown in the output, updated by edits
+  const editSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const structuredPromptRef = useRef<StructuredPrompt | null>(null);
+  const pendingEditRef = useRef<{ savedId?: string; revision: PromptRevision } | null>(null);
+  const unsavedPromptRef = useRef<SavedPrompt | null>(null);
 
   // Theme toggle
   const toggleTheme = useCallback(() => {
     setIsDark((prev) => {
       const next = !prev;
-      document.documentElement.setAttribute("data-theme", next ? "dark" : "light");
       localStorage.setItem("voiceprompt-theme", next ? "dark" : "light");
       return next;
     });
   }, []);
 
+  // Dark mode uses the palette chosen in settings
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", isDark ? settings.theme : "light");
+  }, [isDark, settings.theme]);
+
   // Initialize managers & theme
   useEffect(() => {
     // Load saved theme
     const savedTheme = localStorage.getItem("voiceprompt-theme");
-    if (savedTheme === "light") {
-      setIsDark(false);
-      document.documentElement.setAttribute("data-theme", "light");
-    }
+    if (savedTheme === "light") setIsDark(false);
 
     speechRef.current = new SpeechManager();
     wakeWordRef.current = new WakeWordDetector();
     ttsRef.current = new TTSManager();
     conversationRef.current = new ConversationManager();
-
-    // Load saved prompts
-    getAllPrompts().then(setSavedPrompts).catch(console.error);
-
-    // Auto-start wake word listener
-    startWakeWordListening();
+    // The wake word listener starts once settings are loaded and say which engine to use
 
     return () => {
       speechRef.current?.stop();
       wakeWordRef.current?.stop();
       ttsRef.current?.stop();
+      vad.stop();
     };
+  }, [vad]);
+
+  // The silence timeout is the longest pause the voice activity detector waits out
+  useEffect(() => {
+    const maxSilenceMs = settings.silenceTimeout * 1000;
+    vad.configure({ maxSilenceMs, minSilenceMs: Math.min(DEFAULT_VAD_OPTIONS.minSilenceMs, maxSilenceMs) });
+  }, [vad, settings.silenceTimeout]);
+
+  // Keep the formatter registry in step with the user's custom templates
+  useEffect(() => {
+    syncTemplateFormatters(settings.customTemplates);
+  }, [settings.customTemplates]);
+
+  // Settings apply live: managers are reconfigured as they change, callbacks read them through the ref
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  useEffect(() => {
+    ttsRef.current?.configure({ rate: settings.ttsSpeed, pitch: settings.ttsPitch, voice: settings.ttsVoice });
+  }, [settings.ttsSpeed, settings.ttsPitch, settings.ttsVoice]);
+
+  // Swap speech-to-text engines in place
+  useEffect(() => {
+    const speech = speechRef.current;
+    const Engine = settings.sttEngine === "whisper" ? WhisperEngine : WebSpeechEngine;
+    if (!speech || speech.getEngine() instanceof Engine) return;
+    speech.setEngine(new Engine());
+  }, [settings.sttEngine]);
+
+  useEffect(() => {
+    const engine = speechRef.current?.getEngine();
+    if (engine instanceof WhisperEngine) engine.configure(settings.whisperUrl || DEFAULT_WHISPER_URL);
+  }, [settings.sttEngine, settings.whisperUrl]);
+
+  // The on-device spotter has nothing to compare against until the phrase is recorded; the speech detector listens until then
+  const missingRecordings = Math.max(MIN_KEYWORD_RECORDINGS - settings.keywordRecordings.length, 0);
+  const localWake = settings.wakeEngine === "local" && missingRecordings === 0;
+
+  // Swap wake word engines in place; a detector that was listening hands over to the new one
+  useEffect(() => {
+    const current = wakeWordRef.current;
+    const Engine = localWake ? KeywordSpotter : WakeWordDetector;
+    if (!current || current instanceof Engine) return;
+    const wasListening = current.isListening();
+    current.stop();
+    wakeWordRef.current = new Engine();
+    if (wasListening) startWakeWordListening();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [localWake]);
+
+  // Recognition follows the language being spoken, so it changes with the language selector too
+  useEffect(() => {
+    wakeWordRef.current?.configure({
+      phrases: settings.wakePhrases,
+      sensitivity: settings.wakeSensitivity,
+      cooldownMs: settings.wakeCooldown * 1000,
+      lang: currentLang,
+      templates: settings.keywordRecordings,
+    });
+  }, [localWake, settings.wakePhrases, settings.wakeSensitivity, settings.wakeCooldown, settings.keywordRecordings, currentLang]);
+
+  useEffect(() => {
+    setCurrentLang(settings.defaultLanguage);
+    speechRef.current?.setLanguage(settings.defaultLanguage);
+  }, [settings.defaultLanguage]);
 
-  // Search prompts
   useEffect(() => {
-    if (searchQuery) {
-      searchPrompts(searchQuery).then(setSavedPrompts).catch(console.error);
+    unsavedPromptRef.current = unsavedPrompt;
+  }, [unsavedPrompt]);
+
+  // Mirror the prompt on screen for the voice loop's callbacks
+  useEffect(() => {
+    structuredPromptRef.current = structuredPrompt;
+  }, [structuredPrompt]);
+
+  // Load ranked search hits, or the first history page when not searching; again whenever an entry is saved or deleted
+  useEffect(() => {
+    let stale = false;
+    if (searchQuery.trim()) {
+      searchPrompts(searchQuery, historyFilter).then((hits) => {
+        if (stale) return;
+        setSavedPrompts(hits.map((hit) => hit.prompt));
+        setSearchHits(Object.fromEntries(hits.map((hit) => [hit.prompt.id, hit])));
+        setHistoryNext(null);
+      }).catch(console.error);
     } else {
-      getAllPrompts().then(setSavedPrompts).catch(console.error);
+      queryPrompts({ filter: historyFilter }).then((page) => {
+        if (stale) return;
+        setSavedPrompts(page.prompts);
+        setSearchHits({});
+        setHistoryNext(page.next);
+      }).catch(console.error);
     }
-  }, [searchQuery]);
+    return () => {
+      stale = true;
+    };
+  }, [searchQuery, historyFilter, historyVersion]);
+
+  // Folders and tags in use, for the sidebar views
+  useEffect(() => {
+    Promise.all([listFacet("folder"), listFacet("tags")])
+      .then(([folders, tags]) => setHistoryFacets({ folders, tags }))
+      .catch(console.error);
+  }, [historyVersion]);
+
+  // Suggest saved prompts resembling what is being said, once speech pauses
+  useEffect(() => {
+    if (status !== "listening") return;
+    const spoken = `${finalTranscriptRef.current} ${interimTranscript}`.trim();
+    if (tokenize(spoken).length < MIN_SIMILAR_TERMS) return;
+    let stale = false;
+    const timer = setTimeout(() => {
+      findSimilarPrompts(spoken, { exclude: currentSavedRef.current?.id, embeddings: embeddingIndex }).then((found) => {
+        if (!stale) setSimilarPrompts(found);
+      }).catch(console.error);
+    }, SIMILAR_DELAY_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [status, interimTranscript, embeddingIndex]);
 
   // Show toast
   const showToast = useCallback((msg: string) => {
@@ -102,8 +275,12 @@ export default function Home() {
     setTimeout(() => setToastMessage(null), 2500);
   }, []);
 
-  // Start wake word listening
+  // Start wake word listening, or just go idle when the wake word is off
   const startWakeWordListening = useCallback(() => {
+    if (!settingsRef.current.wakeWordEnabled) {
+      setStatus("idle");
+      return;
+    }
     setStatus("wake-listening");
     wakeWordRef.current?.start(() => {
       // Wake word detected!
@@ -112,6 +289,18 @@ export default function Home() {
     });
   }, []);
 
+  // Auto-start the wake word listener; turning it on or off takes effect at once, unless a turn is in progress
+  useEffect(() => {
+    const current = statusRef.current;
+    if (!settingsLoaded || (current !== "idle" && current !== "wake-listening")) return;
+    if (settings.wakeWordEnabled) {
+      startWakeWordListening();
+    } else {
+      wakeWordRef.current?.stop();
+      setStatus("idle");
+    }
+  }, [settingsLoaded, settings.wakeWordEnabled, startWakeWordListening]);
+
   // Handle wake-up event
   const handleWakeUp = useCallback(() => {
     // Play a chime-like sound using Web Audio API
@@ -154,9 +343,26 @@ export default function Home() {
   const startListening = useCallback(() => {
     if (!speechRef.current) return;
     setStatus("listening");
+    finishingRef.current = false;
     finalTranscriptRef.current = "";
+    interimTranscriptRef.current = "";
     setInterimTranscript("");
 
+    // End the turn once the user stops talking: quickly after a short command, patiently after a long one
+    vadReadyRef.current = false;
+    vad.start({
+      onEndOfUtterance: () => {
+        if (!settingsRef.current.autoStructure) return;
+        // Wait for words, so a cough does not end the turn, unless the engine only transcribes once stopped
+        const heard = finalTranscriptRef.current.trim() || interimTranscriptRef.current.trim();
+        if (heard || !speechRef.current?.getEngine().transcribesLive) handleUserFinishedSpeaking();
+      },
+    }).then(() => {
+      vadReadyRef.current = true;
+    }).catch((error) => {
+      console.warn("Voice activity detection unavailable, using the silence timer:", error);
+    });
+
     speechRef.current.setLanguage(currentLang);
     speechRef.current.setCallbacks(
       (result) => {
@@ -185,17 +391,20 @@ export default function Home() {
           }
 
           finalTranscriptRef.current += result.transcript + " ";
+          interimTranscriptRef.current = "";
           setInterimTranscript("");
 
-          // Reset silence timer
+          // Reset silence timer; without auto-structure only a stop word or the mic button ends the turn
           if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+          if (!settingsRef.current.autoStructure || vadReadyRef.current) return;
           silenceTimerRef.current = setTimeout(() => {
-            // After 3 seconds of silence, process the input
+            // After the configured silence, process the input
             if (finalTranscriptRef.current.trim()) {
               handleUserFinishedSpeaking();
             }
-          }, 3000);
+          }, settingsRef.current.silenceTimeout * 1000);
         } else {
+          interimTranscriptRef.current = result.transcript;
           setInterimTranscript(result.transcript);
         }
       },
@@ -207,11 +416,156 @@ export default function Home() {
     );
 
     speechRef.current.start();
-  }, [currentLang, showToast]);
+  }, [currentLang, showToast, vad]);
+
+  // Surface why a route fell back to its rule-based path
+  const reportAiFallback = useCallback((result: { aiError?: LLMErrorInfo }) => {
+    if (result.aiError) {
+      console.warn("AI path failed, route used rule-based fallback:", result.aiError);
+      showToast(`AI unavailable (${result.aiError.code}) — used rule-based mode`);
+    }
+  }, [showToast]);
+
+  // Report an API failure before falling back to client-side processing
+  const reportApiError = useCallback((err: unknown) => {
+    console.error("Backend API failed, falling back to client-side processing:", err);
+    if (err instanceof ApiError && err.code === "network") {
+      showToast("Backend unreachable — using offline mode");
+    } else if (err instanceof ApiError && err.code === "http") {
+      showToast(`Backend error${err.status ? ` ${err.status}` : ""}: ${err.message}`);
+    } else {
+      showToast("Unexpected backend response — using offline mode");
+    }
+  }, [showToast]);
+
+  // The history entry behind the output; undo/redo availability follows it
+  const setCurrentSaved = useCallback((saved: SavedPrompt | null) => {
+    currentSavedRef.current = saved;
+    setRevisionNav({ canUndo: canUndo(saved), canRedo: canRedo(saved) });
+  }, []);
+
+  // Delete the oldest entries past the history limit in settings
+  const enforceHistoryLimit = useCallback(() => {
+    pruneHistory(settingsRef.current.maxHistoryItems).then((ids) => {
+      if (ids.length === 0) return;
+      if (currentSavedRef.current && ids.includes(currentSavedRef.current.id)) {
+        pendingEditRef.current = null;
+        setCurrentSaved(null);
+      }
+      setHistoryVersion((v) => v + 1);
+    }).catch(console.error);
+  }, [setCurrentSaved]);
+
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    const timer = setTimeout(enforceHistoryLimit, PRUNE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [settingsLoaded, settings.maxHistoryItems, enforceHistoryLimit]);
+
+  const showRevision = useCallback((revision: PromptRevision) => {
+    setStructuredPrompt(revision.structured);
+    setFormattedPrompts(revision.formats.length > 0 ? revision.formats : formatForAllLLMs(revision.structured));
+    setQualityScore(revision.structured.qualityScore);
+  }, []);
+
+  // Write a change to the current history entry, if there is one
+  const updateCurrentSaved = useCallback((update: (saved: SavedPrompt) => SavedPrompt) => {
+    const saved = currentSavedRef.current;
+    if (!saved) return;
+    const updated = update(saved);
+    setCurrentSaved(updated);
+    savePrompt(updated).then(() => {
+      setHistoryVersion((v) => v + 1);
+    }).catch(console.error);
+  }, [setCurrentSaved]);
+
+  // Record a new version of the prompt on screen in its history entry
+  const commitRevision = useCallback((revision: PromptRevision) => {
+    updateCurrentSaved((saved) => addRevision(saved, revision));
+  }, [updateCurrentSaved]);
+
+  // Commit editor changes still waiting for the typing pause
+  const flushPendingEdit = useCallback(() => {
+    if (editSaveTimerRef.current) clearTimeout(editSaveTimerRef.current);
+    editSaveTimerRef.current = null;
+    const pending = pendingEditRef.current;
+    pendingEditRef.current = null;
+    // Skip if a different prompt was generated or opened meanwhile
+    if (pending && pending.savedId === currentSavedRef.current?.id) commitRevision(pending.revision);
+  }, [commitRevision]);
+
+  // Editor changes re-run the formatters live; everything typed before a pause becomes one revision
+  const handleEditPrompt = useCallback((edited: StructuredPrompt) => {
+    const rebuilt = rebuildPrompt(edited);
+    const formats = formatForAllLLMs(rebuilt);
+    setStructuredPrompt(rebuilt);
+    setFormattedPrompts(formats);
+    setQualityScore(rebuilt.qualityScore);
+
+    pendingEditRef.current = {
+      savedId: currentSavedRef.current?.id,
+      revision: { kind: "edited", timestamp: Date.now(), structured: rebuilt, formats },
+    };
+    setRevisionNav({ canUndo: !!currentSavedRef.current, canRedo: false });
+    if (editSaveTimerRef.current) clearTimeout(editSaveTimerRef.current);
+    editSaveTimerRef.current = setTimeout(flushPendingEdit, EDIT_SAVE_DELAY_MS);
+  }, [flushPendingEdit]);
+
+  // Undo (-1) or redo (+1) through the revision history; false when there is nothing that way
+  const stepRevision = useCallback((delta: number): boolean => {
+    flushPendingEdit();
+    const saved = currentSavedRef.current;
+    const moved = saved && moveRevision(saved, delta);
+    if (!moved) return false;
+    showRevision(currentRevision(moved)!);
+    updateCurrentSaved(() => moved);
+    return true;
+  }, [flushPendingEdit, showRevision, updateCurrentSaved]);
+
+  // Spoken editing commands change the prompt on screen instead of continuing the conversation
+  const handleVoiceCommand = useCallback((current: StructuredPrompt, command: VoiceCommand, transcript: string) => {
+    let message: string;
+    if (command.kind === "undo" || command.kind === "redo") {
+      const moved = stepRevision(command.kind === "undo" ? -1 : 1);
+      message = moved ? (command.kind === "undo" ? "Undone" : "Redone") : `Nothing to ${command.kind}`;
+    } else {
+      const result = applyVoiceCommand(current, command);
+      if (result.prompt) {
+        flushPendingEdit();
+        const revision: PromptRevision = {
+          kind: "voice",
+          timestamp: Date.now(),
+          structured: result.prompt,
+          formats: formatForAllLLMs(result.prompt),
+          transcript,
+        };
+        showRevision(revision);
+        commitRevision(revision);
+      }
+      message = result.message;
+    }
+    showToast(message);
+
+    setStatus("speaking");
+    ttsRef.current?.speak(message, () => {
+      setStatus("idle");
+      setTimeout(() => startWakeWordListening(), 1000);
+    });
+  }, [stepRevision, flushPendingEdit, showRevision, commitRevision, showToast, startWakeWordListening]);
 
   // Handle when user finishes speaking — calls backend API routes
   const handleUserFinishedSpeaking = useCallback(async () => {
-    speechRef.current?.stop();
+    if (finishingRef.current) return;
+    finishingRef.current = true;
+    vad.stop();
+    if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+    // Let the engine deliver what it heard last; a local Whisper server transcribes the recording now
+    if (speechRef.current && !speechRef.current.getEngine().transcribesLive) setStatus("processing");
+    await speechRef.current?.stop();
+    // Words still only interim were not finalized in time
+    const interim = interimTranscriptRef.current.trim();
+    if (interim) finalTranscriptRef.current += interim + " ";
+    interimTranscriptRef.current = "";
     setInterimTranscript("");
 
     const transcript = finalTranscriptRef.current.trim();
@@ -220,137 +574,211 @@ export default function Home() {
       return;
     }
 
+    // Read through the ref: this callback can be held by an older startListening closure
+    const current = structuredPromptRef.current;
+    const command = current && parseVoiceCommand(transcript, currentLang);
+    if (current && command) {
+      handleVoiceCommand(current, command, transcript);
+      return;
+    }
+
     setStatus("processing");
 
     const conversation = conversationRef.current!;
+    let backendDown = false;
+    let response: string;
+    let shouldStructure: boolean;
+    let turnSlots: SlotState[];
 
+    // Step 1: Call /api/converse to determine if intent is complete
     try {
-      // Step 1: Call backend /api/converse to determine if intent is complete
-      const converseRes = await fetch("http://localhost:8000/api/converse", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          transcript,
-          conversationHistory: conversation.getMessages().map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          apiKey: settings.openRouterApiKey,
-          model: settings.aiModel,
-          language: currentLang,
-        }),
+      const converse = await apiClient.converse({
+        transcript,
+        conversationHistory: conversation.getMessages().map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        language: currentLang,
       });
-      const converseData = await converseRes.json();
-
-      // Add user message to conversation
+      reportAiFallback(converse);
       conversation.addUserMessage(transcript);
-      const { response, shouldStructure } = converseData.data ||
-        conversation.processUserInput(transcript, structurePrompt(transcript).intent);
-
-      conversation.addAssistantMessage(response);
-      setMessages([...conversation.getMessages()]);
-
-      if (shouldStructure) {
-        // Step 2: Call backend /api/structure to structure the prompt
-        const combined = conversation.getCombinedTranscript();
-        const structRes = await fetch("http://localhost:8000/api/structure", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            transcript: combined,
-            language: currentLang,
-            apiKey: settings.openRouterApiKey,
-            model: settings.aiModel,
-          }),
-        });
-        const structData = await structRes.json();
-        const structured = structData.data || structurePrompt(combined);
-
-        // Step 3: Call backend /api/format to get LLM-specific formats
-        const formatRes = await fetch("http://localhost:8000/api/format", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            prompt: structured,
-            apiKey: settings.openRouterApiKey,
-            model: settings.aiModel,
-          }),
-        });
-        const formatData = await formatRes.json();
-        const formatted = formatData.data || formatForAllLLMs(structured);
+      conversation.addAssistantMessage(converse.data.response);
+      ({ response, shouldStructure } = converse.data);
+      turnSlots = converse.data.slots ?? conversation.analyzeSlots(currentLang).slots;
+    } catch (err) {
+      reportApiError(err);
+      backendDown = err instanceof ApiError && err.code === "network";
+      ({ response, shouldStructure } = conversation.processUserInput(transcript, currentLang));
+      turnSlots = conversation.getState().slots?.slots ?? [];
+    }
+    setSlots(turnSlots);
+    setMessages([...conversation.getMessages()]);
+    // A conversation continued from history keeps its entry in step, so it can be resumed again
+    updateCurrentSaved((saved) => ({
+      ...saved,
+      session: { ...saved.session, messages: conversation.getMessages(), slots: turnSlots },
+    }));
 
-        setFormattedPrompts(formatted);
-        setQualityScore(structured.qualityScore);
+    if (!shouldStructure) {
+      // Need more info — speak the clarifying question
+      setStatus("speaking");
+      ttsRef.current?.speak(response, () => {
+        startListening();
+      });
+      return;
+    }
 
-        // Save to history
-        const saved: SavedPrompt = {
-          id: Date.now().toString(36) + Math.random().toString(36).substr(2, 5),
-          title: structured.title,
-          rawTranscript: combined,
-          structuredPrompt: structured.fullPrompt,
-          intent: structured.intent,
-          qualityScore: structured.qualityScore,
-          language: currentLang,
-          timestamp: Date.now(),
-        };
-        savePrompt(saved).then(() => {
-          getAllPrompts().then(setSavedPrompts).catch(console.error);
-        });
+    const combined = conversation.getCombinedTranscript();
+    // Structure from English; the original wording is kept alongside it in history
+    const translation = await translator.translate(combined, currentLang);
+    const english = translation.text;
+    const structureLang = translation.backend === "none" ? currentLang : "en-US";
+    let structured: StructuredPrompt | null = null;
+    let formatted: FormattedPrompt[] = [];
+    let generatedBy: Pick<SavedSession, "source" | "provider" | "model"> = { source: "rule-based" };
 
-        // Speak confirmation
-        setStatus("speaking");
-        ttsRef.current?.speak(response, () => {
-          setStatus("idle");
-          setTimeout(() => startWakeWordListening(), 1000);
-        });
-      } else {
-        // Need more info — speak the clarifying question
-        setStatus("speaking");
-        ttsRef.current?.speak(response, () => {
-          startListening();
-        });
-      }
-    } catch {
-      // Fallback to client-side if backend fails
-      console.warn("Backend API failed, falling back to client-side processing");
-      const structured = structurePrompt(transcript);
-      const { response, shouldStructure } = conversation.processUserInput(transcript, structured.intent);
-      setMessages([...conversation.getMessages()]);
-
-      if (shouldStructure) {
-        const combined = conversation.getCombinedTranscript();
-        const finalStructured = structurePrompt(combined);
-        const formatted = formatForAllLLMs(finalStructured);
-        setFormattedPrompts(formatted);
-        setQualityScore(finalStructured.qualityScore);
-
-        const saved: SavedPrompt = {
-          id: Date.now().toString(36) + Math.random().toString(36).substr(2, 5),
-          title: finalStructured.title,
-          rawTranscript: combined,
-          structuredPrompt: finalStructured.fullPrompt,
-          intent: finalStructured.intent,
-          qualityScore: finalStructured.qualityScore,
-          language: currentLang,
-          timestamp: Date.now(),
-        };
-        savePrompt(saved).then(() => {
-          getAllPrompts().then(setSavedPrompts).catch(console.error);
-        });
+    if (!backendDown) {
+      // Steps 2 and 3 stream, so fields and per-LLM prompts render as they arrive
+      const abort = new AbortController();
+      streamAbortRef.current = abort;
+      setFormattedPrompts([]);
+      setPartialPrompt({});
+      setStructuredPrompt(null);
+      setIsStreaming(true);
 
-        setStatus("speaking");
-        ttsRef.current?.speak(response, () => {
-          setStatus("idle");
-          setTimeout(() => startWakeWordListening(), 1000);
+      try {
+        // Step 2: Call /api/structure to structure the prompt
+        const structRes = await apiClient.structure({ transcript: english, language: structureLang }, {
+          signal: abort.signal,
+          onField: (name, value) => setPartialPrompt((prev) => ({ ...prev, [name]: value })),
         });
-      } else {
-        setStatus("speaking");
-        ttsRef.current?.speak(response, () => {
-          startListening();
+        reportAiFallback(structRes);
+        structured = structRes.data;
+        generatedBy = { source: structRes.source, provider: structRes.provider, model: structRes.model };
+        setPartialPrompt(structured);
+        setQualityScore(structured.qualityScore);
+
+        // Step 3: Call /api/format to get LLM-specific formats
+        const formatRes = await apiClient.format({ prompt: structured }, {
+          signal: abort.signal,
+          onItem: (index, value) => {
+            setFormattedPrompts((prev) => {
+              const next = [...prev];
+              next[index] = withDisplayInfo(value as ApiFormattedPrompt);
+              return next.filter(Boolean);
+            });
+          },
         });
+        reportAiFallback(formatRes);
+        // The backend only knows the built-in LLMs; user templates render locally
+        formatted = [...formatRes.data.map(withDisplayInfo), ...formatForCustomLLMs(structured)];
+      } catch (err) {
+        // Cancelled by the user — keep whatever already arrived
+        if (err instanceof ApiError && err.code === "aborted") return;
+        reportApiError(err);
+      } finally {
+        setIsStreaming(false);
+        streamAbortRef.current = null;
       }
     }
-  }, [currentLang, startWakeWordListening, startListening, showToast]);
+
+    // Fallback to client-side if the backend failed
+    if (!structured || formatted.length === 0) {
+      structured = structured ?? structurePrompt(english, undefined, structureLang);
+      formatted = formatForAllLLMs(structured);
+    }
+
+    setPartialPrompt(structured);
+    setStructuredPrompt(structured);
+    setFormattedPrompts(formatted);
+    setQualityScore(structured.qualityScore);
+
+    // Save to history with the whole session. A conversation continued from an entry gets a new
+    // revision there; otherwise the spoken version is the first revision of a new entry, which waits
+    // for the Save button when auto-save is off
+    flushPendingEdit();
+    const timestamp = Date.now();
+    const entry: SavedPrompt = currentSavedRef.current ?? unsavedPromptRef.current ?? {
+      id: timestamp.toString(36) + Math.random().toString(36).substr(2, 5),
+      title: structured.title,
+      rawTranscript: combined,
+      structuredPrompt: structured.fullPrompt,
+      intent: structured.intent,
+      qualityScore: structured.qualityScore,
+      language: currentLang,
+      timestamp,
+      updatedAt: timestamp,
+      tags: [],
+      favorite: 0,
+      revisions: [],
+    };
+    const saved = addRevision({
+      ...entry,
+      rawTranscript: combined,
+      englishTranscript: translation.backend === "none" ? undefined : english,
+      language: currentLang,
+      model: generatedBy.model,
+      session: { messages: conversation.getMessages(), slots: turnSlots, ...generatedBy },
+    }, { kind: "spoken", timestamp, structured, formats: formatted, transcript: combined });
+    if (currentSavedRef.current || settingsRef.current.autoSaveHistory) {
+      setCurrentSaved(saved);
+      savePrompt(saved).then(() => {
+        setHistoryVersion((v) => v + 1);
+        enforceHistoryLimit();
+      }).catch(console.error);
+    } else {
+      setUnsavedPrompt(saved);
+    }
+
+    // Speak confirmation
+    setStatus("speaking");
+    ttsRef.current?.speak(response, () => {
+      setStatus("idle");
+      setTimeout(() => startWakeWordListening(), 1000);
+    });
+  }, [apiClient, translator, vad, currentLang, reportAiFallback, reportApiError, handleVoiceCommand, updateCurrentSaved, flushPendingEdit, setCurrentSaved, enforceHistoryLimit, startWakeWordListening, startListening]);
+
+  // "Save" when auto-save is off: the entry gets whatever the editor changed since it was generated
+  const handleSaveToHistory = useCallback(() => {
+    const unsaved = unsavedPromptRef.current;
+    if (!unsaved) return;
+    flushPendingEdit();
+    const structured = structuredPromptRef.current;
+    const saved = structured && structured !== currentRevision(unsaved)?.structured
+      ? addRevision(unsaved, { kind: "edited", timestamp: Date.now(), structured, formats: formatForAllLLMs(structured) })
+      : unsaved;
+    setUnsavedPrompt(null);
+    unsavedPromptRef.current = null;
+    setCurrentSaved(saved);
+    savePrompt(saved).then(() => {
+      setHistoryVersion((v) => v + 1);
+      enforceHistoryLimit();
+      showToast("Saved to history");
+    }).catch(console.error);
+  }, [flushPendingEdit, setCurrentSaved, enforceHistoryLimit, showToast]);
+
+  // "Ask me about this" on the quality checklist: ask the gap back as a question and listen for the answer
+  const handleAskAbout = useCallback((question: string) => {
+    if (status !== "idle" && status !== "wake-listening") return;
+    wakeWordRef.current?.stop();
+    const conversation = conversationRef.current!;
+    conversation.addAssistantMessage(question);
+    setMessages([...conversation.getMessages()]);
+    setStatus("speaking");
+    ttsRef.current?.speak(question, () => {
+      startListening();
+    });
+  }, [status, startListening]);
+
+  // Cancel an in-flight structure/format stream
+  const handleCancelStreaming = useCallback(() => {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+    setIsStreaming(false);
+    showToast("Cancelled");
+    setStatus("idle");
+    setTimeout(() => startWakeWordListening(), 500);
+  }, [showToast, startWakeWordListening]);
 
   // Toggle manual voice recording
   const handleToggleVoice = useCallback(() => {
@@ -358,18 +786,15 @@ export default function Home() {
       // Stop listening and process — capture any interim transcript too
       if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
 
-      // If there's interim text that hasn't been finalized, add it
-      if (interimTranscript && interimTranscript.trim()) {
-        finalTranscriptRef.current += interimTranscript.trim() + " ";
-        setInterimTranscript("");
-      }
-
-      // If we have ANY text, process it
-      if (finalTranscriptRef.current.trim()) {
+      // If we have ANY text, process it; interim text is finalized on the way, and a recording
+      // engine only has text once it has transcribed
+      const heard = finalTranscriptRef.current.trim() || interimTranscriptRef.current.trim();
+      if (heard || !speechRef.current?.getEngine().transcribesLive) {
         handleUserFinishedSpeaking();
       } else {
         // Nothing was said
         speechRef.current?.stop();
+        vad.stop();
         showToast("No speech detected. Try again.");
         setStatus("idle");
         setTimeout(() => startWakeWordListening(), 500);
@@ -379,7 +804,7 @@ export default function Home() {
       wakeWordRef.current?.stop();
       handleWakeUp();
     }
-  }, [status, interimTranscript, handleUserFinishedSpeaking, handleWakeUp, showToast, startWakeWordListening]);
+  }, [status, vad, handleUserFinishedSpeaking, handleWakeUp, showToast, startWakeWordListening]);
 
   // Copy to clipboard
   const handleCopy = useCallback(
@@ -394,38 +819,173 @@ export default function Home() {
   );
 
   // History actions
+
+  // Show a history entry and bring back its conversation, so speaking again continues it
+  const openSavedPrompt = useCallback((prompt: SavedPrompt): SavedPrompt => {
+    flushPendingEdit();
+    setSimilarPrompts([]);
+    setUnsavedPrompt(null);
+    unsavedPromptRef.current = null;
+    // Entries from before fields were stored re-structure from the transcript; that becomes their first revision
+    const opened = prompt.structured ? prompt : {
+      ...prompt,
+      structured: prompt.englishTranscript
+        ? structurePrompt(prompt.englishTranscript, undefined, "en-US")
+        : structurePrompt(prompt.rawTranscript, undefined, prompt.language),
+    };
+    showRevision(currentRevision(opened)!);
+    setCurrentSaved(opened);
+
+    const conversation = conversationRef.current!;
+    if (opened.session) {
+      conversation.restore(opened.session.messages);
+    } else {
+      conversation.reset();
+      conversation.addUserMessage(opened.rawTranscript);
+    }
+    setMessages(conversation.getMessages());
+    setSlots(opened.session?.slots ?? []);
+    return opened;
+  }, [flushPendingEdit, showRevision, setCurrentSaved]);
+
   const handleSelectPrompt = useCallback((prompt: SavedPrompt) => {
-    const structured = structurePrompt(prompt.rawTranscript);
-    const formatted = formatForAllLLMs(structured);
-    setFormattedPrompts(formatted);
-    setQualityScore(structured.qualityScore);
+    const opened = openSavedPrompt(prompt);
+    setCurrentLang(opened.language);
+    speechRef.current?.setLanguage(opened.language);
+
     setHistoryOpen(false);
     showToast("Loaded prompt from history");
+  }, [openSavedPrompt, showToast]);
+
+  // "Reuse" on a similar prompt: drop what is being said and open the saved one
+  const handleReuseSimilar = useCallback((prompt: SavedPrompt) => {
+    if (status === "listening") {
+      if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+      speechRef.current?.stop();
+      vad.stop();
+      finalTranscriptRef.current = "";
+      setInterimTranscript("");
+      setStatus("idle");
+      setTimeout(() => startWakeWordListening(), 500);
+    }
+    handleSelectPrompt(prompt);
+  }, [status, vad, handleSelectPrompt, startWakeWordListening]);
+
+  // "Merge" on a similar prompt. While speaking, the saved conversation is resumed, so this speech
+  // is structured together with it. Once saved as its own entry, that entry is folded into the older one
+  const handleMergeSimilar = useCallback((target: SavedPrompt) => {
+    flushPendingEdit();
+    const source = currentSavedRef.current;
+    if (status === "listening" || !source || source.id === target.id) {
+      openSavedPrompt(target);
+      showToast(`Continuing "${target.title}"`);
+      return;
+    }
+
+    const merged = openSavedPrompt(mergeInto(target, source));
+    savePrompt(merged)
+      .then(() => deletePrompt(source.id))
+      .then(() => {
+        setHistoryVersion((v) => v + 1);
+        showToast(`Merged into "${target.title}"`);
+      })
+      .catch(console.error);
+  }, [status, openSavedPrompt, flushPendingEdit, showToast]);
+
+  const handleLoadMoreHistory = useCallback(() => {
+    if (!historyNext) return;
+    queryPrompts({ filter: historyFilter, after: historyNext }).then((page) => {
+      setSavedPrompts((prev) => [...prev, ...page.prompts]);
+      setHistoryNext(page.next);
+    }).catch(console.error);
+  }, [historyNext, historyFilter]);
+
+  // Favorite, tag and folder changes from the sidebar; the entry on screen picks them up too,
+  // so its next revision does not write the old ones back
+  const handleUpdatePrompts = useCallback((updated: SavedPrompt[]) => {
+    const current = updated.find((p) => p.id === currentSavedRef.current?.id);
+    if (current) {
+      flushPendingEdit();
+      const { favorite, tags, folder } = current;
+      setCurrentSaved({ ...currentSavedRef.current!, favorite, tags, folder });
+    }
+    savePrompts(updated).then(() => {
+      setHistoryVersion((v) => v + 1);
+    }).catch(console.error);
+  }, [flushPendingEdit, setCurrentSaved]);
+
+  const handleDeletePrompts = useCallback((ids: string[]) => {
+    // A deleted entry must not come back with the next edit of the prompt on screen
+    if (currentSavedRef.current && ids.includes(currentSavedRef.current.id)) {
+      pendingEditRef.current = null;
+      setCurrentSaved(null);
+    }
+    deletePrompts(ids).then(() => {
+      setHistoryVersion((v) => v + 1);
+      showToast(ids.length === 1 ? "Prompt deleted" : `${ids.length} prompts deleted`);
+    }).catch((error) => {
+      console.error(error);
+      showToast("Failed to delete");
+    });
+  }, [setCurrentSaved, showToast]);
+
+  const handleDeletePrompt = useCallback((id: string) => handleDeletePrompts([id]), [handleDeletePrompts]);
+
+  const handleExportHistory = useCallback((format: HistoryExportFormat, ids: string[] | null) => {
+    getAllPrompts().then((all) => {
+      const prompts = ids ? all.filter((p) => ids.includes(p.id)) : all;
+      const info = HISTORY_EXPORT_FORMATS.find((f) => f.id === format)!;
+      const date = new Date().toISOString().slice(0, 10);
+      downloadText(`voiceprompt-history-${date}.${info.extension}`, exportHistory(prompts, format), info.mime);
+      showToast(`Exported ${prompts.length} prompt${prompts.length === 1 ? "" : "s"}`);
+    }).catch(console.error);
   }, [showToast]);
 
-  const handleDeletePrompt = useCallback(
-    (id: string) => {
-      deletePrompt(id).then(() => {
-        getAllPrompts().then(setSavedPrompts).catch(console.error);
-        showToast("Prompt deleted");
-      });
-    },
-    [showToast]
-  );
+  const handlePlanImport = useCallback(async (file: File): Promise<ImportPlan> => {
+    const [text, existing] = await Promise.all([file.text(), getAllPrompts()]);
+    return planImport(text, file.name, existing);
+  }, []);
+
+  const handleImportHistory = useCallback((plan: ImportPlan, mode: DuplicateMode) => {
+    const prompts = resolveImport(plan, mode);
+    // The entry on screen follows an overwrite, so its next revision builds on the imported version
+    const current = prompts.find((p) => p.id === currentSavedRef.current?.id);
+    if (current) {
+      pendingEditRef.current = null;
+      setCurrentSaved(current);
+    }
+    savePrompts(prompts).then(() => {
+      setHistoryVersion((v) => v + 1);
+      enforceHistoryLimit();
+      showToast(`Imported ${plan.added.length} new, ${mode === "merge" ? "merged" : "overwrote"} ${plan.duplicates.length}`);
+    }).catch(console.error);
+  }, [setCurrentSaved, enforceHistoryLimit, showToast]);
 
   // New conversation
   const handleNewConversation = useCallback(() => {
     conversationRef.current?.reset();
+    flushPendingEdit();
+    setCurrentSaved(null);
+    setSimilarPrompts([]);
+    setUnsavedPrompt(null);
+    unsavedPromptRef.current = null;
     setMessages([]);
+    setSlots([]);
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+    setIsStreaming(false);
+    setPartialPrompt(null);
+    setStructuredPrompt(null);
     setFormattedPrompts([]);
     setQualityScore(0);
     setInterimTranscript("");
     finalTranscriptRef.current = "";
     speechRef.current?.stop();
+    vad.stop();
     ttsRef.current?.stop();
     if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
     startWakeWordListening();
-  }, [startWakeWordListening]);
+  }, [vad, flushPendingEdit, setCurrentSaved, startWakeWordListening]);
 
   return (
     <div className="relative min-h-screen flex flex-col z-10">
@@ -489,7 +1049,7 @@ export default function Home() {
         <div className="flex-1 flex flex-col gap-4">
           {/* Status */}
           <div className="flex items-center justify-between">
-            <StatusIndicator status={status} />
+            <StatusIndicator status={status} vad={vad} />
             <div className="flex items-center gap-2">
               {status === "wake-listening" && (
                 <span className="text-[10px] text-[var(--text-muted)] animate-pulse">
@@ -499,6 +1059,14 @@ export default function Home() {
             </div>
           </div>
 
+          <SimilarPrompts
+            suggestions={similarPrompts}
+            disabled={status === "processing" || status === "speaking"}
+            onReuse={handleReuseSimilar}
+            onMerge={handleMergeSimilar}
+            onDismiss={() => setSimilarPrompts([])}
+          />
+
           {/* Chat area */}
           <div className="glass-card flex-1 flex flex-col">
             <div className="flex-1">
@@ -506,6 +1074,7 @@ export default function Home() {
                 messages={messages}
                 isTyping={status === "processing"}
                 interimTranscript={interimTranscript}
+                slots={slots}
               />
             </div>
 
@@ -526,26 +1095,61 @@ export default function Home() {
             <h2 className="text-sm font-semibold text-[var(--text-primary)]">
               📋 Structured Prompts
             </h2>
-            {formattedPrompts.length > 0 && (
-              <button
-                onClick={() => handleCopy(formattedPrompts[0].formattedPrompt)}
-                className="text-[10px] text-[var(--accent-green)] hover:underline"
-              >
-                Copy active
-              </button>
-            )}
+            <div className="flex items-center gap-3">
+              {unsavedPrompt && !isStreaming && (
+                <button
+                  onClick={handleSaveToHistory}
+                  className="text-[10px] text-[var(--accent-purple)] hover:underline"
+                  title="Auto-save is off in settings"
+                >
+                  💾 Save to history
+                </button>
+              )}
+              {formattedPrompts.length > 0 && !isStreaming && (
+                <button
+                  onClick={() => handleCopy(formattedPrompts[0].formattedPrompt)}
+                  className="text-[10px] text-[var(--accent-green)] hover:underline"
+                >
+                  Copy active
+                </button>
+              )}
+            </div>
           </div>
 
           <PromptOutput
             formattedPrompts={formattedPrompts}
             qualityScore={qualityScore}
             onCopy={handleCopy}
+            partialPrompt={partialPrompt}
+            isStreaming={isStreaming}
+            onCancel={handleCancelStreaming}
+            structuredPrompt={structuredPrompt}
+            onAskAbout={handleAskAbout}
+            onEdit={handleEditPrompt}
+            onUndo={() => stepRevision(-1)}
+            onRedo={() => stepRevision(1)}
+            canUndo={revisionNav.canUndo}
+            canRedo={revisionNav.canRedo}
+            showQualityScore={settings.showQualityScore}
           />
 
           {/* Keyboard shortcut hint */}
           <div className="text-center">
             <p className="text-[10px] text-[var(--text-muted)]">
-              💡 Tip: Say <span className="text-[var(--accent-green)]">&quot;Hey Listen&quot;</span> anytime to start • Tap 🎤 for manual mode
+              {settings.wakeWordEnabled && localWake ? (
+                <>💡 Tip: Say your recorded wake phrase anytime to start • Tap 🎤 for manual mode</>
+              ) : settings.wakeWordEnabled ? (
+                <>💡 Tip: Say {settings.wakePhrases.filter((w) => w.phrase.trim()).map((w, i) => (
+                  <React.Fragment key={i}>
+                    {i > 0 && " or "}
+                    <span className="text-[var(--accent-green)]">&quot;{w.phrase.trim()}&quot;</span>
+                  </React.Fragment>
+                ))} anytime to start
+                  {settings.wakeEngine === "local" && ` • Record your wake phrase ${missingRecordings} more time${missingRecordings === 1 ? "" : "s"} in settings to listen on-device`}
+                  {" "}• Tap 🎤 for manual mode</>
+              ) : (
+                <>💡 Tip: Tap 🎤 to start • Turn on the wake word in settings for hands-free mode</>
+              )}
             </p>
           </div>
         </div>
@@ -556,10 +1160,21 @@ export default function Home() {
         isOpen={historyOpen}
         onClose={() => setHistoryOpen(false)}
         prompts={savedPrompts}
+        hasMore={historyNext !== null}
+        onLoadMore={handleLoadMoreHistory}
         onSelect={handleSelectPrompt}
         onDelete={handleDeletePrompt}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
+        searchHits={searchHits}
+        onFilterChange={setHistoryFilter}
+        folders={historyFacets.folders}
+        tags={historyFacets.tags}
+        onUpdatePrompts={handleUpdatePrompts}
+        onDeletePrompts={handleDeletePrompts}
+        onExport={handleExportHistory}
+        onPlanImport={handlePlanImport}
+        onImport={handleImportHistory}
       />
 
       {/* Settings panel */}
@@ -0,0 +1,149 @@
+// Typed client for the /api/converse, /api/structure, /api/format, /api/translate and /api/embed routes
+// Talks to the same-origin Next.js routes by default, or to the FastAPI backend when configured
+
+import type {
+    ApiErrorBody,
+    ConverseRequest,
+    ConverseResponse,
+    EmbedRequest,
+    EmbedResponse,
+    FormatRequest,
+    FormatResponse,
+    StructureRequest,
+    StructureResponse,
+    TranslateRequest,
+    TranslateResponse,
+} from "./api-types";
+import type { LLMRequestFields } from "./llm";
+import { readNDJSON } from "./streaming";
+
+export type ApiBackend = "next" | "fastapi";
+
+export const DEFAULT_FASTAPI_URL = "http://localhost:8000";
+
+export type ApiFeature = "translate" | "embed" | "stream";
+
+// backend/main.py only has /api/structure, /api/converse and /api/format, answering in plain JSON
+const FASTAPI_MISSING: ApiFeature[] = ["translate", "embed", "stream"];
+
+// Whether the backend has a route or behavior; without it the client translates and ranks locally
+export function backendSupports(backend: ApiBackend, feature: ApiFeature): boolean {
+    return backend !== "fastapi" || !FASTAPI_MISSING.includes(feature);
+}
+
+export type ApiErrorCode =
+    | "network"           // backend unreachable
+    | "http"              // backend answered with a non-2xx status
+    | "invalid_response"  // body was not the expected JSON
+    | "aborted";          // cancelled by the caller
+
+export class ApiError extends Error {
+    readonly code: ApiErrorCode;
+    readonly endpoint: string;
+    readonly status?: number;
+
+    constructor(code: ApiErrorCode, endpoint: string, message: string, status?: number) {
+        super(message);
+        this.name = "ApiError";
+        this.code = code;
+        this.endpoint = endpoint;
+        this.status = status;
+    }
+}
+
+export interface ApiClientOptions {
+    backend: ApiBackend;
+    fastApiUrl?: string;
+    llm?: LLMRequestFields;   // provider fields added to every request
+}
+
+export interface StreamOptions {
+    signal?: AbortSignal;
+    onField?: (name: string, value: unknown) => void;
+    onItem?: (index: number, value: unknown) => void;
+}
+
+// Request bodies without the provider fields, which the client adds itself
+type Body<T> = Omit<T, keyof LLMRequestFields | "stream">;
+
+export function resolveBaseUrl(backend: ApiBackend, fastApiUrl?: string): string {
+    if (backend === "fastapi") return (fastApiUrl?.trim() || DEFAULT_FASTAPI_URL).replace(/\/+$/, "");
+    return "";
+}
+
+export class ApiClient {
+    private baseUrl: string;
+    private llm: LLMRequestFields;
+    private streams: boolean;
+
+    constructor(options: ApiClientOptions) {
+        this.baseUrl = resolveBaseUrl(options.backend, options.fastApiUrl);
+        this.llm = options.llm ?? {};
+        this.streams = backendSupports(options.backend, "stream");
+    }
+
+    converse(body: Body<ConverseRequest>, signal?: AbortSignal): Promise<ConverseResponse> {
+        return this.post<ConverseResponse>("/api/converse", { ...body, ...this.llm }, { signal });
+    }
+
+    structure(body: Body<StructureRequest>, options: StreamOptions = {}): Promise<StructureResponse> {
+        const stream = this.streams && !!options.onField;
+        return this.post<StructureResponse>("/api/structure", { ...body, ...this.llm, stream }, options);
+    }
+
+    format(body: Body<FormatRequest>, options: StreamOptions = {}): Promise<FormatResponse> {
+        const stream = this.streams && !!options.onItem;
+        return this.post<FormatResponse>("/api/format", { ...body, ...this.llm, stream }, options);
+    }
+
+    translate(body: Body<TranslateRequest>, signal?: AbortSignal): Promise<TranslateResponse> {
+        return this.post<TranslateResponse>("/api/translate", { ...body, ...this.llm }, { signal });
+    }
+
+    embed(body: Body<EmbedRequest>, signal?: AbortSignal): Promise<EmbedResponse> {
+        return this.post<EmbedResponse>("/api/embed", { ...body, ...this.llm }, { signal });
+    }
+
+    private async post<T extends { data?: unknown }>(path: string, body: unknown, options: StreamOptions): Promise<T> {
+        const endpoint = `${this.baseUrl}${path}`;
+
+        let res: Response;
+        try {
+            res = await fetch(endpoint, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+                signal: options.signal,
+            });
+        } catch (err) {
+            if (options.signal?.aborted) throw new ApiError("aborted", endpoint, "Request cancelled");
+            throw new ApiError("network", endpoint, `Could not reach ${endpoint}: ${(err as Error).message}`);
+        }
+
+        if (!res.ok) {
+            const errorBody = await res.json().catch(() => ({})) as ApiErrorBody;
+            throw new ApiError(
+                "http",
+                endpoint,
+                errorBody.error || errorBody.detail || `${path} failed with status ${res.status}`,
+                res.status
+            );
+        }
+
+        let result: T;
+        try {
+            result = await readNDJSON<T>(res, (event) => {
+                if (event.type === "field") options.onField?.(event.name, event.value);
+                if (event.type === "item") options.onItem?.(event.index, event.value);
+            });
+        } catch (err) {
+            if (options.signal?.aborted) throw new ApiError("aborted", endpoint, "Request cancelled");
+            throw new ApiError("invalid_response", endpoint, (err as Error).message);
+        }
+
+        if (!result || typeof result !== "object" || !("data" in result)) {
+            throw new ApiError("invalid_response", endpoint, `${path} returned no data`);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,105 @@
+// Request/response types shared by the API routes and the browser client
+// The FastAPI backend in backend/main.py answers /api/structure, /api/converse and /api/format with the
+// same core shapes, but without streaming or the source/aiError/model fields, and has no /api/translate
+// or /api/embed; backendSupports in api-client.ts tells the page what to do locally instead
+
+import type { LLMErrorInfo, LLMProviderKind, LLMRequestFields } from "./llm";
+import type { SlotState } from "./slots";
+import type { StructuredPrompt } from "./structurer";
+
+export interface ChatTurn {
+    role: string;
+    content: string;
+}
+
+// Envelope every successful route response uses
+export interface ApiResult<T> {
+    success: true;
+    source: "ai" | "rule-based";
+    provider?: LLMProviderKind;
+    model?: string;           // model the provider ran, when source is "ai"
+    aiError?: LLMErrorInfo;   // why the AI path was skipped, when it failed
+    repaired?: boolean;       // AI output only passed validation after a repair pass
+    data: T;
+}
+
+export interface ApiErrorBody {
+    error?: string;
+    detail?: string;          // FastAPI HTTPException
+}
+
+// POST /api/converse
+export interface ConverseRequest extends LLMRequestFields {
+    transcript: string;
+    conversationHistory?: ChatTurn[];
+    language?: string;
+}
+
+export interface ConverseData {
+    response: string;
+    shouldStructure: boolean;
+    intent: string;
+    intentConfidence?: number;  // 0-1, from the rule-based classifier
+    isComplete: boolean;
+    slots?: SlotState[];        // which details of the intent are known so far
+}
+
+export type ConverseResponse = ApiResult<ConverseData>;
+
+// POST /api/structure
+export interface StructureRequest extends LLMRequestFields {
+    transcript: string;
+    conversationHistory?: string;
+    language?: string;
+    stream?: boolean;         // respond with NDJSON events instead of a single JSON body
+}
+
+export type StructureResponse = ApiResult<StructuredPrompt>;
+
+// POST /api/format
+export interface PromptData {
+    context: string;
+    requirements?: string[];
+    constraints?: string[];
+    outputFormat?: string;
+    intent?: string;
+    fullPrompt?: string;
+}
+
+export interface FormatRequest extends LLMRequestFields {
+    prompt: PromptData;
+    targetLLM?: string;
+    stream?: boolean;         // respond with NDJSON events instead of a single JSON body
+}
+
+// Routes do not know about icons/colors; the client fills those in
+export interface ApiFormattedPrompt {
+    llmName: string;
+    description: string;
+    formattedPrompt: string;
+}
+
+export type FormatResponse = ApiResult<ApiFormattedPrompt[]>;
+
+// POST /api/translate
+export interface TranslateRequest extends LLMRequestFields {
+    text: string;
+    language: string;         // BCP-47 code of the text, e.g. "te-IN"
+}
+
+export interface TranslateData {
+    text: string;             // English
+}
+
+export type TranslateResponse = ApiResult<TranslateData>;
+
+// POST /api/embed — needs a provider; there is no rule-based fallback
+export interface EmbedRequest extends LLMRequestFields {
+    texts: string[];
+}
+
+export interface EmbedData {
+    vectors: number[][];      // one per text, in order
+}
+
+export type EmbedResponse = ApiResult<EmbedData>;
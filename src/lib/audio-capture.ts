@@ -0,0 +1,44 @@
+// Microphone audio through an AudioWorklet, shared by the keyword spotter and voice activity detection
+// The worklet does the per-sample work on the audio thread and posts its results to the page.
+
+export type CloseCapture = () => void;
+
+/**
+ * Open the microphone, load `moduleUrl` (under public/worklets) and feed the microphone into its
+ * `processor`. Every message the processor posts goes to `onMessage` with the context's sample rate.
+ * Resolves with a function that releases the microphone again.
+ */
+export async function openWorkletCapture<T>(
+    moduleUrl: string,
+    processor: string,
+    onMessage: (data: T, sampleRate: number) => void,
+    processorOptions?: Record<string, unknown>,
+): Promise<CloseCapture> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+    });
+    const context = new AudioContext();
+    const close = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        context.close().catch(() => { });
+    };
+    try {
+        await context.audioWorklet.addModule(moduleUrl);
+        // A context made before any click starts suspended; microphone permission lets it resume
+        await context.resume();
+    } catch (error) {
+        close();
+        throw error;
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    // No outputs: the node is pulled for as long as its input is connected, and plays nothing
+    const node = new AudioWorkletNode(context, processor, { numberOfOutputs: 0, processorOptions });
+    node.port.onmessage = (event: MessageEvent<T>) => onMessage(event.data, context.sampleRate);
+    source.connect(node);
+    return () => {
+        node.port.onmessage = null;
+        source.disconnect();
+        close();
+    };
+}
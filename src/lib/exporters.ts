@@ -0,0 +1,187 @@
+// Provider-native API payloads for a structured prompt
+// Turns a StructuredPrompt into request bodies (and curl/Python/TypeScript snippets) that can be sent as-is
+
+import { StructuredPrompt } from "./structurer";
+
+export type ExportTarget = "openai" | "anthropic" | "gemini";
+export type ExportFormat = "json" | "curl" | "python" | "typescript";
+
+interface ProviderSpec {
+    name: string;
+    icon: string;
+    model: string;
+    envVar: string;                        // where the snippets read the API key from
+    url: (model: string) => string;
+    authHeader: string;
+    authPrefix: string;
+    headers: Record<string, string>;       // fixed headers besides auth and content type
+    body: (messages: PromptMessages, model: string) => Record<string, unknown>;
+}
+
+export interface PromptMessages {
+    system: string;
+    user: string;
+}
+
+export interface ApiPayload {
+    url: string;
+    headers: Record<string, string>;       // auth value is a $ENV_VAR placeholder
+    body: Record<string, unknown>;
+}
+
+const PROVIDERS: Record<ExportTarget, ProviderSpec> = {
+    openai: {
+        name: "OpenAI",
+        icon: "🟢",
+        model: "gpt-4o",
+        envVar: "OPENAI_API_KEY",
+        url: () => "https://api.openai.com/v1/chat/completions",
+        authHeader: "Authorization",
+        authPrefix: "Bearer ",
+        headers: {},
+        body: (m, model) => ({
+            model,
+            messages: [
+                { role: "system", content: m.system },
+                { role: "user", content: m.user },
+            ],
+        }),
+    },
+    anthropic: {
+        name: "Anthropic",
+        icon: "🟠",
+        model: "claude-sonnet-4-5",
+        envVar: "ANTHROPIC_API_KEY",
+        url: () => "https://api.anthropic.com/v1/messages",
+        authHeader: "x-api-key",
+        authPrefix: "",
+        headers: { "anthropic-version": "2023-06-01" },
+        body: (m, model) => ({
+            model,
+            max_tokens: 4096,
+            system: m.system,
+            messages: [{ role: "user", content: m.user }],
+        }),
+    },
+    gemini: {
+        name: "Gemini",
+        icon: "🔵",
+        model: "gemini-2.0-flash",
+        envVar: "GEMINI_API_KEY",
+        url: (model) => `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+        authHeader: "x-goog-api-key",
+        authPrefix: "",
+        headers: {},
+        body: (m) => ({
+            systemInstruction: { parts: [{ text: m.system }] },
+            contents: [{ role: "user", parts: [{ text: m.user }] }],
+        }),
+    },
+};
+
+export const EXPORT_TARGETS: { id: ExportTarget; name: string; icon: string }[] =
+    (Object.keys(PROVIDERS) as ExportTarget[]).map((id) => ({ id, name: PROVIDERS[id].name, icon: PROVIDERS[id].icon }));
+
+export const EXPORT_FORMATS: { id: ExportFormat; name: string }[] = [
+    { id: "json", name: "JSON body" },
+    { id: "curl", name: "curl" },
+    { id: "python", name: "Python" },
+    { id: "typescript", name: "TypeScript" },
+];
+
+// --- Messages ---
+
+// Role instructions go to the system prompt, the task itself to the user turn
+export function toMessages(prompt: StructuredPrompt): PromptMessages {
+    const system = `You are an expert assistant specializing in ${prompt.intent.toLowerCase()}. Provide detailed, accurate, and well-structured responses. Follow best practices and industry standards.`;
+
+    const lines: string[] = [prompt.context];
+    if (prompt.requirements.length > 0) {
+        lines.push(``, `Requirements:`);
+        prompt.requirements.forEach((r) => lines.push(`- ${r}`));
+    }
+    if (prompt.constraints.length > 0) {
+        lines.push(``, `Constraints:`);
+        prompt.constraints.forEach((c) => lines.push(`- ${c}`));
+    }
+    lines.push(``, `Expected output: ${prompt.outputFormat}`);
+
+    return { system, user: lines.join("\n") };
+}
+
+export function buildPayload(prompt: StructuredPrompt, target: ExportTarget, model?: string): ApiPayload {
+    const spec = PROVIDERS[target];
+    const chosenModel = model || spec.model;
+    return {
+        url: spec.url(chosenModel),
+        headers: {
+            "Content-Type": "application/json",
+            [spec.authHeader]: `${spec.authPrefix}$${spec.envVar}`,
+            ...spec.headers,
+        },
+        body: spec.body(toMessages(prompt), chosenModel),
+    };
+}
+
+// --- Snippets ---
+
+function indent(text: string, spaces: number): string {
+    const pad = " ".repeat(spaces);
+    return text.split("\n").map((line, i) => (i === 0 ? line : pad + line)).join("\n");
+}
+
+function toCurl(payload: ApiPayload): string {
+    // Single-quoted shell string, so only the quote itself needs escaping
+    const body = JSON.stringify(payload.body, null, 2).replace(/'/g, `'\\''`);
+    const headers = Object.entries(payload.headers).map(([k, v]) => `  -H "${k}: ${v}" \\`);
+    return [`curl ${payload.url} \\`, ...headers, `  -d '${body}'`].join("\n");
+}
+
+function toPython(payload: ApiPayload, spec: ProviderSpec): string {
+    // The body only holds strings and numbers, so its JSON is also a valid Python literal
+    const headers = Object.entries(payload.headers)
+        .filter(([k]) => k !== "Content-Type")
+        .map(([k, v]) => k === spec.authHeader
+            ? `        "${k}": ${spec.authPrefix ? `"${spec.authPrefix}" + ` : ""}os.environ["${spec.envVar}"],`
+            : `        "${k}": "${v}",`);
+    return [
+        `import os`,
+        `import requests`,
+        ``,
+        `response = requests.post(`,
+        `    "${payload.url}",`,
+        `    headers={`,
+        ...headers,
+        `    },`,
+        `    json=${indent(JSON.stringify(payload.body, null, 4), 4)},`,
+        `)`,
+        `print(response.json())`,
+    ].join("\n");
+}
+
+function toTypeScript(payload: ApiPayload, spec: ProviderSpec): string {
+    const headers = Object.entries(payload.headers).map(([k, v]) => k === spec.authHeader
+        ? `        "${k}": \`${spec.authPrefix}\${process.env.${spec.envVar}}\`,`
+        : `        "${k}": "${v}",`);
+    return [
+        `const response = await fetch("${payload.url}", {`,
+        `    method: "POST",`,
+        `    headers: {`,
+        ...headers,
+        `    },`,
+        `    body: JSON.stringify(${indent(JSON.stringify(payload.body, null, 4), 4)}),`,
+        `});`,
+        `console.log(await response.json());`,
+    ].join("\n");
+}
+
+export function exportPrompt(prompt: StructuredPrompt, target: ExportTarget, format: ExportFormat, model?: string): string {
+    const payload = buildPayload(prompt, target, model);
+    const spec = PROVIDERS[target];
+    switch (format) {
+        case "json": return JSON.stringify(payload.body, null, 2);
+        case "curl": return toCurl(payload);
+        case "python": return toPython(payload, spec);
+        case "typescript": return toTypeScript(payload, spec);
+    }
+}
@@ -1,5 +1,6 @@
 // LLM-specific prompt formatters
 // Pure JavaScript — no API calls needed
+// Formatters live in a registry keyed by id, so user templates can add new targets
 
 import { StructuredPrompt } from "./structurer";
 
@@ -11,6 +12,22 @@ export interface FormattedPrompt {
     color: string;
 }
 
+// Tab icon and accent color per target LLM
+export const LLM_DISPLAY_INFO: Record<string, { llmIcon: string; color: string }> = {
+    Claude: { llmIcon: "🟠", color: "#d97706" },
+    Gemini: { llmIcon: "🔵", color: "#3b82f6" },
+    ChatGPT: { llmIcon: "🟢", color: "#10b981" },
+    DeepSeek: { llmIcon: "🔮", color: "#8b5cf6" },
+    Grok: { llmIcon: "⚡", color: "#ef4444" },
+};
+
+const FALLBACK_DISPLAY_INFO = { llmIcon: "🤖", color: "#8888a0" };
+
+// Fill in icon/color for prompts that came from an API route
+export function withDisplayInfo(prompt: Omit<FormattedPrompt, "llmIcon" | "color">): FormattedPrompt {
+    return { ...FALLBACK_DISPLAY_INFO, ...LLM_DISPLAY_INFO[prompt.llmName], ...prompt };
+}
+
 // Claude — XML tags, system prompts, thinking blocks
 function formatForClaude(prompt: StructuredPrompt): FormattedPrompt {
     const lines: string[] = [];
@@ -47,10 +64,9 @@ function formatForClaude(prompt: StructuredPrompt): FormattedPrompt {
 
     return {
         llmName: "Claude",
-        llmIcon: "🟠",
         formattedPrompt: lines.join("\n"),
         description: "Optimized with XML tags and structured thinking",
-        color: "#d97706",
+        ...LLM_DISPLAY_INFO.Claude,
     };
 }
 
@@ -79,10 +95,9 @@ function formatForGemini(prompt: StructuredPrompt): FormattedPrompt {
 
     return {
         llmName: "Gemini",
-        llmIcon: "🔵",
         formattedPrompt: lines.join("\n"),
         description: "Structured with markdown and grounding hints",
-        color: "#3b82f6",
+        ...LLM_DISPLAY_INFO.Gemini,
     };
 }
 
@@ -113,10 +128,9 @@ function formatForChatGPT(prompt: StructuredPrompt): FormattedPrompt {
 
     return {
         llmName: "ChatGPT",
-        llmIcon: "🟢",
         formattedPrompt: lines.join("\n"),
         description: "System/User message split for GPT models",
-        color: "#10b981",
+        ...LLM_DISPLAY_INFO.ChatGPT,
     };
 }
 
@@ -151,10 +165,9 @@ function formatForDeepSeek(prompt: StructuredPrompt): FormattedPrompt {
 
     return {
         llmName: "DeepSeek",
-        llmIcon: "🔮",
         formattedPrompt: lines.join("\n"),
         description: "Chain-of-thought with step-by-step reasoning",
-        color: "#8b5cf6",
+        ...LLM_DISPLAY_INFO.DeepSeek,
     };
 }
 
@@ -179,22 +192,57 @@ function formatForGrok(prompt: StructuredPrompt): FormattedPrompt {
 
     return {
         llmName: "Grok",
-        llmIcon: "⚡",
         formattedPrompt: lines.join("\n"),
         description: "Concise, direct, and to-the-point",
-        color: "#ef4444",
+        ...LLM_DISPLAY_INFO.Grok,
     };
 }
 
+// --- Registry ---
+
+export type PromptFormatter = (prompt: StructuredPrompt) => FormattedPrompt;
+
+export interface FormatterEntry {
+    id: string;
+    format: PromptFormatter;
+    builtIn: boolean;
+}
+
+const registry = new Map<string, FormatterEntry>();
+
+// Registering an existing id replaces it; order of first registration is kept
+export function registerFormatter(id: string, format: PromptFormatter, builtIn = false): void {
+    registry.set(id, { id, format, builtIn });
+}
+
+export function unregisterFormatter(id: string): boolean {
+    const entry = registry.get(id);
+    if (!entry || entry.builtIn) return false;
+    return registry.delete(id);
+}
+
+export function getFormatter(id: string): FormatterEntry | undefined {
+    return registry.get(id);
+}
+
+export function listFormatters(): FormatterEntry[] {
+    return [...registry.values()];
+}
+
+registerFormatter("claude", formatForClaude, true);
+registerFormatter("gemini", formatForGemini, true);
+registerFormatter("chatgpt", formatForChatGPT, true);
+registerFormatter("deepseek", formatForDeepSeek, true);
+registerFormatter("grok", formatForGrok, true);
+
 // Export all formatters
 export function formatForAllLLMs(prompt: StructuredPrompt): FormattedPrompt[] {
-    return [
-        formatForClaude(prompt),
-        formatForGemini(prompt),
-        formatForChatGPT(prompt),
-        formatForDeepSeek(prompt),
-        formatForGrok(prompt),
-    ];
+    return listFormatters().map((f) => f.format(prompt));
+}
+
+// Only the user-registered formatters (the API routes already produce the built-in five)
+export function formatForCustomLLMs(prompt: StructuredPrompt): FormattedPrompt[] {
+    return listFormatters().filter((f) => !f.builtIn).map((f) => f.format(prompt));
 }
 
 export { formatForClaude, formatForGemini, formatForChatGPT, formatForDeepSeek, formatForGrok };
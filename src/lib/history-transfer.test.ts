@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exportHistory, planImport } from "./history-transfer";
+import { currentRevision } from "./revisions";
+import type { SavedPrompt } from "./storage";
+import { structurePrompt } from "./structurer";
+
+const structured = structurePrompt("write a python script that renames photos by date");
+
+function record(extra: Record<string, unknown>) {
+    return {
+        id: "p1",
+        title: structured.title,
+        rawTranscript: "write a python script that renames photos by date",
+        structuredPrompt: structured.fullPrompt,
+        intent: structured.intent,
+        language: "en-US",
+        qualityScore: structured.qualityScore,
+        timestamp: 1700000000000,
+        ...extra,
+    };
+}
+
+function importOne(extra: Record<string, unknown>): SavedPrompt {
+    const plan = planImport(JSON.stringify([record(extra)]), "history.json", []);
+    assert.deepEqual(plan.errors, []);
+    return plan.added[0];
+}
+
+describe("planImport", () => {
+    it("drops malformed revisions, structured fields and sessions", () => {
+        const prompt = importOne({ revisions: [{}], revisionIndex: -1, structured: { title: 1 }, session: { messages: [{}] } });
+        assert.equal(prompt.revisions, undefined);
+        assert.equal(prompt.revisionIndex, undefined);
+        assert.equal(prompt.structured, undefined);
+        assert.equal(prompt.session, undefined);
+        assert.equal(currentRevision(prompt), null);
+        assert.doesNotThrow(() => exportHistory([prompt], "markdown"));
+    });
+
+    it("clamps the revision index to the kept revisions", () => {
+        const revision = { kind: "spoken", timestamp: 1, structured, formats: [] };
+        const prompt = importOne({ revisions: [revision, revision], revisionIndex: 9 });
+        assert.equal(prompt.revisions?.length, 2);
+        assert.equal(prompt.revisionIndex, 1);
+        assert.ok(exportHistory([prompt], "markdown").includes(structured.fullPrompt.split("\n")[0]));
+    });
+
+    it("saves only the fields a prompt has", () => {
+        const prompt = importOne({ injected: "<script>", session: { messages: [], extra: true } });
+        assert.equal("injected" in prompt, false);
+        assert.deepEqual(prompt.session?.messages, []);
+        assert.equal("extra" in (prompt.session ?? {}), false);
+    });
+});
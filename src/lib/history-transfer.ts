@@ -0,0 +1,382 @@
+// Import and export of prompt history
+// Exports saved prompts as a versioned JSON bundle (lossless), a Markdown document (one section per
+// prompt with every LLM format) or CSV. JSON bundles and CSV files can be imported again; records are
+// validated, and duplicates are found by a hash of their content so they can be merged or overwritten.
+
+import type { ChatMessage } from "./conversation";
+import { formatForAllLLMs, FormattedPrompt } from "./formatters";
+import { currentRevision, PromptRevision } from "./revisions";
+import { hashText } from "./hash";
+import type { SlotState } from "./slots";
+import type { SavedPrompt, SavedSession } from "./storage";
+import type { StructuredPrompt } from "./structurer";
+
+export type HistoryExportFormat = "json" | "markdown" | "csv";
+export type DuplicateMode = "merge" | "overwrite";
+
+export const HISTORY_BUNDLE_FORMAT = "voiceprompt-history";
+export const HISTORY_BUNDLE_VERSION = 1;
+
+export const HISTORY_EXPORT_FORMATS: { id: HistoryExportFormat; name: string; extension: string; mime: string }[] = [
+    { id: "json", name: "JSON bundle", extension: "json", mime: "application/json" },
+    { id: "markdown", name: "Markdown", extension: "md", mime: "text/markdown" },
+    { id: "csv", name: "CSV", extension: "csv", mime: "text/csv" },
+];
+
+export interface HistoryBundle {
+    format: typeof HISTORY_BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;       // ISO date
+    prompts: SavedPrompt[];
+}
+
+export interface ImportDuplicate {
+    incoming: SavedPrompt;
+    existing: SavedPrompt;
+}
+
+// What importing a file would do, for the user to confirm
+export interface ImportPlan {
+    added: SavedPrompt[];
+    duplicates: ImportDuplicate[];
+    errors: string[];         // records that were skipped, and why
+}
+
+const CSV_COLUMNS = [
+    "id", "title", "intent", "language", "qualityScore", "timestamp", "updatedAt", "favorite", "folder",
+    "tags", "model", "rawTranscript", "englishTranscript", "structuredPrompt",
+] as const;
+
+// --- Export ---
+
+// Per-LLM outputs of the version shown; entries without stored outputs are formatted now
+function formatsOf(prompt: SavedPrompt): FormattedPrompt[] {
+    const revision = currentRevision(prompt);
+    if (!revision) return [];
+    return revision.formats.length > 0 ? revision.formats : formatForAllLLMs(revision.structured);
+}
+
+// A fence longer than any backtick run in the text, so prompts containing code blocks stay intact
+function fence(text: string, info = ""): string {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const marks = "`".repeat(longest + 1);
+    return `${marks}${info}\n${text}\n${marks}`;
+}
+
+function toMarkdown(prompts: SavedPrompt[]): string {
+    const sections = prompts.map((prompt) => {
+        const meta = [
+            `- **Intent:** ${prompt.intent}`,
+            `- **Language:** ${prompt.language}`,
+            `- **Quality:** ${prompt.qualityScore}/100`,
+            `- **Created:** ${new Date(prompt.timestamp).toISOString()}`,
+            ...(prompt.folder ? [`- **Folder:** ${prompt.folder}`] : []),
+            ...(prompt.tags.length > 0 ? [`- **Tags:** ${prompt.tags.map((t) => `#${t}`).join(" ")}`] : []),
+            ...(prompt.favorite ? [`- **Favorite:** yes`] : []),
+        ];
+        const quote = (text: string) => text.split("\n").map((line) => `> ${line}`).join("\n");
+        const parts = [
+            `## ${prompt.title}`,
+            meta.join("\n"),
+            `### Transcript`,
+            quote(prompt.rawTranscript),
+            ...(prompt.englishTranscript ? [`### English`, quote(prompt.englishTranscript)] : []),
+            `### Structured prompt`,
+            fence(prompt.structuredPrompt),
+            ...formatsOf(prompt).flatMap((f) => [`### ${f.llmIcon} ${f.llmName}`, fence(f.formattedPrompt)]),
+        ];
+        return parts.join("\n\n");
+    });
+    return [`# VoicePrompt history`, `Exported ${new Date().toISOString()} — ${prompts.length} prompt${prompts.length === 1 ? "" : "s"}`, ...sections]
+        .join("\n\n") + "\n";
+}
+
+function csvCell(value: unknown): string {
+    let text = value === undefined || value === null ? "" : String(value);
+    // Spreadsheets run cells starting with these as formulas
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCSV(prompts: SavedPrompt[]): string {
+    const rows = prompts.map((prompt) => CSV_COLUMNS.map((column) => {
+        if (column === "tags") return csvCell(prompt.tags.join(" "));
+        if (column === "timestamp" || column === "updatedAt") return csvCell(new Date(prompt[column]).toISOString());
+        return csvCell(prompt[column]);
+    }).join(","));
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function exportHistory(prompts: SavedPrompt[], format: HistoryExportFormat): string {
+    switch (format) {
+        case "json": {
+            const bundle: HistoryBundle = {
+                format: HISTORY_BUNDLE_FORMAT,
+                version: HISTORY_BUNDLE_VERSION,
+                exportedAt: new Date().toISOString(),
+                prompts,
+            };
+            return JSON.stringify(bundle, null, 2);
+        }
+        case "markdown": return toMarkdown(prompts);
+        case "csv": return toCSV(prompts);
+    }
+}
+
+// Save text as a file through a temporary download link
+export function downloadText(fileName: string, text: string, mime: string) {
+    const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// --- Import ---
+
+/**
+ * Hash of what a prompt says (title, transcript, structured prompt), ignoring ids, dates and
+ * whitespace, so the same prompt exported from another browser is recognized.
+ */
+export function contentHash(prompt: Pick<SavedPrompt, "title" | "rawTranscript" | "structuredPrompt">): string {
+    return hashText([prompt.title, prompt.rawTranscript, prompt.structuredPrompt]
+        .map((part) => part.normalize("NFC").replace(/\s+/g, " ").trim().toLowerCase())
+        .join("\u0000"));
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === "string";
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(isString);
+}
+
+// Field types only: an edited prompt may legitimately have empty fields the model schema would reject
+function isStructured(value: unknown): value is StructuredPrompt {
+    if (!isObject(value)) return false;
+    return ["title", "intent", "context", "outputFormat", "fullPrompt"].every((field) => isString(value[field])) &&
+        isStringList(value.requirements) && isStringList(value.constraints) && isNumber(value.qualityScore);
+}
+
+function isFormatted(value: unknown): value is FormattedPrompt {
+    return isObject(value) &&
+        ["llmName", "llmIcon", "formattedPrompt", "description", "color"].every((field) => isString(value[field]));
+}
+
+function isRevision(value: unknown): value is PromptRevision {
+    return isObject(value) &&
+        (value.kind === "spoken" || value.kind === "edited" || value.kind === "voice") &&
+        isNumber(value.timestamp) &&
+        isStructured(value.structured) &&
+        Array.isArray(value.formats) && value.formats.every(isFormatted) &&
+        (value.transcript === undefined || isString(value.transcript));
+}
+
+function isMessage(value: unknown): value is ChatMessage {
+    return isObject(value) && isString(value.id) && (value.role === "user" || value.role === "assistant") &&
+        isString(value.content) && isNumber(value.timestamp);
+}
+
+function isSlot(value: unknown): value is SlotState {
+    return isObject(value) && isString(value.id) && isString(value.label) &&
+        typeof value.required === "boolean" && typeof value.filled === "boolean";
+}
+
+// The session if its messages are usable; slots and provenance are dropped when malformed
+function validSession(value: unknown): SavedSession | undefined {
+    if (!isObject(value) || !Array.isArray(value.messages) || !value.messages.every(isMessage)) return undefined;
+    return {
+        messages: value.messages,
+        slots: Array.isArray(value.slots) && value.slots.every(isSlot) ? value.slots : undefined,
+        source: value.source === "ai" || value.source === "rule-based" ? value.source : undefined,
+        provider: isString(value.provider) ? value.provider as SavedSession["provider"] : undefined,
+        model: isString(value.model) ? value.model : undefined,
+    };
+}
+
+/**
+ * Check one record and rebuild it from the fields a prompt has, so nothing unknown is saved. Required
+ * fields must be valid; malformed revisions, structured fields and sessions are dropped, since the
+ * prompt re-structures from its transcript without them. A string is the reason the record was rejected.
+ */
+function validatePrompt(record: unknown): SavedPrompt | string {
+    if (!isObject(record)) return "not an object";
+    const r = record;
+    for (const field of ["id", "title", "rawTranscript", "structuredPrompt", "intent", "language"] as const) {
+        if (!isString(r[field]) || (field !== "rawTranscript" && !r[field])) return `missing ${field}`;
+    }
+    if (!isNumber(r.qualityScore)) return "qualityScore is not a number";
+    if (!isNumber(r.timestamp)) return "timestamp is not a number";
+    if (r.tags !== undefined && !isStringList(r.tags)) return "tags are not a list of strings";
+    for (const field of ["englishTranscript", "folder", "model"] as const) {
+        if (r[field] !== undefined && !isString(r[field])) return `${field} is not a string`;
+    }
+
+    const revisions = Array.isArray(r.revisions) ? r.revisions.filter(isRevision) : [];
+    const last = revisions.length - 1;
+    // An index that no longer points at a kept revision shows the latest one
+    const revisionIndex = Number.isInteger(r.revisionIndex) && revisions.length === (r.revisions as unknown[]).length
+        ? Math.min(Math.max(r.revisionIndex as number, 0), last)
+        : last;
+
+    return {
+        id: r.id as string,
+        title: r.title as string,
+        rawTranscript: r.rawTranscript as string,
+        englishTranscript: r.englishTranscript as string | undefined,
+        structuredPrompt: r.structuredPrompt as string,
+        structured: isStructured(r.structured) ? r.structured : undefined,
+        revisions: revisions.length > 0 ? revisions : undefined,
+        revisionIndex: revisions.length > 0 ? revisionIndex : undefined,
+        session: validSession(r.session),
+        intent: r.intent as string,
+        qualityScore: r.qualityScore,
+        language: r.language as string,
+        timestamp: r.timestamp,
+        updatedAt: r.timestamp,       // savePrompts stamps the import time
+        tags: (r.tags as string[] | undefined) ?? [],
+        favorite: r.favorite ? 1 : 0,
+        folder: r.folder as string | undefined,
+        model: r.model as string | undefined,
+    };
+}
+
+// RFC 4180 rows; quoted cells may hold commas, quotes and line breaks
+function parseCSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && text[i + 1] === "\n") i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell || row.length > 0) rows.push([...row, cell]);
+    return rows.filter((r) => r.some((c) => c !== ""));
+}
+
+// CSV rows back into records, undoing the export's formula guard and date formatting
+function recordsFromCSV(text: string): unknown[] {
+    const [header, ...rows] = parseCSV(text.replace(/^\uFEFF/, ""));
+    if (!header?.includes("title")) throw new Error("CSV has no header row with a title column");
+    const unguard = (cell: string) => (/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell);
+    const date = (cell: string) => (/^\d+$/.test(cell) ? Number(cell) : Date.parse(cell));
+
+    return rows.map((cells) => {
+        const value = (column: string) => unguard(cells[header.indexOf(column)] ?? "");
+        const timestamp = date(value("timestamp"));
+        return {
+            id: value("id") || `${timestamp.toString(36)}${Math.random().toString(36).slice(2, 7)}`,
+            title: value("title"),
+            intent: value("intent") || "General",
+            language: value("language") || "en-US",
+            qualityScore: Number(value("qualityScore") || 0),
+            timestamp,
+            updatedAt: value("updatedAt") ? date(value("updatedAt")) : undefined,
+            favorite: value("favorite") === "1" || value("favorite").toLowerCase() === "true" ? 1 : 0,
+            folder: value("folder") || undefined,
+            tags: value("tags").split(/\s+/).filter(Boolean),
+            model: value("model") || undefined,
+            rawTranscript: value("rawTranscript"),
+            englishTranscript: value("englishTranscript") || undefined,
+            structuredPrompt: value("structuredPrompt"),
+        };
+    });
+}
+
+// Records of an imported file; throws when the file as a whole is unusable
+function readRecords(text: string, fileName: string): unknown[] {
+    if (/\.csv$/i.test(fileName)) return recordsFromCSV(text);
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("File is neither a JSON bundle nor CSV");
+    }
+    if (Array.isArray(parsed)) return parsed;
+
+    const bundle = parsed as Partial<HistoryBundle>;
+    if (bundle?.format !== HISTORY_BUNDLE_FORMAT || !Array.isArray(bundle.prompts)) {
+        throw new Error("Not a VoicePrompt history bundle");
+    }
+    if (typeof bundle.version !== "number" || bundle.version > HISTORY_BUNDLE_VERSION) {
+        throw new Error(`Bundle version ${bundle.version} is newer than this app supports (${HISTORY_BUNDLE_VERSION})`);
+    }
+    return bundle.prompts;
+}
+
+/**
+ * Validate an imported file against the current history. Records matching an existing prompt by id
+ * or content hash become duplicates; repeats inside the file are dropped.
+ */
+export function planImport(text: string, fileName: string, existing: SavedPrompt[]): ImportPlan {
+    const byId = new Map(existing.map((p) => [p.id, p]));
+    const byHash = new Map(existing.map((p) => [contentHash(p), p]));
+    const seen = new Set<string>();
+    const plan: ImportPlan = { added: [], duplicates: [], errors: [] };
+
+    readRecords(text, fileName).forEach((record, i) => {
+        const prompt = validatePrompt(record);
+        if (typeof prompt === "string") {
+            plan.errors.push(`Record ${i + 1}: ${prompt}`);
+            return;
+        }
+        const hash = contentHash(prompt);
+        if (seen.has(hash) || seen.has(prompt.id)) return;
+        seen.add(hash).add(prompt.id);
+
+        const match = byId.get(prompt.id) ?? byHash.get(hash);
+        if (match) plan.duplicates.push({ incoming: prompt, existing: match });
+        else plan.added.push(prompt);
+    });
+    return plan;
+}
+
+/**
+ * The prompts to save for a plan. Merging keeps each existing prompt and adds the incoming tags,
+ * folder and favorite; overwriting replaces it with the incoming one under the existing id.
+ */
+export function resolveImport(plan: ImportPlan, mode: DuplicateMode): SavedPrompt[] {
+    const duplicates = plan.duplicates.map(({ incoming, existing }) => mode === "overwrite"
+        ? { ...incoming, id: existing.id }
+        : {
+            ...existing,
+            tags: [...new Set([...existing.tags, ...incoming.tags])],
+            folder: existing.folder ?? incoming.folder,
+            favorite: existing.favorite || incoming.favorite ? 1 as const : 0 as const,
+        });
+    return [...plan.added, ...duplicates];
+}
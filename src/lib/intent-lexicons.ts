@@ -0,0 +1,500 @@
+// Keyword lexicons for the intent classifier, one per language in SUPPORTED_LANGUAGES
+// Weights: 3 = unambiguous, 2 = strong hint, 1 = weak hint
+// Term syntax ("stem*", "word$") is described in lexicon-match.ts
+// Negators cancel a keyword when they appear just before (or, for postpositional languages, just after) it
+
+import type { Intent } from "./intents";
+
+export interface Lexicon {
+    terms: Partial<Record<Intent, Record<string, number>>>;
+    negation: { before: string[]; after: string[] };
+}
+
+export const LEXICONS: Record<string, Lexicon> = {
+    en: {
+        terms: {
+            "Code Generation": {
+                code: 3, coding: 3, program: 2, programming: 3, function: 2, api: 3, app: 2, application: 1,
+                build: 1, create: 1, develop: 2, implement: 2, script: 2, website: 2, web: 1, backend: 3,
+                frontend: 3, "full stack": 3, fullstack: 3, endpoint: 3, component: 2, class: 1, module: 1,
+                library: 1, crud: 3, authentication: 2, login: 2, signup: 2, deploy: 2, server: 2, mobile: 1,
+                react: 3, "next.js": 3, python: 3, javascript: 3, typescript: 3, java: 3, node: 2, django: 3,
+                flask: 3, html: 3, css: 3, docker: 2, kubernetes: 2, algorithm: 2, "unit test*": 2, database: 1,
+            },
+            "Writing": {
+                write: 1, essay: 3, article: 3, blog: 3, post: 1, email: 2, letter: 2, report: 1,
+                documentation: 2, readme: 2, story: 2, poem: 2, speech: 2, presentation: 1, proposal: 2,
+                resume: 3, "cover letter": 3, content: 1, copywriting: 3, "social media": 2, tweet: 2,
+                caption: 2, headline: 2, draft: 2, "summar*": 2, translate: 2, rewrite: 2, proofread: 3, tone: 1,
+            },
+            "Analysis": {
+                "analy*": 3, research: 3, "compar*": 3, evaluate: 2, review: 2, assess: 2, investigate: 2,
+                study: 1, examine: 2, explain: 2, understand: 1, learn: 1, teach: 1, insight: 2,
+                "pros and cons": 3, survey: 1, trend: 1,
+            },
+            "Problem Solving": {
+                fix: 3, "debug*": 3, error: 2, issue: 1, problem: 2, solve: 2, "troubleshoot*": 3, broken: 2,
+                "not working": 3, bug: 3, crash: 3, optimize: 2, improve: 1, refactor: 2, performance: 1,
+                "how to": 1, why: 1, exception: 2, failing: 2,
+            },
+            "Creative": {
+                design: 2, ui: 2, ux: 2, logo: 3, brand: 2, branding: 3, color: 1, layout: 1, mockup: 3,
+                wireframe: 3, prototype: 1, animation: 2, illustration: 3, image: 1, video: 1, music: 2,
+                song: 3, lyrics: 3, game: 1, "idea*": 2, "brainstorm*": 3, creative: 3, imagine: 2, story: 1,
+                poem: 1, concept: 1, innovate: 2, slogan: 2,
+            },
+            "Data": {
+                data: 2, dataset: 3, database: 2, sql: 3, query: 2, csv: 3, json: 2, xml: 1, excel: 3,
+                spreadsheet: 3, table: 1, dashboard: 2, chart: 2, graph: 1, "visuali*": 3, "automat*": 2,
+                workflow: 2, pipeline: 2, etl: 3, "scrap*": 3, crawl: 2, parse: 1, extract: 1, transform: 1,
+                cron: 2, bot: 1,
+            },
+        },
+        negation: {
+            before: ["not", "no", "don't", "dont", "doesn't", "without", "never", "avoid", "skip", "instead"],
+            after: [],
+        },
+    },
+
+    te: {
+        terms: {
+            "Code Generation": {
+                "కోడ్": 3, "ప్రోగ్రామ్": 3, "ఫంక్షన్": 2, "స్క్రిప్ట్": 2, "బిల్డ్": 1, "డెవలప్": 2,
+                "వెబ్‌సైట్": 2, "యాప్": 2, "అప్లికేషన్": 1, "సర్వర్": 2,
+            },
+            "Writing": {
+                "రాయ": 2, "రాసి": 2, "వ్యాసం": 3, "ఆర్టికల్": 3, "బ్లాగ్": 3, "కథ": 2, "ఇమెయిల్": 2,
+                "లేఖ": 2, "ఉత్తరం": 2, "కవిత": 2,
+            },
+            "Analysis": {
+                "విశ్లేష": 3, "సమీక్ష": 2, "పోల్చ": 3, "పోలిక": 3, "అంచనా": 2, "పరిశోధన": 3, "వివరించ": 2,
+            },
+            "Problem Solving": {
+                "సమస్య": 2, "లోపం": 2, "ఎర్రర్": 3, "బగ్": 3, "సరిచేయ": 3, "పరిష్కార": 2,
+                "పని చేయడం లేదు": 3, "పనిచేయడం లేదు": 3,
+            },
+            "Creative": {
+                "డిజైన్": 2, "సృజనాత్మక": 3, "ఊహించ": 2, "ఆలోచన": 2, "కాన్సెప్ట్": 1, "లోగో": 3, "పాట": 2,
+            },
+            "Data": {
+                "డేటా": 3, "డేటాబేస్": 2, "టేబుల్": 1, "చార్ట్": 2, "స్ప్రెడ్‌షీట్": 3, "ఎక్సెల్": 3, "ఆటోమేట్": 2,
+            },
+        },
+        negation: { before: [], after: ["వద్దు", "లేదు", "కాదు", "లేకుండా", "లేని"] },
+    },
+
+    hi: {
+        terms: {
+            "Code Generation": {
+                "कोड": 3, "प्रोग्राम": 3, "फंक्शन": 2, "वेबसाइट": 2, "ऐप": 2, "स्क्रिप्ट": 2,
+                "सर्वर": 2, "डेवलप": 2,
+            },
+            "Writing": {
+                "लिख": 2, "निबंध": 3, "लेख": 3, "ब्लॉग": 3, "कहानी": 2, "ईमेल": 2, "पत्र": 2, "चिट्ठी": 2,
+                "कविता": 2,
+            },
+            "Analysis": {
+                "विश्लेषण": 3, "तुलना": 3, "समीक्षा": 2, "शोध": 3, "अनुसंधान": 3, "समझा": 2, "मूल्यांकन": 2,
+            },
+            "Problem Solving": {
+                "समस्या": 2, "त्रुटि": 3, "एरर": 3, "बग": 3, "ठीक कर": 3, "हल": 2, "काम नहीं कर": 3,
+            },
+            "Creative": {
+                "डिजाइन": 2, "रचनात्मक": 3, "कल्पना": 2, "आइडिया": 2, "विचार": 1, "लोगो": 3, "गाना": 2,
+            },
+            "Data": {
+                "डेटा": 3, "डाटा": 3, "डेटाबेस": 2, "तालिका": 2, "चार्ट": 2, "एक्सेल": 3, "स्वचालित": 2,
+            },
+        },
+        negation: { before: ["मत", "बिना"], after: ["नहीं", "नही", "मत", "बिना"] },
+    },
+
+    ta: {
+        terms: {
+            "Code Generation": {
+                "குறியீடு": 3, "கோட்": 3, "நிரல்": 3, "செயலி": 2, "இணையதள": 2, "ஸ்கிரிப்ட்": 2, "ஃபங்ஷன்": 2,
+            },
+            "Writing": {
+                "எழுது": 2, "கட்டுரை": 3, "கதை": 2, "கடிதம்": 2, "மின்னஞ்சல்": 2, "வலைப்பதிவு": 3, "கவிதை": 2,
+            },
+            "Analysis": {
+                "பகுப்பாய்": 3, "ஒப்பிடு": 3, "ஒப்பீடு": 3, "ஆய்வு": 3, "மதிப்பாய்": 2, "விளக்கு": 2,
+            },
+            "Problem Solving": {
+                "பிழை": 3, "சிக்கல்": 2, "பிரச்சினை": 2, "சரிசெய்": 3, "தீர்வு": 2, "வேலை செய்யவில்லை": 3,
+            },
+            "Creative": {
+                "வடிவமை": 2, "படைப்பாற்றல்": 3, "கற்பனை": 2, "யோசனை": 2, "லோகோ": 3, "பாடல்": 2,
+            },
+            "Data": {
+                "தரவு": 3, "டேட்டா": 3, "தரவுத்தளம்": 2, "அட்டவணை": 2, "விளக்கப்படம்": 2, "எக்செல்": 3,
+            },
+        },
+        negation: { before: [], after: ["வேண்டாம்", "இல்லை", "இல்லாமல்"] },
+    },
+
+    kn: {
+        terms: {
+            "Code Generation": {
+                "ಕೋಡ್": 3, "ಪ್ರೋಗ್ರಾಂ": 3, "ವೆಬ್‌ಸೈಟ್": 2, "ಆ್ಯಪ್": 2, "ಸ್ಕ್ರಿಪ್ಟ್": 2,
+            },
+            "Writing": {
+                "ಬರೆ": 2, "ಪ್ರಬಂಧ": 3, "ಲೇಖನ": 3, "ಕಥೆ": 2, "ಪತ್ರ": 2, "ಇಮೇಲ್": 2, "ಕವಿತೆ": 2,
+            },
+            "Analysis": {
+                "ವಿಶ್ಲೇಷ": 3, "ಹೋಲಿಸ": 3, "ಸಂಶೋಧನೆ": 3, "ವಿಮರ್ಶೆ": 2, "ವಿವರಿಸ": 2,
+            },
+            "Problem Solving": {
+                "ಸಮಸ್ಯೆ": 2, "ದೋಷ": 3, "ಎರರ್": 3, "ಬಗ್": 3, "ಸರಿಪಡಿಸ": 3, "ಪರಿಹಾರ": 2,
+            },
+            "Creative": {
+                "ವಿನ್ಯಾಸ": 2, "ಡಿಸೈನ್": 2, "ಸೃಜನಶೀಲ": 3, "ಕಲ್ಪನೆ": 2, "ಲೋಗೋ": 3, "ಹಾಡು": 2,
+            },
+            "Data": {
+                "ಡೇಟಾ": 3, "ದತ್ತಾಂಶ": 3, "ಕೋಷ್ಟಕ": 2, "ಚಾರ್ಟ್": 2, "ಎಕ್ಸೆಲ್": 3,
+            },
+        },
+        negation: { before: [], after: ["ಬೇಡ", "ಇಲ್ಲ", "ಇಲ್ಲದೆ"] },
+    },
+
+    ml: {
+        terms: {
+            "Code Generation": {
+                "കോഡ്": 3, "പ്രോഗ്രാം": 3, "വെബ്സൈറ്റ്": 2, "ആപ്പ്": 2, "സ്ക്രിപ്റ്റ്": 2,
+            },
+            "Writing": {
+                "എഴുത": 2, "ഉപന്യാസം": 3, "ലേഖനം": 3, "കഥ": 2, "കത്ത്": 2, "ഇമെയിൽ": 2, "കവിത": 2,
+            },
+            "Analysis": {
+                "വിശകലന": 3, "താരതമ്യ": 3, "ഗവേഷണ": 3, "അവലോകന": 2, "വിശദീകരിക്ക": 2,
+            },
+            "Problem Solving": {
+                "പ്രശ്നം": 2, "പിശക്": 3, "എറർ": 3, "ബഗ്": 3, "ശരിയാക്ക": 3, "പരിഹാര": 2,
+            },
+            "Creative": {
+                "ഡിസൈൻ": 2, "രൂപകൽപ്പന": 2, "സർഗ്ഗാത്മക": 3, "ഭാവന": 2, "ആശയ": 2, "ലോഗോ": 3, "പാട്ട്": 2,
+            },
+            "Data": {
+                "ഡാറ്റ": 3, "ഡാറ്റാബേസ്": 2, "പട്ടിക": 2, "ചാർട്ട്": 2, "എക്സൽ": 3,
+            },
+        },
+        negation: { before: [], after: ["വേണ്ട", "ഇല്ല", "ഇല്ലാതെ"] },
+    },
+
+    mr: {
+        terms: {
+            "Code Generation": {
+                "कोड": 3, "प्रोग्राम": 3, "वेबसाइट": 2, "ॲप": 2, "अ‍ॅप": 2, "स्क्रिप्ट": 2,
+            },
+            "Writing": {
+                "लिह": 2, "निबंध": 3, "लेख": 3, "कथा": 2, "पत्र": 2, "कविता": 2, "ब्लॉग": 3,
+            },
+            "Analysis": {
+                "विश्लेषण": 3, "तुलना": 3, "संशोधन": 3, "समजाव": 2, "आढावा": 2,
+            },
+            "Problem Solving": {
+                "समस्या": 2, "त्रुटी": 3, "एरर": 3, "बग": 3, "दुरुस्त": 3, "उपाय": 2,
+            },
+            "Creative": {
+                "डिझाइन": 2, "सर्जनशील": 3, "कल्पना": 2, "लोगो": 3, "गाणे": 2,
+            },
+            "Data": {
+                "डेटा": 3, "माहिती": 1, "तक्ता": 2, "आलेख": 2, "एक्सेल": 3,
+            },
+        },
+        negation: { before: ["विना"], after: ["नको", "नाही", "नये", "शिवाय"] },
+    },
+
+    bn: {
+        terms: {
+            "Code Generation": {
+                "কোড": 3, "প্রোগ্রাম": 3, "ওয়েবসাইট": 2, "অ্যাপ": 2, "স্ক্রিপ্ট": 2, "ফাংশন": 2,
+            },
+            "Writing": {
+                "লিখ": 2, "প্রবন্ধ": 3, "নিবন্ধ": 3, "গল্প": 2, "চিঠি": 2, "ইমেল": 2, "কবিতা": 2, "ব্লগ": 3,
+            },
+            "Analysis": {
+                "বিশ্লেষণ": 3, "তুলনা": 3, "গবেষণা": 3, "পর্যালোচনা": 2, "ব্যাখ্যা": 2,
+            },
+            "Problem Solving": {
+                "সমস্যা": 2, "ত্রুটি": 3, "এরর": 3, "বাগ": 3, "ঠিক কর": 3, "সমাধান": 2,
+            },
+            "Creative": {
+                "ডিজাইন": 2, "সৃজনশীল": 3, "কল্পনা": 2, "ধারণা": 1, "লোগো": 3, "গান": 2,
+            },
+            "Data": {
+                "ডেটা": 3, "ডাটা": 3, "তথ্য": 1, "সারণি": 2, "চার্ট": 2, "এক্সেল": 3,
+            },
+        },
+        negation: { before: ["বিনা"], after: ["না", "নয়", "নেই", "ছাড়া"] },
+    },
+
+    gu: {
+        terms: {
+            "Code Generation": {
+                "કોડ": 3, "પ્રોગ્રામ": 3, "વેબસાઇટ": 2, "એપ": 2, "સ્ક્રિપ્ટ": 2,
+            },
+            "Writing": {
+                "લખ": 2, "નિબંધ": 3, "લેખ": 3, "વાર્તા": 2, "પત્ર": 2, "ઇમેઇલ": 2, "કવિતા": 2,
+            },
+            "Analysis": {
+                "વિશ્લેષણ": 3, "સરખામણી": 3, "સંશોધન": 3, "સમીક્ષા": 2, "સમજાવ": 2,
+            },
+            "Problem Solving": {
+                "સમસ્યા": 2, "ભૂલ": 3, "એરર": 3, "બગ": 3, "સુધાર": 2, "ઉકેલ": 2,
+            },
+            "Creative": {
+                "ડિઝાઇન": 2, "સર્જનાત્મક": 3, "કલ્પના": 2, "વિચાર": 1, "લોગો": 3, "ગીત": 2,
+            },
+            "Data": {
+                "ડેટા": 3, "માહિતી": 1, "કોષ્ટક": 2, "ચાર્ટ": 2, "એક્સેલ": 3,
+            },
+        },
+        negation: { before: [], after: ["નહીં", "ના", "નથી", "વગર", "વિના"] },
+    },
+
+    es: {
+        terms: {
+            "Code Generation": {
+                "código": 3, "programa*": 2, "función": 2, "aplicación": 1, "sitio web": 2, "desarroll*": 2,
+                "implementa*": 2, servidor: 2,
+            },
+            "Writing": {
+                "escrib*": 2, "redact*": 3, ensayo: 3, "artículo": 3, correo: 2, carta: 2, cuento: 2,
+                historia: 1, poema: 2,
+            },
+            "Analysis": {
+                "analiz*": 3, "análisis": 3, "compar*": 3, "investiga*": 2, "evalu*": 2, "revis*": 2, "explica*": 2,
+            },
+            "Problem Solving": {
+                error: 2, errores: 2, fallo: 2, problema: 2, "arregl*": 3, "depur*": 3, "solucion*": 2, "no funciona": 3,
+            },
+            "Creative": {
+                "diseñ*": 2, "creativ*": 3, "imagina*": 2, "idea*": 2, logotipo: 3, "canción": 2,
+            },
+            "Data": {
+                datos: 3, "base de datos": 2, tabla: 1, "hoja de cálculo": 3, "gráfico*": 2, "automatiz*": 2,
+            },
+        },
+        negation: { before: ["no", "sin", "nunca", "evita*"], after: [] },
+    },
+
+    fr: {
+        terms: {
+            "Code Generation": {
+                code: 3, "programm*": 2, fonction: 2, "site web": 2, "appli*": 1, "développ*": 2, serveur: 2,
+            },
+            "Writing": {
+                "écri*": 2, "rédig*": 3, "rédaction": 3, essai: 2, article: 3, lettre: 2, courriel: 2,
+                histoire: 1, "poème": 2, conte: 2,
+            },
+            "Analysis": {
+                "analys*": 3, "compar*": 3, recherche: 2, "évalu*": 2, "examin*": 2, "expliqu*": 2,
+            },
+            "Problem Solving": {
+                erreur: 3, bogue: 3, "problème": 2, "répar*": 3, "corrig*": 3, "résoud*": 2,
+                "ne marche pas": 3, "ne fonctionne pas": 3,
+            },
+            "Creative": {
+                "concev*": 1, "créati*": 3, "imagin*": 2, "idée*": 2, chanson: 2,
+            },
+            "Data": {
+                "données": 3, "base de données": 2, tableau: 1, tableur: 3, graphique: 2, "automatis*": 2,
+            },
+        },
+        negation: { before: ["ne", "pas", "sans", "jamais", "évite*"], after: [] },
+    },
+
+    de: {
+        terms: {
+            "Code Generation": {
+                "programm*": 2, "funktion*": 2, webseite: 2, "anwendung*": 1, "entwickl*": 2, "implementier*": 2,
+            },
+            "Writing": {
+                "schreib*": 2, aufsatz: 3, artikel: 3, brief: 2, "e-mail": 2, geschichte: 1, gedicht: 2, entwurf: 1,
+            },
+            "Analysis": {
+                "analys*": 3, "vergleich*": 3, "recherch*": 2, "bewert*": 2, "untersuch*": 2, "erklär*": 2,
+            },
+            "Problem Solving": {
+                "fehler*": 3, problem: 2, "beheb*": 3, "reparier*": 2, "lös*": 2, "funktioniert nicht": 3,
+            },
+            "Creative": {
+                "gestalt*": 2, "kreativ*": 3, "idee*": 2, "ausdenk*": 2, lied: 2,
+            },
+            "Data": {
+                "daten*": 3, "tabelle*": 2, "diagramm*": 2, "automatisier*": 2,
+            },
+        },
+        negation: { before: ["nicht", "kein*", "ohne", "nie"], after: ["nicht"] },
+    },
+
+    it: {
+        terms: {
+            "Code Generation": {
+                codice: 3, "programm*": 2, funzione: 2, "sito web": 2, applicazione: 1, "svilupp*": 2,
+            },
+            "Writing": {
+                "scriv*": 2, saggio: 3, articolo: 3, lettera: 2, storia: 1, racconto: 2, poesia: 2,
+            },
+            "Analysis": {
+                "analizz*": 3, analisi: 3, "confront*": 3, ricerca: 2, "valut*": 2, "spieg*": 2,
+            },
+            "Problem Solving": {
+                errore: 3, errori: 3, problema: 2, "risolv*": 2, "corregg*": 3, "non funziona": 3,
+            },
+            "Creative": {
+                "progett*": 1, "creativ*": 3, "immagin*": 2, idea: 2, idee: 2, canzone: 2,
+            },
+            "Data": {
+                dati: 3, tabella: 2, "foglio di calcolo": 3, grafico: 2, "automatizz*": 2,
+            },
+        },
+        negation: { before: ["non", "senza", "mai", "evita*"], after: [] },
+    },
+
+    pt: {
+        terms: {
+            "Code Generation": {
+                "código": 3, "programa*": 2, "função": 2, aplicativo: 2, site: 1, "desenvolv*": 2, servidor: 2,
+            },
+            "Writing": {
+                "escrev*": 2, "redação": 3, "redij*": 3, ensaio: 2, artigo: 3, carta: 2, "história": 1,
+                conto: 2, poema: 2,
+            },
+            "Analysis": {
+                "analis*": 3, "análise": 3, "compar*": 3, "pesquis*": 3, "avali*": 2, "expli*": 2,
+            },
+            "Problem Solving": {
+                erro: 3, erros: 3, problema: 2, "corrig*": 3, "consert*": 3, "resolv*": 2, "não funciona": 3,
+            },
+            "Creative": {
+                "criativ*": 3, "imagin*": 2, "ideia*": 2, logotipo: 3, "canção": 2,
+            },
+            "Data": {
+                dados: 3, "banco de dados": 2, planilha: 3, tabela: 1, "gráfico*": 2, "automatiz*": 2,
+            },
+        },
+        negation: { before: ["não", "sem", "nunca", "evit*"], after: [] },
+    },
+
+    ru: {
+        terms: {
+            "Code Generation": {
+                "код*": 3, "программ*": 2, "функци*": 2, "приложени*": 1, "сайт*": 2, "разработ*": 2, "сервер*": 2,
+            },
+            "Writing": {
+                "напиш*": 2, "писать": 1, "эссе": 3, "стать*": 3, "блог*": 3, "письм*": 2, "рассказ*": 2, "стих*": 2,
+            },
+            "Analysis": {
+                "анализ*": 3, "сравн*": 3, "исследова*": 3, "оцен*": 2, "объясн*": 2,
+            },
+            "Problem Solving": {
+                "ошибк*": 3, "проблем*": 2, "исправ*": 3, "баг*": 3, "отлад*": 3, "не работает": 3, "реши*": 2,
+            },
+            "Creative": {
+                "дизайн*": 2, "креатив*": 3, "придума*": 2, "иде*": 2, "логотип*": 3, "песн*": 2,
+            },
+            "Data": {
+                "данн*": 3, "таблиц*": 2, "график*": 2, "диаграмм*": 2, "автоматиз*": 2,
+            },
+        },
+        negation: { before: ["не", "без", "нет", "никогда"], after: [] },
+    },
+
+    ar: {
+        terms: {
+            "Code Generation": {
+                "كود": 3, "برمج": 3, "برنامج": 2, "دالة": 2, "تطبيق": 1, "موقع": 1, "خادم": 2,
+            },
+            "Writing": {
+                "اكتب": 2, "كتابة": 2, "مقال": 3, "رسالة": 2, "قصة": 2, "قصيدة": 2, "بريد": 2, "مدونة": 3,
+            },
+            "Analysis": {
+                "حلل": 3, "تحليل": 3, "قارن": 3, "مقارنة": 3, "بحث": 2, "تقييم": 2, "اشرح": 2,
+            },
+            "Problem Solving": {
+                "خطأ": 3, "أخطاء": 3, "مشكلة": 2, "إصلاح": 3, "أصلح": 3, "لا يعمل": 3,
+            },
+            "Creative": {
+                "تصميم": 2, "صمم": 2, "إبداع": 3, "تخيل": 2, "فكرة": 2, "أفكار": 2, "شعار": 3, "أغنية": 2,
+            },
+            "Data": {
+                "بيانات": 3, "جدول": 2, "رسم بياني": 2, "أتمتة": 2, "إكسل": 3,
+            },
+        },
+        negation: { before: ["لا", "لم", "لن", "بدون", "دون", "ليس"], after: [] },
+    },
+
+    ja: {
+        terms: {
+            "Code Generation": {
+                "コード": 3, "プログラム": 3, "関数": 2, "アプリ": 2, "ウェブサイト": 2, "実装": 2, "開発": 2, "スクリプト": 2,
+            },
+            "Writing": {
+                "書いて": 2, "書く": 2, "作文": 3, "記事": 3, "ブログ": 3, "メール": 2, "手紙": 2, "物語": 2, "エッセイ": 3,
+            },
+            "Analysis": {
+                "分析": 3, "比較": 3, "調査": 3, "研究": 2, "評価": 2, "説明": 2, "レビュー": 2,
+            },
+            "Problem Solving": {
+                "エラー": 3, "バグ": 3, "問題": 2, "修正": 3, "直して": 3, "解決": 2, "動かない": 3,
+            },
+            "Creative": {
+                "デザイン": 2, "創造": 3, "クリエイティブ": 3, "アイデア": 2, "ロゴ": 3, "想像": 2,
+            },
+            "Data": {
+                "データ": 3, "グラフ": 2, "スプレッドシート": 3, "エクセル": 3, "自動化": 2,
+            },
+        },
+        negation: { before: [], after: ["ない", "なし", "不要", "いらない", "しないで"] },
+    },
+
+    ko: {
+        terms: {
+            "Code Generation": {
+                "코드": 3, "프로그램": 3, "함수": 2, "앱": 2, "웹사이트": 2, "개발": 2, "구현": 2, "스크립트": 2,
+            },
+            "Writing": {
+                "작성": 2, "써": 2, "에세이": 3, "기사": 3, "블로그": 3, "이메일": 2, "편지": 2, "이야기": 1,
+            },
+            "Analysis": {
+                "분석": 3, "비교": 3, "조사": 2, "연구": 2, "평가": 2, "설명": 2, "리뷰": 2,
+            },
+            "Problem Solving": {
+                "오류": 3, "에러": 3, "버그": 3, "문제": 2, "수정": 3, "고쳐": 3, "해결": 2, "작동하지 않": 3,
+            },
+            "Creative": {
+                "디자인": 2, "창의": 3, "아이디어": 2, "로고": 3, "노래": 2, "상상": 2,
+            },
+            "Data": {
+                "데이터": 3, "차트": 2, "그래프": 2, "엑셀": 3, "스프레드시트": 3, "자동화": 2,
+            },
+        },
+        negation: { before: ["안", "못"], after: ["없이", "말고"] },
+    },
+
+    zh: {
+        terms: {
+            "Code Generation": {
+                "代码": 3, "程序": 3, "编程": 3, "函数": 2, "应用": 1, "网站": 2, "开发": 2, "实现": 2, "脚本": 2,
+            },
+            "Writing": {
+                "写": 1, "文章": 3, "作文": 3, "博客": 3, "邮件": 2, "故事": 2, "撰写": 3,
+            },
+            "Analysis": {
+                "分析": 3, "比较": 3, "对比": 3, "研究": 2, "调查": 2, "评估": 2, "解释": 2,
+            },
+            "Problem Solving": {
+                "错误": 3, "报错": 3, "漏洞": 2, "问题": 1, "修复": 3, "调试": 3, "解决": 2, "不工作": 3, "不能用": 3,
+            },
+            "Creative": {
+                "设计": 2, "创意": 3, "想象": 2, "想法": 2, "标志": 2,
+            },
+            "Data": {
+                "数据": 3, "表格": 2, "图表": 2, "电子表格": 3, "自动化": 2,
+            },
+        },
+        negation: { before: ["不", "别", "不要", "没有", "无需", "不用"], after: [] },
+    },
+};
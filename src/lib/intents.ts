@@ -0,0 +1,194 @@
+// Intent taxonomy and multilingual intent classifier
+// The single source of intent names for the rule-based engine, the API routes and the schema
+
+import { LEXICONS } from "./intent-lexicons";
+import { compileTerm, normalizeText, TOKEN } from "./lexicon-match";
+
+export const INTENTS = [
+    "Code Generation",
+    "Writing",
+    "Analysis",
+    "Problem Solving",
+    "Creative",
+    "Data",
+    "General",
+] as const;
+
+export type Intent = (typeof INTENTS)[number];
+
+// Clarifying questions live with the slots they fill, in slots.ts
+export interface IntentInfo {
+    outputFormat: string;
+}
+
+export const INTENT_INFO: Record<Intent, IntentInfo> = {
+    "Code Generation": {
+        outputFormat: "Complete, production-ready code with comments",
+    },
+    "Writing": {
+        outputFormat: "Well-structured written content",
+    },
+    "Analysis": {
+        outputFormat: "Detailed analysis with key findings and recommendations",
+    },
+    "Problem Solving": {
+        outputFormat: "Step-by-step solution with explanation",
+    },
+    "Creative": {
+        outputFormat: "Creative output with reasoning behind design choices",
+    },
+    "Data": {
+        outputFormat: "Implementation with sample data and usage instructions",
+    },
+    "General": {
+        outputFormat: "Clear, comprehensive response",
+    },
+};
+
+// Names used by older versions of the app, still present in saved history
+const INTENT_ALIASES: Record<string, Intent> = {
+    "writing & content": "Writing",
+    "analysis & research": "Analysis",
+    "data & automation": "Data",
+};
+
+export function normalizeIntent(name: string): Intent {
+    const lower = name.trim().toLowerCase();
+    return INTENTS.find((i) => i.toLowerCase() === lower) ?? INTENT_ALIASES[lower] ?? "General";
+}
+
+// --- Classifier ---
+
+export interface IntentScore {
+    intent: Intent;
+    score: number;        // summed keyword weights after negation
+    confidence: number;   // 0-1
+}
+
+export interface IntentClassification {
+    intent: Intent;
+    confidence: number;
+    ranked: IntentScore[];  // every intent with evidence, best first
+}
+
+interface WeightedTerm {
+    intent: Intent;
+    weight: number;
+    pattern: RegExp;
+    dense: boolean;       // script without word spacing, negation is checked per character
+}
+
+interface CompiledLexicon {
+    terms: WeightedTerm[];
+    before: string[];
+    after: string[];
+}
+
+const CLAUSE_BREAK = /[.!?,;:\n।॥。！？、，]/;
+
+const BEFORE_WINDOW = 3;  // tokens
+const AFTER_WINDOW = 2;
+const DENSE_WINDOW = 3;   // characters
+const FULL_CONFIDENCE_SCORE = 6;
+
+const compiled = new Map<string, CompiledLexicon>();
+
+function compileLexicon(code: string): CompiledLexicon {
+    const cached = compiled.get(code);
+    if (cached) return cached;
+
+    const lexicon = LEXICONS[code];
+    const terms: WeightedTerm[] = [];
+    const seen = new Set<string>();
+    for (const [intent, words] of Object.entries(lexicon.terms) as [Intent, Record<string, number>][]) {
+        for (const [word, weight] of Object.entries(words)) {
+            const { term, pattern, dense } = compileTerm(word);
+            if (seen.has(`${intent}:${term}`)) continue;
+            seen.add(`${intent}:${term}`);
+            terms.push({ intent, weight, dense, pattern });
+        }
+    }
+
+    const result = {
+        terms,
+        before: lexicon.negation.before.map(normalizeText),
+        after: lexicon.negation.after.map(normalizeText),
+    };
+    compiled.set(code, result);
+    return result;
+}
+
+function matchesNegator(token: string, negators: string[]): boolean {
+    return negators.some((n) => (n.endsWith("*") ? token.startsWith(n.slice(0, -1)) : token === n));
+}
+
+function isNegated(text: string, start: number, end: number, term: WeightedTerm, lexicons: CompiledLexicon[]): boolean {
+    // Negation never reaches across a clause boundary
+    let clauseStart = start;
+    while (clauseStart > 0 && !CLAUSE_BREAK.test(text[clauseStart - 1])) clauseStart--;
+    let clauseEnd = end;
+    while (clauseEnd < text.length && !CLAUSE_BREAK.test(text[clauseEnd])) clauseEnd++;
+
+    const before = text.slice(clauseStart, start);
+    const after = text.slice(end, clauseEnd);
+
+    if (term.dense) {
+        const beforeChars = before.slice(-DENSE_WINDOW);
+        const afterChars = after.slice(0, DENSE_WINDOW + 2);  // leaves room for a particle
+        return lexicons.some((lx) =>
+            lx.before.some((n) => beforeChars.includes(n)) || lx.after.some((n) => afterChars.includes(n))
+        );
+    }
+
+    const beforeTokens = (before.match(TOKEN) ?? []).slice(-BEFORE_WINDOW);
+    const afterTokens = (after.match(TOKEN) ?? []).slice(0, AFTER_WINDOW);
+    return lexicons.some((lx) =>
+        beforeTokens.some((t) => matchesNegator(t, lx.before)) ||
+        afterTokens.some((t) => matchesNegator(t, lx.after))
+    );
+}
+
+// English is always included because technical terms are usually spoken in English.
+// Without a language, every lexicon is tried.
+function lexiconsFor(language?: string): CompiledLexicon[] {
+    const base = language?.split("-")[0].toLowerCase();
+    const codes = base && LEXICONS[base] ? Array.from(new Set(["en", base])) : Object.keys(LEXICONS);
+    return codes.map(compileLexicon);
+}
+
+export function classifyIntent(text: string, language?: string): IntentClassification {
+    const normalized = normalizeText(text);
+    const lexicons = lexiconsFor(language);
+    const scores = new Map<Intent, number>();
+
+    for (const lexicon of lexicons) {
+        for (const term of lexicon.terms) {
+            for (const match of normalized.matchAll(term.pattern)) {
+                const start = match.index ?? 0;
+                const negated = isNegated(normalized, start, start + match[0].length, term, lexicons);
+                // A negated keyword ("don't write code") counts against its intent
+                const delta = negated ? -term.weight / 2 : term.weight;
+                scores.set(term.intent, (scores.get(term.intent) ?? 0) + delta);
+            }
+        }
+    }
+
+    const positive = [...scores.entries()].filter(([, score]) => score > 0);
+    const total = positive.reduce((sum, [, score]) => sum + score, 0);
+    const strength = (score: number) => Math.min(1, score / FULL_CONFIDENCE_SCORE);
+
+    const ranked: IntentScore[] = positive
+        .sort((a, b) => b[1] - a[1])
+        .map(([intent, score]) => ({
+            intent,
+            score,
+            confidence: Math.round((score / total) * strength(score) * 100) / 100,
+        }));
+
+    if (ranked.length === 0) return { intent: "General", confidence: 0, ranked };
+    return { intent: ranked[0].intent, confidence: ranked[0].confidence, ranked };
+}
+
+export function detectIntent(text: string, language?: string): Intent {
+    return classifyIntent(text, language).intent;
+}
@@ -0,0 +1,131 @@
+// Local wake word detection: nothing leaves the device
+// Microphone audio goes through an AudioWorklet (public/worklets/vad-processor.js) that posts each
+// short stretch of speech. Its MFCC features are compared by DTW with a few recordings of the wake phrase
+// the user made in Settings, and a close enough match wakes the app.
+
+import { CloseCapture, openWorkletCapture } from "./audio-capture";
+import { dtwDistance, Features, mfcc } from "./mfcc";
+import { DEFAULT_WAKE_OPTIONS, WakeDetector, WakeWordCallback, WakeWordOptions } from "./wake-word";
+
+const VAD_WORKLET_URL = "/worklets/vad-processor.js";
+const RECORD_TIMEOUT_MS = 6000;
+
+export const MIN_KEYWORD_RECORDINGS = 3;
+export const MAX_KEYWORD_RECORDINGS = 5;
+
+// How far past the recordings' own spread a match may be, from strictest to loosest sensitivity
+const MIN_SPREAD_FACTOR = 1.2;
+const MAX_SPREAD_FACTOR = 2.5;
+// A stretch much shorter or longer than the recordings is not the phrase
+const MAX_LENGTH_RATIO = 1.8;
+
+// Each stretch of speech the worklet hears, as samples at the context's rate
+function openCapture(onSegment: (samples: Float32Array, sampleRate: number) => void): Promise<CloseCapture> {
+    return openWorkletCapture<Float32Array>(VAD_WORKLET_URL, "vad-processor", onSegment);
+}
+
+/**
+ * Record one utterance of the wake phrase for the spotter: resolves with its features once the user
+ * has said something, or rejects if nothing is heard in time or the microphone is unavailable.
+ */
+export function recordKeywordTemplate(timeoutMs = RECORD_TIMEOUT_MS): Promise<Features> {
+    return new Promise((resolve, reject) => {
+        let close: CloseCapture | null = null;
+        let done = false;
+        const finish = (settle: () => void) => {
+            if (done) return;
+            done = true;
+            clearTimeout(timer);
+            close?.();
+            settle();
+        };
+        const timer = setTimeout(() => finish(() => reject(new Error("No speech heard"))), timeoutMs);
+        openCapture((samples, sampleRate) => finish(() => resolve(mfcc(samples, sampleRate))))
+            .then((closeCapture) => {
+                if (done) closeCapture();
+                else close = closeCapture;
+            })
+            .catch((error: Error) => finish(() => reject(error)));
+    });
+}
+
+function averageLength(templates: Features[]): number {
+    return templates.reduce((sum, t) => sum + t.length, 0) / (templates.length || 1);
+}
+
+// Mean distance between the recordings themselves: how much the user's own phrase varies
+function templateSpread(templates: Features[]): number {
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < templates.length; i++) {
+        for (let j = i + 1; j < templates.length; j++, pairs++) total += dtwDistance(templates[i], templates[j]);
+    }
+    return pairs ? total / pairs : Infinity;
+}
+
+export class KeywordSpotter implements WakeDetector {
+    private listening = false;
+    private onWake: WakeWordCallback | null = null;
+    private closeCapture: CloseCapture | null = null;
+    private session = 0;       // bumped by stop, so a microphone that opens late is closed again
+    private cooldown = false;
+    private options = DEFAULT_WAKE_OPTIONS;
+    private spread = Infinity;
+    private templateLength = 0;
+
+    // Recordings and sensitivity apply to the next stretch of speech
+    configure(options: WakeWordOptions) {
+        if (options.templates !== this.options.templates) {
+            this.spread = templateSpread(options.templates);
+            this.templateLength = averageLength(options.templates);
+        }
+        this.options = options;
+    }
+
+    // True when the features are as close to a recording as the recordings are to each other, give or take the sensitivity
+    matches(features: Features): boolean {
+        const { templates, sensitivity } = this.options;
+        if (templates.length < MIN_KEYWORD_RECORDINGS || !Number.isFinite(this.spread)) return false;
+        const ratio = features.length / this.templateLength;
+        if (ratio > MAX_LENGTH_RATIO || ratio < 1 / MAX_LENGTH_RATIO) return false;
+
+        const factor = MIN_SPREAD_FACTOR + (MAX_SPREAD_FACTOR - MIN_SPREAD_FACTOR) * Math.min(Math.max(sensitivity, 0), 1);
+        const best = Math.min(...templates.map((t) => dtwDistance(features, t)));
+        return best <= this.spread * factor;
+    }
+
+    start(onWake: WakeWordCallback) {
+        if (this.listening) return;
+        this.onWake = onWake;
+        this.listening = true;
+        const session = ++this.session;
+
+        openCapture((samples, sampleRate) => {
+            if (this.cooldown || !this.matches(mfcc(samples, sampleRate))) return;
+            this.cooldown = true;
+            this.onWake?.();
+            // Cooldown to prevent double triggers
+            setTimeout(() => {
+                this.cooldown = false;
+            }, this.options.cooldownMs);
+        }).then((close) => {
+            // Stopped while the microphone was opening
+            if (session === this.session) this.closeCapture = close;
+            else close();
+        }).catch((error) => {
+            console.error("Local wake word spotter unavailable:", error);
+            if (session === this.session) this.listening = false;
+        });
+    }
+
+    stop() {
+        this.listening = false;
+        this.session++;
+        this.closeCapture?.();
+        this.closeCapture = null;
+    }
+
+    isListening() {
+        return this.listening;
+    }
+}
@@ -0,0 +1,55 @@
+// Keyword matching shared by the intent classifier and the rule-based structurer
+// Term syntax in the lexicons:
+//   "word"  — whole word in Latin/Cyrillic; prefix in Indic scripts and Korean, where suffixes attach
+//   "stem*" — any word ending, in every script
+//   "word$" — whole word even in suffixing scripts (short words like "और" that prefix longer ones)
+// Chinese/Japanese have no spacing and Arabic attaches articles to the front of words, so their terms match anywhere
+
+// Scripts whose terms need a start boundary. A boundary only looks at letters of the term's own
+// script, so English keywords still match in code-mixed text ("写一个Python程序")
+const BOUNDED_SCRIPTS = ["Latin", "Cyrillic", "Devanagari", "Bengali", "Gujarati", "Tamil", "Telugu", "Kannada", "Malayalam", "Hangul"];
+const WHOLE_WORD_SCRIPTS = /[\p{Script=Latin}\p{Script=Cyrillic}\p{N}]$/u;
+const DENSE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+export const TOKEN = /[\p{L}\p{M}\p{N}'’]+/gu;
+
+export interface CompiledTerm {
+    term: string;         // normalized text without the * / $ suffix
+    pattern: RegExp;      // global, so use with matchAll or reset lastIndex
+    dense: boolean;       // script without word spacing
+}
+
+// Lowercase, drop Latin accents, Devanagari nukta and zero-width joiners so spelling variants compare equal
+export function normalizeText(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f\u093c\u200c\u200d]/g, "")
+        .replace(/\s+/g, " ")
+        .normalize("NFC");
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function compileTerm(word: string): CompiledTerm {
+    const stem = word.endsWith("*");
+    const whole = word.endsWith("$");
+    const term = normalizeText(stem || whole ? word.slice(0, -1) : word);
+
+    const dense = DENSE_SCRIPT.test(term);
+    const script = BOUNDED_SCRIPTS.find((name) => new RegExp(`^\\p{Script=${name}}`, "u").test(term));
+    const wordChar = `[\\p{Script=${script}}\\p{N}]`;
+    const start = script ? `(?<!${wordChar})` : "";
+    const end = script && (whole || (!stem && WHOLE_WORD_SCRIPTS.test(term))) ? `(?!${wordChar})` : "";
+    return { term, dense, pattern: new RegExp(start + escapeRegExp(term) + end, "gu") };
+}
+
+// True when any of the compiled terms occurs in already-normalized text
+export function containsAny(normalized: string, terms: CompiledTerm[]): boolean {
+    return terms.some((t) => {
+        t.pattern.lastIndex = 0;
+        return t.pattern.test(normalized);
+    });
+}
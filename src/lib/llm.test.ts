@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { LLMError, resolveProviderConfig } from "./llm";
+
+const ENV_KEYS = ["LLM_PROVIDER", "LLM_BASE_URL", "LLM_API_KEY", "OPENROUTER_API_KEY", "LLM_ALLOWED_BASE_URLS"];
+
+function setEnv(values: Record<string, string>) {
+    for (const key of ENV_KEYS) delete process.env[key];
+    Object.assign(process.env, values);
+}
+
+describe("resolveProviderConfig", () => {
+    afterEach(() => setEnv({}));
+
+    it("never sends the server's OpenRouter key to a client-chosen base URL", () => {
+        setEnv({ OPENROUTER_API_KEY: "server-key" });
+        const config = resolveProviderConfig({ baseUrl: "https://attacker.example" });
+        assert.equal(config?.baseUrl, "https://openrouter.ai/api/v1");
+        assert.equal(config?.apiKey, "server-key");
+    });
+
+    it("rejects a local server URL the server does not allow", () => {
+        setEnv({ LLM_API_KEY: "server-key" });
+        assert.throws(
+            () => resolveProviderConfig({ provider: "openai-compatible", baseUrl: "https://attacker.example/v1" }),
+            (err) => err instanceof LLMError && err.code === "config",
+        );
+    });
+
+    it("accepts defaults, LLM_BASE_URL and LLM_ALLOWED_BASE_URLS", () => {
+        setEnv({ LLM_BASE_URL: "http://gpu-box:8000/v1", LLM_ALLOWED_BASE_URLS: "http://lab:1234/v1, http://other:11434" });
+        assert.equal(resolveProviderConfig({ provider: "ollama", baseUrl: "http://localhost:11434/" })?.baseUrl, "http://localhost:11434");
+        assert.equal(resolveProviderConfig({ provider: "openai-compatible", baseUrl: "http://gpu-box:8000/v1" })?.baseUrl, "http://gpu-box:8000/v1");
+        assert.equal(resolveProviderConfig({ provider: "openai-compatible", baseUrl: "http://lab:1234/v1" })?.baseUrl, "http://lab:1234/v1");
+    });
+
+    it("goes rule-based without any OpenRouter key", () => {
+        setEnv({});
+        assert.equal(resolveProviderConfig({ baseUrl: "https://attacker.example" }), null);
+    });
+});
@@ -0,0 +1,509 @@
+// Shared LLM provider layer used by every API route
+// Supports OpenRouter, any OpenAI-compatible server (LM Studio, vLLM, llama.cpp) and Ollama
+// Handles per-route defaults, timeouts, retry with backoff, streaming and typed errors
+
+import type { ValidationIssue } from "./prompt-schema";
+
+export type LLMProviderKind = "openrouter" | "openai-compatible" | "ollama";
+
+export interface LLMMessage {
+    role: string;
+    content: string;
+}
+
+export interface LLMProviderConfig {
+    kind: LLMProviderKind;
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+}
+
+export interface LLMCallOptions {
+    maxTokens: number;
+    temperature: number;
+    timeoutMs: number;
+    retries: number;
+}
+
+export type LLMRoute = "converse" | "structure" | "format" | "translate" | "embed";
+
+// Each route tunes the model differently: chat is short and warm, formatting is long and precise
+export const ROUTE_DEFAULTS: Record<LLMRoute, LLMCallOptions> = {
+    converse: { maxTokens: 1000, temperature: 0.7, timeoutMs: 20000, retries: 1 },
+    structure: { maxTokens: 2000, temperature: 0.4, timeoutMs: 45000, retries: 2 },
+    format: { maxTokens: 3000, temperature: 0.3, timeoutMs: 60000, retries: 2 },
+    translate: { maxTokens: 1000, temperature: 0.1, timeoutMs: 20000, retries: 1 },
+    embed: { maxTokens: 0, temperature: 0, timeoutMs: 20000, retries: 1 },  // only timeout and retries apply
+};
+
+export const DEFAULT_BASE_URLS: Record<LLMProviderKind, string> = {
+    openrouter: "https://openrouter.ai/api/v1",
+    "openai-compatible": "http://localhost:1234/v1",
+    ollama: "http://localhost:11434",
+};
+
+export const DEFAULT_MODELS: Record<LLMProviderKind, string> = {
+    openrouter: "deepseek/deepseek-chat-v3-0324:free",
+    "openai-compatible": "local-model",
+    ollama: "llama3.1",
+};
+
+export const DEFAULT_EMBEDDING_MODELS: Record<LLMProviderKind, string> = {
+    openrouter: "openai/text-embedding-3-small",
+    "openai-compatible": "text-embedding-nomic-embed-text-v1.5",
+    ollama: "nomic-embed-text",
+};
+
+export type LLMErrorCode =
+    | "config"       // provider misconfigured (unknown kind, missing key)
+    | "auth"         // 401/403 from the provider
+    | "rate_limit"   // 429
+    | "timeout"      // request exceeded timeoutMs
+    | "network"      // server unreachable
+    | "http"         // any other non-2xx status
+    | "bad_response"  // 2xx but no usable content
+    | "invalid_output"; // content did not match the expected schema
+
+// Shape reported to the client in route JSON when the AI path fails
+export interface LLMErrorInfo {
+    code: LLMErrorCode;
+    provider?: LLMProviderKind;
+    status?: number;
+    message: string;
+    issues?: ValidationIssue[];   // schema problems, for invalid_output
+}
+
+export class LLMError extends Error {
+    readonly code: LLMErrorCode;
+    readonly provider: LLMProviderKind;
+    readonly status?: number;
+
+    constructor(code: LLMErrorCode, provider: LLMProviderKind, message: string, status?: number) {
+        super(message);
+        this.name = "LLMError";
+        this.code = code;
+        this.provider = provider;
+        this.status = status;
+    }
+
+    get retryable(): boolean {
+        if (this.code === "timeout" || this.code === "network" || this.code === "rate_limit") return true;
+        return this.code === "http" && this.status !== undefined && this.status >= 500;
+    }
+
+    toJSON(): LLMErrorInfo {
+        return { code: this.code, provider: this.provider, status: this.status, message: this.message };
+    }
+}
+
+// The model answered, but its content failed schema validation
+export class LLMOutputError extends LLMError {
+    readonly issues: ValidationIssue[];
+
+    constructor(provider: LLMProviderKind, message: string, issues: ValidationIssue[]) {
+        super("invalid_output", provider, message);
+        this.name = "LLMOutputError";
+        this.issues = issues;
+    }
+
+    toJSON(): LLMErrorInfo {
+        return { ...super.toJSON(), issues: this.issues };
+    }
+}
+
+export interface LLMProvider {
+    readonly kind: LLMProviderKind;
+    chat(messages: LLMMessage[], options: LLMCallOptions, signal: AbortSignal): Promise<string>;
+    // Yields content deltas as the model produces them
+    stream(messages: LLMMessage[], options: LLMCallOptions, signal: AbortSignal): AsyncGenerator<string>;
+    // One vector per text, in order
+    embed(texts: string[], model: string, signal: AbortSignal): Promise<number[][]>;
+}
+
+// Settings fields a client may send to pick a provider
+export interface LLMRequestFields {
+    apiKey?: string;
+    model?: string;
+    provider?: string;
+    baseUrl?: string;
+    embeddingModel?: string;
+}
+
+function isProviderKind(value: string): value is LLMProviderKind {
+    return value === "openrouter" || value === "openai-compatible" || value === "ollama";
+}
+
+function trimSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+async function post(
+    kind: LLMProviderKind,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal: AbortSignal
+): Promise<Response> {
+    let res: Response;
+    try {
+        res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (err) {
+        if (signal.aborted) throw new LLMError("timeout", kind, `Request to ${url} timed out`);
+        throw new LLMError("network", kind, `Could not reach ${url}: ${(err as Error).message}`);
+    }
+
+    if (!res.ok) {
+        const detail = (await res.text().catch(() => "")).slice(0, 300);
+        const code: LLMErrorCode =
+            res.status === 401 || res.status === 403 ? "auth" :
+                res.status === 429 ? "rate_limit" : "http";
+        throw new LLMError(code, kind, `${kind} error: ${res.status} ${detail}`.trim(), res.status);
+    }
+
+    return res;
+}
+
+async function postJSON(
+    kind: LLMProviderKind,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal: AbortSignal
+): Promise<unknown> {
+    const res = await post(kind, url, headers, body, signal);
+    try {
+        return await res.json();
+    } catch {
+        throw new LLMError("bad_response", kind, `${kind} returned invalid JSON`);
+    }
+}
+
+// Split a streamed response body into lines (SSE and NDJSON are both line-based)
+async function* readLines(kind: LLMProviderKind, res: Response, signal: AbortSignal): AsyncGenerator<string> {
+    if (!res.body) throw new LLMError("bad_response", kind, "Response had no body to stream");
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+        while (true) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await reader.read();
+            } catch (err) {
+                if (signal.aborted) throw new LLMError("timeout", kind, "Stream stalled and timed out");
+                throw new LLMError("network", kind, `Stream interrupted: ${(err as Error).message}`);
+            }
+            if (chunk.done) break;
+            buffer += decoder.decode(chunk.value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
+            for (const line of lines) {
+                if (line.trim()) yield line.trim();
+            }
+        }
+        if (buffer.trim()) yield buffer.trim();
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function checkVectors(kind: LLMProviderKind, vectors: unknown, count: number): number[][] {
+    if (!Array.isArray(vectors) || vectors.length !== count || !vectors.every((v) => Array.isArray(v) && v.length > 0)) {
+        throw new LLMError("bad_response", kind, `Expected ${count} embeddings in the response`);
+    }
+    return vectors as number[][];
+}
+
+// OpenAI chat completions — also used for OpenRouter, which only adds attribution headers
+class OpenAICompatibleProvider implements LLMProvider {
+    constructor(readonly kind: LLMProviderKind, private config: LLMProviderConfig) { }
+
+    async chat(messages: LLMMessage[], options: LLMCallOptions, signal: AbortSignal): Promise<string> {
+        const data = await postJSON(this.kind, this.url(), this.headers(), {
+            model: this.config.model,
+            messages,
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+        }, signal) as { choices?: { message?: { content?: string } }[] };
+
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== "string") {
+            throw new LLMError("bad_response", this.kind, "Response had no message content");
+        }
+        return content;
+    }
+
+    async *stream(messages: LLMMessage[], options: LLMCallOptions, signal: AbortSignal): AsyncGenerator<string> {
+        const res = await post(this.kind, this.url(), this.headers(), {
+            model: this.config.model,
+            messages,
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+            stream: true,
+        }, signal);
+
+        // Server-Sent Events: "data: {json}" lines, terminated by "data: [DONE]"
+        for await (const line of readLines(this.kind, res, signal)) {
+            if (!line.startsWith("data:")) continue;
+            const payload = line.slice(5).trim();
+            if (payload === "[DONE]") return;
+            try {
+                const event = JSON.parse(payload) as { choices?: { delta?: { content?: string } }[] };
+                const delta = event.choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            } catch {
+                // Keep-alive comments and partial frames are not fatal
+            }
+        }
+    }
+
+    async embed(texts: string[], model: string, signal: AbortSignal): Promise<number[][]> {
+        const data = await postJSON(this.kind, `${trimSlash(this.config.baseUrl)}/embeddings`, this.headers(), {
+            model,
+            input: texts,
+        }, signal) as { data?: { index?: number; embedding?: number[] }[] };
+
+        const items = [...(data.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+        return checkVectors(this.kind, items.map((item) => item.embedding), texts.length);
+    }
+
+    private url(): string {
+        return `${trimSlash(this.config.baseUrl)}/chat/completions`;
+    }
+
+    private headers(): Record<string, string> {
+        const headers: Record<string, string> = {};
+        if (this.config.apiKey) headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+        if (this.kind === "openrouter") {
+            headers["HTTP-Referer"] = "https://voiceprompt-pro.vercel.app";
+            headers["X-Title"] = "VoicePrompt Pro";
+        }
+        return headers;
+    }
+}
+
+// Ollama native chat API
+class OllamaProvider implements LLMProvider {
+    readonly kind = "ollama" as const;
+
+    constructor(private config: LLMProviderConfig) { }
+
+    async chat(messages: LLMMessage[], options: LLMCallOptions, signal: AbortSignal): Promise<string> {
+        const data = await postJSON(this.kind, `${trimSlash(this.config.baseUrl)}/api/chat`, {}, {
+            model: this.config.model,
+            messages,
+            stream: false,
+            options: { temperature: options.temperature, num_predict: options.maxTokens },
+        }, signal) as { message?: { content?: string } };
+
+        const content = data.message?.content;
+        if (typeof content !== "string") {
+            throw new LLMError("bad_response", this.kind, "Response had no message content");
+        }
+        return content;
+    }
+
+    async *stream(messages: LLMMessage[], options: LLMCallOptions, signal: AbortSignal): AsyncGenerator<string> {
+        const res = await post(this.kind, `${trimSlash(this.config.baseUrl)}/api/chat`, {}, {
+            model: this.config.model,
+            messages,
+            stream: true,
+            options: { temperature: options.temperature, num_predict: options.maxTokens },
+        }, signal);
+
+        // NDJSON: one {"message": {"content": "..."}, "done": false} object per line
+        for await (const line of readLines(this.kind, res, signal)) {
+            let event: { message?: { content?: string }; done?: boolean; error?: string };
+            try {
+                event = JSON.parse(line);
+            } catch {
+                continue;
+            }
+            if (event.error) throw new LLMError("http", this.kind, `ollama error: ${event.error}`);
+            if (event.message?.content) yield event.message.content;
+            if (event.done) return;
+        }
+    }
+
+    async embed(texts: string[], model: string, signal: AbortSignal): Promise<number[][]> {
+        const data = await postJSON(this.kind, `${trimSlash(this.config.baseUrl)}/api/embed`, {}, {
+            model,
+            input: texts,
+        }, signal) as { embeddings?: number[][] };
+
+        return checkVectors(this.kind, data.embeddings, texts.length);
+    }
+}
+
+export function createProvider(config: LLMProviderConfig): LLMProvider {
+    if (config.kind === "ollama") return new OllamaProvider(config);
+    return new OpenAICompatibleProvider(config.kind, config);
+}
+
+// Base URLs a client may choose: the provider defaults, LLM_BASE_URL and the comma-separated
+// LLM_ALLOWED_BASE_URLS. Any other URL would let a caller point the server, and its keys, anywhere.
+function allowedBaseUrls(): string[] {
+    const listed = (process.env.LLM_ALLOWED_BASE_URLS || "").split(",");
+    return [...Object.values(DEFAULT_BASE_URLS), process.env.LLM_BASE_URL || "", ...listed]
+        .map((url) => trimSlash(url.trim()))
+        .filter(Boolean);
+}
+
+/**
+ * Resolve the provider for a request: client-sent fields win, then server env
+ * (LLM_PROVIDER, LLM_BASE_URL, LLM_API_KEY / OPENROUTER_API_KEY, LLM_MODEL).
+ * OpenRouter always uses its own URL; a local server's client-sent base URL must be allowed.
+ * Returns null when no provider is usable, so the route should go rule-based.
+ */
+export function resolveProviderConfig(fields: LLMRequestFields): LLMProviderConfig | null {
+    const requested = fields.provider?.trim() || process.env.LLM_PROVIDER || "openrouter";
+    if (!isProviderKind(requested)) {
+        throw new LLMError("config", "openrouter", `Unknown LLM provider: ${requested}`);
+    }
+
+    // Without an explicit provider, the client's key and model are OpenRouter settings
+    // and must not leak into a local server chosen through server env
+    const useClientFields = !!fields.provider?.trim() || requested === "openrouter";
+    const apiKey = (useClientFields && fields.apiKey?.trim()) ||
+        (requested === "openrouter" ? process.env.OPENROUTER_API_KEY : process.env.LLM_API_KEY) || "";
+
+    // OpenRouter cannot be used without a key; local servers usually need none
+    if (requested === "openrouter" && !apiKey) return null;
+
+    const clientBaseUrl = requested !== "openrouter" && useClientFields ? trimSlash(fields.baseUrl?.trim() || "") : "";
+    if (clientBaseUrl && !allowedBaseUrls().includes(clientBaseUrl)) {
+        throw new LLMError("config", requested, `Base URL not allowed: ${clientBaseUrl}. Add it to LLM_ALLOWED_BASE_URLS on the server.`);
+    }
+    const envBaseUrl = requested === "openrouter" ? "" : process.env.LLM_BASE_URL;
+
+    return {
+        kind: requested,
+        baseUrl: clientBaseUrl || envBaseUrl || DEFAULT_BASE_URLS[requested],
+        apiKey,
+        model: (useClientFields && fields.model?.trim()) || process.env.LLM_MODEL || DEFAULT_MODELS[requested],
+    };
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a chat completion with the route's defaults, a per-attempt timeout and
+ * exponential backoff on retryable failures. Always throws LLMError on failure.
+ */
+export async function chatCompletion(
+    config: LLMProviderConfig,
+    messages: LLMMessage[],
+    route: LLMRoute,
+    overrides: Partial<LLMCallOptions> = {}
+): Promise<string> {
+    const options = { ...ROUTE_DEFAULTS[route], ...overrides };
+    const provider = createProvider(config);
+
+    let lastError: LLMError | null = null;
+    for (let attempt = 0; attempt <= options.retries; attempt++) {
+        if (attempt > 0) await sleep(500 * 2 ** (attempt - 1));
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+        try {
+            return await provider.chat(messages, options, controller.signal);
+        } catch (err) {
+            lastError = err instanceof LLMError
+                ? err
+                : new LLMError("bad_response", config.kind, (err as Error).message);
+            if (!lastError.retryable) break;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    throw lastError!;
+}
+
+/**
+ * Embed texts with the provider's embedding endpoint, with the same timeout and retry policy as
+ * chat. `model` defaults to the provider's usual embedding model. Always throws LLMError on failure.
+ */
+export async function embedTexts(config: LLMProviderConfig, texts: string[], model?: string): Promise<number[][]> {
+    const options = ROUTE_DEFAULTS.embed;
+    const provider = createProvider(config);
+
+    let lastError: LLMError | null = null;
+    for (let attempt = 0; attempt <= options.retries; attempt++) {
+        if (attempt > 0) await sleep(500 * 2 ** (attempt - 1));
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+        try {
+            return await provider.embed(texts, model?.trim() || DEFAULT_EMBEDDING_MODELS[config.kind], controller.signal);
+        } catch (err) {
+            lastError = err instanceof LLMError
+                ? err
+                : new LLMError("bad_response", config.kind, (err as Error).message);
+            if (!lastError.retryable) break;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    throw lastError!;
+}
+
+/**
+ * Stream a chat completion as content deltas. timeoutMs acts as an idle timeout
+ * between chunks; retries only happen before the first delta has been yielded,
+ * since callers may already have shown partial output.
+ */
+export async function* chatCompletionStream(
+    config: LLMProviderConfig,
+    messages: LLMMessage[],
+    route: LLMRoute,
+    overrides: Partial<LLMCallOptions> = {},
+    signal?: AbortSignal
+): AsyncGenerator<string> {
+    const options = { ...ROUTE_DEFAULTS[route], ...overrides };
+    const provider = createProvider(config);
+
+    let lastError: LLMError | null = null;
+    for (let attempt = 0; attempt <= options.retries; attempt++) {
+        if (attempt > 0) await sleep(500 * 2 ** (attempt - 1));
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        signal?.addEventListener("abort", abort);
+        let timer = setTimeout(abort, options.timeoutMs);
+        let started = false;
+        try {
+            for await (const delta of provider.stream(messages, options, controller.signal)) {
+                started = true;
+                clearTimeout(timer);
+                timer = setTimeout(abort, options.timeoutMs);
+                yield delta;
+            }
+            return;
+        } catch (err) {
+            lastError = err instanceof LLMError
+                ? err
+                : new LLMError("bad_response", config.kind, (err as Error).message);
+            if (started || signal?.aborted || !lastError.retryable) break;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", abort);
+        }
+    }
+
+    throw lastError!;
+}
+
+// Normalize anything thrown in an AI branch into the JSON shape routes report
+export function describeLLMError(err: unknown): LLMErrorInfo {
+    if (err instanceof LLMError) return err.toJSON();
+    return { code: "bad_response", message: (err as Error)?.message || String(err) };
+}
@@ -0,0 +1,142 @@
+// MFCC features and dynamic time warping, for the local wake word spotter (keyword-spotter.ts)
+// Audio is resampled to 16 kHz and cut into 25 ms frames every 10 ms; each frame becomes 12 cepstral
+// coefficients. The loudness coefficient is dropped and the per-utterance mean subtracted, so the same
+// phrase said louder, softer or through another microphone still compares close.
+
+export type Features = number[][];   // one row of coefficients per 10 ms frame
+
+const FEATURE_RATE = 16000;
+const FRAME_SIZE = 400;              // 25 ms
+const HOP_SIZE = 160;                // 10 ms
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const COEFFICIENTS = 12;             // c1-c12; c0 is overall loudness
+const PRE_EMPHASIS = 0.97;
+
+// Linear interpolation, averaging over the step when downsampling so high frequencies do not fold back
+function resample(samples: Float32Array, fromRate: number): Float32Array {
+    if (fromRate === FEATURE_RATE) return samples;
+    const step = fromRate / FEATURE_RATE;
+    const out = new Float32Array(Math.floor(samples.length / step));
+    for (let i = 0; i < out.length; i++) {
+        const start = i * step;
+        if (step > 1) {
+            let sum = 0;
+            let count = 0;
+            for (let j = Math.floor(start); j < Math.min(samples.length, Math.floor(start + step)); j++, count++) sum += samples[j];
+            out[i] = count ? sum / count : 0;
+        } else {
+            const j = Math.floor(start);
+            const t = start - j;
+            out[i] = samples[j] * (1 - t) + (samples[j + 1] ?? samples[j]) * t;
+        }
+    }
+    return out;
+}
+
+// In-place radix-2 FFT
+function fft(re: Float64Array, im: Float64Array) {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < size / 2; k++) {
+                const cos = Math.cos(angle * k);
+                const sin = Math.sin(angle * k);
+                const a = start + k;
+                const b = a + size / 2;
+                const tre = re[b] * cos - im[b] * sin;
+                const tim = re[b] * sin + im[b] * cos;
+                re[b] = re[a] - tre;
+                im[b] = im[a] - tim;
+                re[a] += tre;
+                im[a] += tim;
+            }
+        }
+    }
+}
+
+const melOf = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const hzOf = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters spaced evenly on the mel scale, as weights over FFT bins
+function melFilterbank(): number[][] {
+    const bins = FFT_SIZE / 2 + 1;
+    const top = melOf(FEATURE_RATE / 2);
+    const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) => Math.floor(((FFT_SIZE + 1) * hzOf((top * i) / (MEL_BANDS + 1))) / FEATURE_RATE));
+    return Array.from({ length: MEL_BANDS }, (_, m) => {
+        const [left, center, right] = [edges[m], edges[m + 1], edges[m + 2]];
+        return Array.from({ length: bins }, (_, k) => {
+            if (k < left || k > right) return 0;
+            if (k <= center) return center === left ? 1 : (k - left) / (center - left);
+            return right === center ? 1 : (right - k) / (right - center);
+        });
+    });
+}
+
+const HAMMING = Array.from({ length: FRAME_SIZE }, (_, i) => 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+let filterbank: number[][] | null = null;
+
+/** MFCC rows for mono samples at any sample rate; empty when the audio is shorter than one frame. */
+export function mfcc(samples: Float32Array, sampleRate: number): Features {
+    const audio = resample(samples, sampleRate);
+    filterbank ??= melFilterbank();
+    const rows: Features = [];
+
+    for (let start = 0; start + FRAME_SIZE <= audio.length; start += HOP_SIZE) {
+        const re = new Float64Array(FFT_SIZE);
+        const im = new Float64Array(FFT_SIZE);
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const previous = start + i > 0 ? audio[start + i - 1] : 0;
+            re[i] = (audio[start + i] - PRE_EMPHASIS * previous) * HAMMING[i];
+        }
+        fft(re, im);
+
+        const energies = filterbank.map((weights) => {
+            let sum = 0;
+            for (let k = 0; k < weights.length; k++) if (weights[k]) sum += weights[k] * (re[k] * re[k] + im[k] * im[k]);
+            return Math.log(sum + 1e-10);
+        });
+        // DCT-II of the log mel energies
+        rows.push(Array.from({ length: COEFFICIENTS }, (_, c) =>
+            energies.reduce((sum, e, m) => sum + e * Math.cos((Math.PI * (c + 1) * (m + 0.5)) / MEL_BANDS), 0)));
+    }
+
+    // Cepstral mean normalization, rounded to keep saved recordings small
+    const means = Array.from({ length: COEFFICIENTS }, (_, c) => rows.reduce((sum, row) => sum + row[c], 0) / (rows.length || 1));
+    return rows.map((row) => row.map((value, c) => Math.round((value - means[c]) * 1000) / 1000));
+}
+
+function frameDistance(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return Math.sqrt(sum);
+}
+
+/**
+ * Dynamic time warping distance: the cheapest alignment of the two utterances frame by frame, so the
+ * same phrase said faster or slower still lines up. Normalized by the combined length, so distances of
+ * different utterances compare.
+ */
+export function dtwDistance(a: Features, b: Features): number {
+    if (a.length === 0 || b.length === 0) return Infinity;
+    let previous = new Float64Array(b.length + 1).fill(Infinity);
+    previous[0] = 0;
+    for (let i = 1; i <= a.length; i++) {
+        const row = new Float64Array(b.length + 1).fill(Infinity);
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = frameDistance(a[i - 1], b[j - 1]) + Math.min(previous[j], row[j - 1], previous[j - 1]);
+        }
+        previous = row;
+    }
+    return previous[b.length] / (a.length + b.length);
+}
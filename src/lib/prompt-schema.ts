@@ -0,0 +1,131 @@
+// Runtime schema for StructuredPrompt
+// Validates model output before it reaches the client, with issues precise enough to feed back to the model
+
+import { INTENTS } from "./intents";
+import type { StructuredPrompt } from "./structurer";
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; issues: ValidationIssue[] };
+
+type FieldRule =
+    | { type: "string"; minLength?: number; maxLength?: number }
+    | { type: "string[]"; maxItems?: number; itemMaxLength?: number }
+    | { type: "enum"; values: readonly string[] }
+    | { type: "number"; min: number; max: number };
+
+export const STRUCTURED_PROMPT_SCHEMA: Record<keyof StructuredPrompt, FieldRule> = {
+    title: { type: "string", minLength: 1, maxLength: 80 },
+    intent: { type: "enum", values: INTENTS },
+    context: { type: "string", minLength: 1 },
+    requirements: { type: "string[]", maxItems: 30, itemMaxLength: 500 },
+    constraints: { type: "string[]", maxItems: 30, itemMaxLength: 500 },
+    outputFormat: { type: "string", minLength: 1, maxLength: 500 },
+    fullPrompt: { type: "string", minLength: 1 },
+    qualityScore: { type: "number", min: 0, max: 100 },
+};
+
+// Returns the normalized value, or pushes issues and returns undefined
+function checkField(path: string, rule: FieldRule, value: unknown, issues: ValidationIssue[]): unknown {
+    switch (rule.type) {
+        case "string": {
+            if (typeof value !== "string") {
+                issues.push({ path, message: `must be a string, got ${describe(value)}` });
+                return undefined;
+            }
+            const trimmed = value.trim();
+            if (rule.minLength !== undefined && trimmed.length < rule.minLength) {
+                issues.push({ path, message: "must not be empty" });
+            } else if (rule.maxLength !== undefined && trimmed.length > rule.maxLength) {
+                issues.push({ path, message: `must be at most ${rule.maxLength} characters` });
+            }
+            return trimmed;
+        }
+        case "string[]": {
+            if (!Array.isArray(value)) {
+                issues.push({ path, message: `must be an array of strings, got ${describe(value)}` });
+                return undefined;
+            }
+            if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+                issues.push({ path, message: `must have at most ${rule.maxItems} items` });
+            }
+            value.forEach((item, i) => {
+                if (typeof item !== "string" || item.trim().length === 0) {
+                    issues.push({ path: `${path}[${i}]`, message: "must be a non-empty string" });
+                } else if (rule.itemMaxLength !== undefined && item.length > rule.itemMaxLength) {
+                    issues.push({ path: `${path}[${i}]`, message: `must be at most ${rule.itemMaxLength} characters` });
+                }
+            });
+            return value.map((item) => (typeof item === "string" ? item.trim() : item));
+        }
+        case "enum": {
+            // Models often change the case ("code generation"), which is harmless
+            const match = typeof value === "string"
+                ? rule.values.find((v) => v.toLowerCase() === value.trim().toLowerCase())
+                : undefined;
+            if (!match) {
+                issues.push({ path, message: `must be one of: ${rule.values.join(", ")}; got ${describe(value)}` });
+            }
+            return match;
+        }
+        case "number": {
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                issues.push({ path, message: `must be a number, got ${describe(value)}` });
+                return undefined;
+            }
+            if (value < rule.min || value > rule.max) {
+                issues.push({ path, message: `must be between ${rule.min} and ${rule.max}, got ${value}` });
+            }
+            return Math.round(value);
+        }
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === undefined) return "nothing";
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "an array";
+    return typeof value === "string" ? JSON.stringify(value.slice(0, 40)) : typeof value;
+}
+
+export function validateStructuredPrompt(input: unknown): ValidationResult<StructuredPrompt> {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+        return { ok: false, issues: [{ path: "$", message: `must be a JSON object, got ${describe(input)}` }] };
+    }
+
+    const issues: ValidationIssue[] = [];
+    const record = input as Record<string, unknown>;
+    const value: Record<string, unknown> = {};
+    for (const [key, rule] of Object.entries(STRUCTURED_PROMPT_SCHEMA)) {
+        value[key] = checkField(key, rule, record[key], issues);
+    }
+
+    if (issues.length > 0) return { ok: false, issues };
+    return { ok: true, value: value as unknown as StructuredPrompt };
+}
+
+// Pull the JSON object out of a model answer (tolerates prose and ```json fences) and validate it
+export function parseStructuredPrompt(text: string): ValidationResult<StructuredPrompt> {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start < 0 || end <= start) {
+        return { ok: false, issues: [{ path: "$", message: "response contained no JSON object" }] };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text.slice(start, end + 1));
+    } catch (err) {
+        return { ok: false, issues: [{ path: "$", message: `invalid JSON: ${(err as Error).message}` }] };
+    }
+    return validateStructuredPrompt(parsed);
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map((i) => `- ${i.path}: ${i.message}`).join("\n");
+}
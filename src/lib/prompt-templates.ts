@@ -0,0 +1,263 @@
+// User-authored prompt templates for extra target LLMs
+// Mustache-style placeholders over StructuredPrompt fields:
+//   {{context}}                          — a field value
+//   {{#requirements}}- {{.}}{{/requirements}} — loop over a list ({{@index}} is 1-based)
+//   {{#constraints}}...{{/constraints}}  — also works as "if non-empty"
+//   {{^constraints}}...{{/constraints}}  — "if empty"
+
+import { FormattedPrompt, listFormatters, registerFormatter, unregisterFormatter } from "./formatters";
+import { StructuredPrompt } from "./structurer";
+
+export interface PromptTemplate {
+    id: string;
+    name: string;          // tab label, e.g. "Llama 3"
+    icon: string;
+    color: string;
+    description: string;
+    template: string;
+}
+
+export const TEMPLATE_FIELDS: (keyof StructuredPrompt)[] = [
+    "title", "intent", "context", "requirements", "constraints", "outputFormat", "fullPrompt", "qualityScore",
+];
+
+// Prefix keeps template ids from colliding with built-in formatter ids
+const FORMATTER_PREFIX = "template:";
+
+// --- Parsing ---
+
+type Node =
+    | { kind: "text"; text: string }
+    | { kind: "var"; name: string }
+    | { kind: "section"; name: string; inverted: boolean; children: Node[] };
+
+export class TemplateSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TemplateSyntaxError";
+    }
+}
+
+const TAG = /\{\{\s*([#^/]?)\s*([\w.@]+)\s*\}\}/g;
+
+function parse(template: string): Node[] {
+    const root: Node[] = [];
+    const stack: { name: string; children: Node[] }[] = [{ name: "", children: root }];
+    let last = 0;
+
+    for (const match of template.matchAll(TAG)) {
+        const [tag, sigil, name] = match;
+        const current = stack[stack.length - 1];
+        let textEnd = match.index;
+        let tagEnd = match.index + tag.length;
+
+        // A section tag alone on its line removes the whole line, so loops don't leave blank lines
+        if (sigil) {
+            const lineStart = template.lastIndexOf("\n", match.index - 1) + 1;
+            const newline = template.indexOf("\n", tagEnd);
+            const lineEnd = newline < 0 ? template.length : newline;
+            if (!template.slice(lineStart, match.index).trim() && !template.slice(tagEnd, lineEnd).trim()) {
+                textEnd = lineStart;
+                tagEnd = newline < 0 ? template.length : newline + 1;
+            }
+        }
+
+        if (textEnd > last) current.children.push({ kind: "text", text: template.slice(last, textEnd) });
+        last = tagEnd;
+
+        if (sigil === "#" || sigil === "^") {
+            const section: Node = { kind: "section", name, inverted: sigil === "^", children: [] };
+            current.children.push(section);
+            stack.push({ name, children: section.children });
+        } else if (sigil === "/") {
+            if (stack.length === 1 || current.name !== name) {
+                throw new TemplateSyntaxError(`Unexpected {{/${name}}}${stack.length > 1 ? ` — {{#${current.name}}} is still open` : ""}`);
+            }
+            stack.pop();
+        } else {
+            current.children.push({ kind: "var", name });
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new TemplateSyntaxError(`{{#${stack[stack.length - 1].name}}} is never closed`);
+    }
+    if (last < template.length) root.push({ kind: "text", text: template.slice(last) });
+    return root;
+}
+
+// --- Rendering ---
+
+interface Scope {
+    value: unknown;
+    index?: number;
+}
+
+function lookup(name: string, scopes: Scope[]): unknown {
+    const top = scopes[scopes.length - 1];
+    if (name === ".") return top.value;
+    if (name === "@index") return top.index !== undefined ? top.index + 1 : "";
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        const v = scopes[i].value;
+        if (v && typeof v === "object" && !Array.isArray(v) && name in v) {
+            return (v as Record<string, unknown>)[name];
+        }
+    }
+    return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === "string") return value.trim().length > 0;
+    return !!value;
+}
+
+function renderNodes(nodes: Node[], scopes: Scope[]): string {
+    let out = "";
+    for (const node of nodes) {
+        if (node.kind === "text") {
+            out += node.text;
+        } else if (node.kind === "var") {
+            const value = lookup(node.name, scopes);
+            out += Array.isArray(value) ? value.join(", ") : value === undefined || value === null ? "" : String(value);
+        } else {
+            const value = lookup(node.name, scopes);
+            if (node.inverted) {
+                if (!isTruthy(value)) out += renderNodes(node.children, scopes);
+            } else if (Array.isArray(value)) {
+                value.forEach((item, index) => {
+                    out += renderNodes(node.children, [...scopes, { value: item, index }]);
+                });
+            } else if (isTruthy(value)) {
+                out += renderNodes(node.children, [...scopes, { value }]);
+            }
+        }
+    }
+    return out;
+}
+
+export function renderTemplate(template: string, prompt: StructuredPrompt): string {
+    return renderNodes(parse(template), [{ value: prompt }]).trim();
+}
+
+// Returns a human-readable problem, or null when the template is usable
+export function validateTemplate(template: string): string | null {
+    try {
+        const unknown = new Set<string>();
+        const walk = (nodes: Node[], depth: number) => {
+            for (const node of nodes) {
+                if (node.kind === "text") continue;
+                const local = node.name === "." || node.name === "@index";
+                if (!local && depth === 0 && !TEMPLATE_FIELDS.includes(node.name as keyof StructuredPrompt)) {
+                    unknown.add(node.name);
+                }
+                if (node.kind === "section") walk(node.children, depth + 1);
+            }
+        };
+        walk(parse(template), 0);
+        if (unknown.size > 0) return `Unknown field: ${[...unknown].join(", ")}`;
+        return null;
+    } catch (err) {
+        return (err as Error).message;
+    }
+}
+
+// --- Registry integration ---
+
+export function templateToFormatter(t: PromptTemplate): (prompt: StructuredPrompt) => FormattedPrompt {
+    return (prompt) => {
+        let formattedPrompt: string;
+        try {
+            formattedPrompt = renderTemplate(t.template, prompt);
+        } catch (err) {
+            formattedPrompt = `⚠️ Template error: ${(err as Error).message}`;
+        }
+        return { llmName: t.name, llmIcon: t.icon, color: t.color, description: t.description, formattedPrompt };
+    };
+}
+
+// Make the registry's template formatters match the given list
+export function syncTemplateFormatters(templates: PromptTemplate[]): void {
+    const wanted = new Set(templates.map((t) => FORMATTER_PREFIX + t.id));
+    for (const entry of listFormatters()) {
+        if (entry.id.startsWith(FORMATTER_PREFIX) && !wanted.has(entry.id)) unregisterFormatter(entry.id);
+    }
+    for (const t of templates) {
+        registerFormatter(FORMATTER_PREFIX + t.id, templateToFormatter(t));
+    }
+}
+
+// --- Starter templates ---
+
+export const TEMPLATE_PRESETS: Omit<PromptTemplate, "id">[] = [
+    {
+        name: "Llama 3",
+        icon: "🦙",
+        color: "#0ea5e9",
+        description: "Llama 3 chat tokens with a system header",
+        template: `<|begin_of_text|><|start_header_id|>system<|end_header_id|>
+
+You are an expert {{intent}} assistant.<|eot_id|><|start_header_id|>user<|end_header_id|>
+
+{{context}}
+{{#requirements}}
+- {{.}}
+{{/requirements}}
+{{#constraints}}
+Do not violate: {{.}}
+{{/constraints}}
+
+Output: {{outputFormat}}<|eot_id|><|start_header_id|>assistant<|end_header_id|>`,
+    },
+    {
+        name: "Mistral",
+        icon: "🌬️",
+        color: "#f97316",
+        description: "[INST] instruction block",
+        template: `[INST] {{context}}
+{{#requirements}}
+{{@index}}. {{.}}
+{{/requirements}}
+{{#constraints}}
+Constraint: {{.}}
+{{/constraints}}
+
+Respond with: {{outputFormat}} [/INST]`,
+    },
+    {
+        name: "Qwen",
+        icon: "🐉",
+        color: "#6366f1",
+        description: "ChatML with im_start/im_end",
+        template: `<|im_start|>system
+You are Qwen, an expert in {{intent}}.<|im_end|>
+<|im_start|>user
+{{context}}
+{{#requirements}}
+- {{.}}
+{{/requirements}}
+{{^constraints}}
+No special constraints.
+{{/constraints}}
+{{#constraints}}
+- Avoid: {{.}}
+{{/constraints}}
+Expected output: {{outputFormat}}<|im_end|>
+<|im_start|>assistant`,
+    },
+    {
+        name: "Blank",
+        icon: "📝",
+        color: "#8888a0",
+        description: "Start from scratch",
+        template: `{{context}}
+
+{{#requirements}}
+- {{.}}
+{{/requirements}}`,
+    },
+];
+
+export function createTemplate(preset: Omit<PromptTemplate, "id">): PromptTemplate {
+    return { ...preset, id: Date.now().toString(36) + Math.random().toString(36).substring(2, 7) };
+}
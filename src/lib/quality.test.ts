@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzePrompt } from "./quality";
+
+function conflicts(requirements: string[], constraints: string[]) {
+    const { checks } = analyzePrompt({ intent: "Code Generation", context: "Build a todo app", requirements, constraints, outputFormat: "Code" });
+    return checks.find((c) => c.dimension === "conflicts")!;
+}
+
+describe("analyzePrompt conflicts", () => {
+    it("finds a negated object that ends a sentence", () => {
+        const check = conflicts(["store the todos in a database"], ["no database."]);
+        assert.equal(check.passed, false);
+        assert.equal(check.detail, 'Conflicts: requires and excludes "database"');
+    });
+
+    it("keeps the signs of names like c++", () => {
+        assert.equal(conflicts(["write it in c++"], ["don't use c++"]).passed, false);
+        assert.equal(conflicts(["write it in c"], ["don't use c++"]).passed, true);
+    });
+});
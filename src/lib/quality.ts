@@ -0,0 +1,192 @@
+// Prompt quality analyzer
+// Scores a structured prompt per dimension and says what to add, instead of one length-based number.
+// Reads the English prompt (non-English speech is translated before structuring).
+
+import { INTENT_INFO, normalizeIntent } from "./intents";
+import { CompiledTerm, compileTerm, containsAny, normalizeText, TOKEN } from "./lexicon-match";
+import { AUDIENCE_CUES } from "./slots";
+import type { StructuredPrompt } from "./structurer";
+
+export type QualityDimension = "specificity" | "audience" | "outputFormat" | "ambiguity" | "conflicts" | "examples";
+
+export interface QualityCheck {
+    dimension: QualityDimension;
+    label: string;
+    passed: boolean;
+    points: number;
+    maxPoints: number;
+    detail: string;         // what was found
+    suggestion?: string;    // what to add, for failed checks
+    question?: string;      // asked back in the conversation by "Ask me about this"
+}
+
+export interface QualityReport {
+    score: number;          // 0-100 over the checks that apply to the intent
+    checks: QualityCheck[];
+}
+
+type PromptFields = Pick<StructuredPrompt, "intent" | "context" | "requirements" | "constraints" | "outputFormat">;
+
+const WEIGHTS: Record<QualityDimension, number> = {
+    specificity: 30,
+    audience: 15,
+    outputFormat: 15,
+    ambiguity: 15,
+    conflicts: 15,
+    examples: 10,
+};
+
+// Who the output is for only matters when someone reads it
+const AUDIENCE_INTENTS = new Set(["Writing", "Creative", "Analysis", "General"]);
+
+const AUDIENCE_TERMS = AUDIENCE_CUES.map(compileTerm);
+
+const FORMAT_TERMS = [
+    "list", "bullet*", "table", "json", "yaml", "csv", "markdown", "paragraph*", "step by step", "step-by-step", "steps",
+    "outline", "summary", "words", "pages", "sentences", "email", "essay", "report", "slides", "diagram", "chart",
+    "code block", "single file", "one file", "format",
+].map(compileTerm);
+
+const VAGUE_TERMS = [
+    "something", "stuff", "things", "etc", "whatever", "somehow", "some kind of", "kind of", "sort of", "maybe",
+    "good", "nice", "better", "properly", "a bit", "basic", "simple stuff", "anything", "various", "appropriate",
+].map(compileTerm);
+
+const EXAMPLE_TERMS = ["example*", "e.g", "for instance", "such as", "sample*", "like this", "similar to"].map(compileTerm);
+
+// Pairs that pull the answer in opposite directions
+const OPPOSING_TERMS: [string, CompiledTerm[], string, CompiledTerm[]][] = [
+    ["short", ["short", "brief", "concise", "one line", "quick summary"].map(compileTerm),
+        "detailed", ["detailed", "in-depth", "in detail", "comprehensive", "thorough", "long"].map(compileTerm)],
+    ["simple", ["simple", "minimal", "basic", "lightweight"].map(compileTerm),
+        "feature-rich", ["advanced", "every feature", "all features", "enterprise", "full-featured"].map(compileTerm)],
+    ["free", ["free", "open-source", "open source"].map(compileTerm),
+        "paid", ["paid", "premium", "subscription", "license*"].map(compileTerm)],
+    ["formal", ["formal", "professional"].map(compileTerm),
+        "casual", ["casual", "informal", "funny", "slang"].map(compileTerm)],
+];
+
+const NEGATED_OBJECT = /\b(?:no|without|avoid|never|don't use|do not use|don't want|dont want|not)\s+(?:a |an |the |any )?([\p{L}\p{N}.+#-]{3,})/giu;
+
+function matchedTerms(normalized: string, terms: CompiledTerm[]): string[] {
+    return terms.filter((t) => containsAny(normalized, [t])).map((t) => t.term);
+}
+
+function check(
+    dimension: QualityDimension,
+    label: string,
+    fraction: number,
+    detail: string,
+    suggestion: string,
+    question: string
+): QualityCheck {
+    const maxPoints = WEIGHTS[dimension];
+    const points = Math.round(Math.max(0, Math.min(1, fraction)) * maxPoints);
+    const passed = fraction >= 0.7;
+    return passed
+        ? { dimension, label, passed, points, maxPoints, detail }
+        : { dimension, label, passed, points, maxPoints, detail, suggestion, question };
+}
+
+function checkSpecificity(prompt: PromptFields, text: string): QualityCheck {
+    const words = prompt.context.match(TOKEN)?.length ?? 0;
+    // Numbers, quoted text and mid-sentence capitals (names, frameworks, versions)
+    const details = (text.match(/\d+|"[^"]+"|'[^']+'|(?<=[\p{L}\p{N},]\s+)[A-Z][\p{L}\p{N}.+#]+/gu) ?? []).length;
+
+    const fraction =
+        (words >= 25 ? 1 : words >= 12 ? 0.6 : 0.2) / 3 +
+        (prompt.requirements.length >= 3 ? 1 : prompt.requirements.length >= 1 ? 0.5 : 0) / 3 +
+        (details >= 2 ? 1 : details === 1 ? 0.5 : 0) / 3;
+
+    const detail = `${words} words, ${prompt.requirements.length} requirement${prompt.requirements.length === 1 ? "" : "s"}, ${details} concrete detail${details === 1 ? "" : "s"}`;
+    return check(
+        "specificity", "Specific enough", fraction, detail,
+        "Name the exact technologies, sizes, numbers or features you expect.",
+        "Can you add specifics — names, numbers, versions or the exact features you need?"
+    );
+}
+
+function checkAudience(normalized: string): QualityCheck {
+    const found = matchedTerms(normalized, AUDIENCE_TERMS);
+    return check(
+        "audience", "Audience defined", found.length > 0 ? 1 : 0,
+        found.length > 0 ? `Mentions ${found.slice(0, 2).join(", ")}` : "No reader or audience mentioned",
+        "Say who the result is for — their role and how much they already know.",
+        "Who is this for, and how familiar are they with the topic?"
+    );
+}
+
+function checkOutputFormat(prompt: PromptFields, normalized: string): QualityCheck {
+    const found = matchedTerms(normalized, FORMAT_TERMS);
+    // An output format other than the intent default was chosen from something the user said
+    const custom = prompt.outputFormat !== INTENT_INFO[normalizeIntent(prompt.intent)].outputFormat;
+    const fraction = found.length > 0 ? 1 : custom ? 0.7 : 0;
+    return check(
+        "outputFormat", "Output format stated", fraction,
+        found.length > 0 ? `Asks for ${found.slice(0, 2).join(", ")}` : custom ? `Inferred: ${prompt.outputFormat}` : "Using the default format for the intent",
+        "Describe the shape of the answer: a list, a table, JSON, a single file, a word count.",
+        "What should the answer look like — a list, a table, code in one file, or something else?"
+    );
+}
+
+function checkAmbiguity(normalized: string): QualityCheck {
+    const found = matchedTerms(normalized, VAGUE_TERMS);
+    return check(
+        "ambiguity", "No vague wording", 1 - found.length / 3,
+        found.length > 0 ? `Vague: "${found.slice(0, 4).join("\", \"")}"` : "No vague words found",
+        `Replace ${found.slice(0, 3).map((w) => `"${w}"`).join(", ")} with exactly what you mean.`,
+        `When you said "${found[0]}", what exactly did you have in mind?`
+    );
+}
+
+function checkConflicts(prompt: PromptFields, normalized: string): QualityCheck {
+    const conflicts: string[] = [];
+
+    for (const [a, aTerms, b, bTerms] of OPPOSING_TERMS) {
+        if (containsAny(normalized, aTerms) && containsAny(normalized, bTerms)) conflicts.push(`${a} vs ${b}`);
+    }
+
+    // "no database" as a constraint while a requirement asks for one
+    const requirements = normalizeText(prompt.requirements.join(" "));
+    for (const constraint of prompt.constraints) {
+        for (const [, captured] of normalizeText(constraint).matchAll(NEGATED_OBJECT)) {
+            const object = captured.replace(/[.-]+$/, "");  // "no database." ends a sentence; "c++" keeps its signs
+            if (object && compileTerm(object).pattern.test(requirements)) conflicts.push(`requires and excludes "${object}"`);
+        }
+    }
+
+    return check(
+        "conflicts", "No conflicting constraints", conflicts.length === 0 ? 1 : 0,
+        conflicts.length > 0 ? `Conflicts: ${conflicts.join("; ")}` : "Constraints are consistent",
+        "Decide which of the conflicting wishes wins, or say how to balance them.",
+        `You asked for ${conflicts[0]} — which matters more?`
+    );
+}
+
+function checkExamples(normalized: string): QualityCheck {
+    const found = matchedTerms(normalized, EXAMPLE_TERMS);
+    return check(
+        "examples", "Examples given", found.length > 0 ? 1 : 0,
+        found.length > 0 ? "Includes an example or reference" : "No examples or references",
+        "Give one example of the input, output or style you want.",
+        "Could you give me an example of what a good result looks like?"
+    );
+}
+
+export function analyzePrompt(prompt: PromptFields): QualityReport {
+    const text = [prompt.context, ...prompt.requirements, ...prompt.constraints].join(". ");
+    const normalized = normalizeText(text);
+
+    const checks = [
+        checkSpecificity(prompt, text),
+        ...(AUDIENCE_INTENTS.has(normalizeIntent(prompt.intent)) ? [checkAudience(normalized)] : []),
+        checkOutputFormat(prompt, normalized),
+        checkAmbiguity(normalized),
+        checkConflicts(prompt, normalized),
+        checkExamples(normalized),
+    ];
+
+    const points = checks.reduce((sum, c) => sum + c.points, 0);
+    const maxPoints = checks.reduce((sum, c) => sum + c.maxPoints, 0);
+    return { score: Math.round((points / maxPoints) * 100), checks };
+}
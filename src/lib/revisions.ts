@@ -0,0 +1,149 @@
+// Revision history for saved prompts
+// Every saved prompt keeps the list of versions it went through (as spoken, edited, changed by voice)
+// plus a cursor into it, so undo/redo survive a reload and any two versions can be diffed.
+
+import type { FormattedPrompt } from "./formatters";
+import type { SavedPrompt } from "./storage";
+import type { StructuredPrompt } from "./structurer";
+
+export type RevisionKind = "spoken" | "edited" | "voice";
+
+export interface PromptRevision {
+    kind: RevisionKind;
+    timestamp: number;
+    structured: StructuredPrompt;
+    formats: FormattedPrompt[];  // per-LLM output as shown, so AI formats come back with the revision
+    transcript?: string;         // the speech that produced it: the conversation, or the spoken command
+}
+
+export type DiffLine = { type: "same" | "added" | "removed"; text: string };
+
+// Oldest revisions are dropped past this; the first one (as spoken) is always kept
+export const MAX_REVISIONS = 50;
+
+export const REVISION_LABELS: Record<RevisionKind, string> = {
+    spoken: "🎤 Spoken",
+    edited: "✏️ Edited",
+    voice: "🗣️ Voice edit",
+};
+
+// Revisions of an entry; entries saved before revisions existed get one from their stored fields
+export function revisionsOf(saved: SavedPrompt): PromptRevision[] {
+    if (saved.revisions) return saved.revisions;
+    if (!saved.structured) return [];
+    return [{ kind: "spoken", timestamp: saved.timestamp, structured: saved.structured, formats: [], transcript: saved.rawTranscript }];
+}
+
+export function currentRevisionIndex(saved: SavedPrompt): number {
+    const count = revisionsOf(saved).length;
+    return Math.min(saved.revisionIndex ?? count - 1, count - 1);
+}
+
+export function currentRevision(saved: SavedPrompt): PromptRevision | null {
+    return revisionsOf(saved)[currentRevisionIndex(saved)] ?? null;
+}
+
+// Copy the revision's fields onto the entry, which is what the history list shows
+function withRevision(saved: SavedPrompt, revisions: PromptRevision[], index: number): SavedPrompt {
+    const { structured } = revisions[index];
+    return {
+        ...saved,
+        revisions,
+        revisionIndex: index,
+        title: structured.title,
+        structuredPrompt: structured.fullPrompt,
+        structured,
+        intent: structured.intent,
+        qualityScore: structured.qualityScore,
+    };
+}
+
+/**
+ * Append a revision after the current one. Anything that was undone is discarded, as in an editor.
+ */
+export function addRevision(saved: SavedPrompt, revision: PromptRevision): SavedPrompt {
+    const kept = revisionsOf(saved).slice(0, currentRevisionIndex(saved) + 1);
+    let revisions = [...kept, revision];
+    if (revisions.length > MAX_REVISIONS) revisions = [revisions[0], ...revisions.slice(-(MAX_REVISIONS - 1))];
+    return withRevision(saved, revisions, revisions.length - 1);
+}
+
+// Step the cursor back (-1, undo) or forward (+1, redo); null when there is nothing that way
+export function moveRevision(saved: SavedPrompt, delta: number): SavedPrompt | null {
+    const revisions = revisionsOf(saved);
+    const index = currentRevisionIndex(saved) + delta;
+    if (index < 0 || index >= revisions.length) return null;
+    return withRevision(saved, revisions, index);
+}
+
+/**
+ * Fold `source` into `target`: the version of `source` on screen becomes the newest revision of
+ * `target`, and transcripts and conversations are joined so the merged entry resumes as one.
+ */
+export function mergeInto(target: SavedPrompt, source: SavedPrompt): SavedPrompt {
+    const translated = !!(target.englishTranscript || source.englishTranscript);
+    const merged: SavedPrompt = {
+        ...target,
+        rawTranscript: `${target.rawTranscript}\n${source.rawTranscript}`,
+        englishTranscript: translated
+            ? `${target.englishTranscript ?? target.rawTranscript}\n${source.englishTranscript ?? source.rawTranscript}`
+            : undefined,
+        session: target.session || source.session ? {
+            ...target.session,
+            ...source.session,
+            messages: [...(target.session?.messages ?? []), ...(source.session?.messages ?? [])],
+        } : undefined,
+        tags: [...new Set([...target.tags, ...source.tags])],
+        favorite: target.favorite || source.favorite ? 1 : 0,
+        model: source.model ?? target.model,
+    };
+    const revision = currentRevision(source);
+    return revision ? addRevision(merged, { ...revision, timestamp: Date.now(), transcript: source.rawTranscript }) : merged;
+}
+
+export function canUndo(saved: SavedPrompt | null): boolean {
+    return !!saved && currentRevisionIndex(saved) > 0;
+}
+
+export function canRedo(saved: SavedPrompt | null): boolean {
+    return !!saved && currentRevisionIndex(saved) < revisionsOf(saved).length - 1;
+}
+
+/**
+ * Line diff of two texts by longest common subsequence; prompts are a few dozen lines, so the
+ * quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split("\n");
+    const b = after.split("\n");
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: "same", text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ type: "removed", text: a[i++] });
+        } else {
+            lines.push({ type: "added", text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+    while (j < b.length) lines.push({ type: "added", text: b[j++] });
+    return lines;
+}
+
+// Diff the parts of a revision a reader cares about: title, intent and the full structured prompt
+export function diffRevisions(before: PromptRevision, after: PromptRevision): DiffLine[] {
+    const text = (r: PromptRevision) => `# ${r.structured.title}\nIntent: ${r.structured.intent}\n\n${r.structured.fullPrompt}`;
+    return diffLines(text(before), text(after));
+}
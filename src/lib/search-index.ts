@@ -0,0 +1,248 @@
+// Full-text search over prompt history
+// An inverted index over titles, transcripts, structured prompts and per-LLM outputs, kept in memory.
+// Query words match index terms exactly, as a prefix (suffixes glued to Telugu/Hindi words, typing in
+// progress) or within a small edit distance, and hits come back ranked with a highlighted snippet.
+
+import { normalizeText, TOKEN } from "./lexicon-match";
+import { currentRevision } from "./revisions";
+import type { SavedPrompt } from "./storage";
+
+export interface HighlightPart {
+    text: string;
+    match: boolean;
+}
+
+export interface SearchHit {
+    prompt: SavedPrompt;
+    score: number;
+    terms: string[];           // index terms the query matched, for highlighting
+    snippet: HighlightPart[];  // best matching passage outside the title; empty when only the title matched
+}
+
+type SearchField = "title" | "meta" | "transcript" | "structured" | "formats";
+
+// A word in the title counts three times as much as one in the structured prompt
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 3,
+    meta: 2,
+    transcript: 1.5,
+    structured: 1,
+    formats: 0.5,
+};
+
+// How much a matched term is worth by how it matched
+const EXACT = 1;
+const PREFIX = 0.8;
+const FUZZY = 0.6;
+
+const MIN_PREFIX_LENGTH = 2;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+const STOP_WORDS = new Set(["a", "an", "the", "and", "or", "of", "to", "in", "for", "with", "is", "it", "on", "be"]);
+const DENSE = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+$/u;
+
+// Words of a text; Chinese/Japanese runs have no spaces, so they are indexed as character bigrams
+export function tokenize(text: string): string[] {
+    const terms: string[] = [];
+    for (const token of normalizeText(text).match(TOKEN) ?? []) {
+        if (DENSE.test(token)) {
+            const chars = Array.from(token);
+            if (chars.length === 1) terms.push(token);
+            for (let i = 0; i + 1 < chars.length; i++) terms.push(chars[i] + chars[i + 1]);
+        } else if (!STOP_WORDS.has(token)) {
+            terms.push(token.replace(/['’]s$/, ""));
+        }
+    }
+    return terms;
+}
+
+// Edits allowed for a typo; counted in code points, so Indic vowel signs count as letters
+function maxEdits(length: number): number {
+    if (length <= 3) return 0;
+    return length <= 6 ? 1 : 2;
+}
+
+// Edit distance counting a swap of neighbouring letters as one typo, giving up once it exceeds `limit`
+export function editDistance(a: string[], b: string[], limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1;
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i];
+        let best = i;
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                row[j] = Math.min(row[j], beforePrevious[j - 2] + 1);
+            }
+            best = Math.min(best, row[j]);
+        }
+        if (best > limit) return limit + 1;
+        beforePrevious = previous;
+        previous = row;
+    }
+    return previous[b.length];
+}
+
+function fieldsOf(prompt: SavedPrompt): Record<SearchField, string> {
+    return {
+        title: prompt.title,
+        meta: [prompt.intent, ...(prompt.tags ?? []), prompt.folder ?? ""].join(" "),
+        transcript: [prompt.rawTranscript, prompt.englishTranscript ?? ""].join("\n"),
+        structured: prompt.structuredPrompt,
+        formats: (currentRevision(prompt)?.formats ?? []).map((f) => f.formattedPrompt).join("\n"),
+    };
+}
+
+/**
+ * Mark the words of `text` that are among the matched index terms. Bigram terms mark the
+ * characters they cover inside a Chinese/Japanese run.
+ */
+export function highlight(text: string, terms: Iterable<string>): HighlightPart[] {
+    const matched = new Set(terms);
+    const ranges: [number, number][] = [];
+    for (const m of text.matchAll(TOKEN)) {
+        const normalized = normalizeText(m[0]);
+        if (DENSE.test(normalized)) {
+            for (const term of matched) {
+                if (!DENSE.test(term)) continue;
+                for (let at = normalized.indexOf(term); at >= 0; at = normalized.indexOf(term, at + 1)) {
+                    ranges.push([m.index + at, m.index + at + term.length]);
+                }
+            }
+        } else if (matched.has(normalized.replace(/['’]s$/, ""))) {
+            ranges.push([m.index, m.index + m[0].length]);
+        }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const parts: HighlightPart[] = [];
+    let pos = 0;
+    for (const [start, end] of ranges) {
+        if (end <= pos) continue;
+        if (start > pos) parts.push({ text: text.slice(pos, start), match: false });
+        parts.push({ text: text.slice(Math.max(start, pos), end), match: true });
+        pos = end;
+    }
+    if (pos < text.length) parts.push({ text: text.slice(pos), match: false });
+    return parts;
+}
+
+// A window of the first field (after the title) that contains a matched term
+function snippetFor(prompt: SavedPrompt, terms: Set<string>): HighlightPart[] {
+    const fields = fieldsOf(prompt);
+    for (const field of ["transcript", "structured", "formats"] as const) {
+        const text = fields[field].replace(/\s+/g, " ").trim();
+        const first = highlight(text, terms).reduce((at, part, i, parts) => {
+            if (at >= 0 || !part.match) return at;
+            return parts.slice(0, i).reduce((n, p) => n + p.text.length, 0);
+        }, -1);
+        if (first < 0) continue;
+
+        let start = Math.max(0, first - SNIPPET_BEFORE);
+        if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+        const end = Math.min(text.length, start + SNIPPET_LENGTH);
+        const window = `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+        return highlight(window, terms);
+    }
+    return [];
+}
+
+export class SearchIndex {
+    private postings = new Map<string, Map<string, number>>();  // term → prompt id → weighted term frequency
+    private docTerms = new Map<string, string[]>();             // prompt id → its terms, for removal
+    private docs = new Map<string, SavedPrompt>();
+
+    get size(): number {
+        return this.docs.size;
+    }
+
+    add(prompt: SavedPrompt) {
+        this.remove(prompt.id);
+        const weights = new Map<string, number>();
+        for (const [field, text] of Object.entries(fieldsOf(prompt)) as [SearchField, string][]) {
+            for (const term of tokenize(text)) weights.set(term, (weights.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+        }
+        for (const [term, weight] of weights) {
+            let posting = this.postings.get(term);
+            if (!posting) this.postings.set(term, (posting = new Map()));
+            posting.set(prompt.id, weight);
+        }
+        this.docTerms.set(prompt.id, [...weights.keys()]);
+        this.docs.set(prompt.id, prompt);
+    }
+
+    remove(id: string) {
+        for (const term of this.docTerms.get(id) ?? []) {
+            const posting = this.postings.get(term);
+            posting?.delete(id);
+            if (posting?.size === 0) this.postings.delete(term);
+        }
+        this.docTerms.delete(id);
+        this.docs.delete(id);
+    }
+
+    // Index terms a query word stands for, with how well each matches
+    private expand(word: string): Map<string, number> {
+        const expansions = new Map<string, number>();
+        if (this.postings.has(word)) expansions.set(word, EXACT);
+
+        const chars = Array.from(word);
+        const edits = maxEdits(chars.length);
+        for (const term of this.postings.keys()) {
+            if (term === word) continue;
+            if (chars.length >= MIN_PREFIX_LENGTH && term.startsWith(word)) {
+                expansions.set(term, PREFIX);
+            } else if (edits > 0 && editDistance(chars, Array.from(term), edits) <= edits) {
+                expansions.set(term, FUZZY);
+            }
+        }
+        return expansions;
+    }
+
+    /**
+     * Ranked hits for a query. Prompts matching every query word come first; if none do, prompts
+     * matching most of them. `accept` filters prompts before the limit is applied.
+     */
+    search(query: string, limit: number, accept: (prompt: SavedPrompt) => boolean = () => true): SearchHit[] {
+        const words = [...new Set(tokenize(query))];
+        if (words.length === 0) return [];
+
+        const total = this.docs.size;
+        const scores = new Map<string, { score: number; words: number; terms: Set<string> }>();
+        for (const word of words) {
+            // Best contribution of this word per prompt; every term it matched is highlighted
+            const best = new Map<string, { score: number; terms: string[] }>();
+            for (const [term, quality] of this.expand(word)) {
+                const posting = this.postings.get(term)!;
+                const idf = Math.log(1 + total / posting.size);
+                for (const [id, weight] of posting) {
+                    const score = (1 + Math.log(weight)) * idf * quality;
+                    const entry = best.get(id);
+                    if (!entry) best.set(id, { score, terms: [term] });
+                    else {
+                        entry.score = Math.max(entry.score, score);
+                        entry.terms.push(term);
+                    }
+                }
+            }
+            for (const [id, { score, terms }] of best) {
+                const entry = scores.get(id) ?? { score: 0, words: 0, terms: new Set<string>() };
+                entry.score += score;
+                entry.words += 1;
+                for (const term of terms) entry.terms.add(term);
+                scores.set(id, entry);
+            }
+        }
+
+        const ranked = [...scores.entries()]
+            .filter(([id]) => accept(this.docs.get(id)!))
+            .sort(([, a], [, b]) => b.words - a.words || b.score - a.score);
+        const complete = ranked.filter(([, s]) => s.words === words.length);
+
+        return (complete.length > 0 ? complete : ranked).slice(0, limit).map(([id, s]) => {
+            const prompt = this.docs.get(id)!;
+            return { prompt, score: s.score, terms: [...s.terms], snippet: snippetFor(prompt, s.terms) };
+        });
+    }
+}
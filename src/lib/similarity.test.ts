@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EmbeddingIndex } from "./similarity";
+import type { SavedPrompt } from "./storage";
+
+function prompt(id: string, title: string): SavedPrompt {
+    return {
+        id, title, rawTranscript: title, structuredPrompt: title, intent: "general", qualityScore: 50,
+        language: "en-US", timestamp: 1, updatedAt: 1, tags: [], favorite: 0,
+    };
+}
+
+// A fake backend: vectors from letter counts, recording how many texts it was sent
+function fakeEmbed() {
+    const calls: string[][] = [];
+    const embed = async (texts: string[]) => {
+        calls.push(texts);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return texts.map((t) => Array.from("aeiostn", (ch) => t.split(ch).length - 1));
+    };
+    return { calls, embed };
+}
+
+const sent = (calls: string[][]) => calls.reduce((n, texts) => n + texts.length, 0);
+
+describe("EmbeddingIndex", () => {
+    const history = Array.from({ length: 100 }, (_, i) => prompt(`p${i}`, `prompt number ${i} about testing`));
+
+    it("embeds the history once for lookups that overlap", async () => {
+        const { calls, embed } = fakeEmbed();
+        const index = new EmbeddingIndex(embed);
+        await Promise.all([1, 2, 3].map(() => index.similar("a testing prompt", history, 3, 0)));
+        assert.equal(sent(calls), history.length + 3);
+    });
+
+    it("keeps vectors when only tags or dates change, and drops deleted prompts", async () => {
+        const { calls, embed } = fakeEmbed();
+        const index = new EmbeddingIndex(embed);
+        await index.similar("a testing prompt", history, 3, 0);
+        const retagged = history.map((p) => ({ ...p, tags: ["work"], updatedAt: 2 }));
+        await index.similar("a testing prompt", retagged, 3, 0);
+        assert.equal(sent(calls), history.length + 2);
+
+        const reworded = [...history.slice(1, 50), { ...history[50], title: "renamed" }];
+        const found = await index.similar("a testing prompt", reworded, 100, 0);
+        assert.equal(sent(calls), history.length + 2 + 1 + 1);
+        assert.ok(found.every((s) => s.prompt.id !== "p0"));
+    });
+});
@@ -0,0 +1,167 @@
+// "Find similar prompts" over history
+// Locally, each prompt is a TF-IDF vector of its words plus the character trigrams of those words,
+// so "లాగిన్ పేజీ" still meets "లాగిన్తో పేజీలు" and typos or inflections only cost a few trigrams.
+// An embedding backend (/api/embed) can rank the same prompts by meaning instead.
+
+import { hashText } from "./hash";
+import { tokenize } from "./search-index";
+import type { SavedPrompt } from "./storage";
+
+export interface SimilarPrompt {
+    prompt: SavedPrompt;
+    score: number;            // cosine similarity, 0-1
+}
+
+// Embeds texts, one vector per text; ApiClient.embed behind the scenes
+export type EmbedTexts = (texts: string[]) => Promise<number[][]>;
+
+// Below this a suggestion is more noise than help
+export const MIN_SIMILARITY = 0.35;
+export const MIN_EMBEDDING_SIMILARITY = 0.75;
+
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+const EMBED_BATCH = 64;
+
+type Vector = Map<string, number>;
+
+// What a prompt is about: its title and what was said
+function textOf(prompt: SavedPrompt): string {
+    return [prompt.title, prompt.rawTranscript, prompt.englishTranscript ?? ""].join("\n");
+}
+
+// Weighted term counts: words, and trigrams of each word with its boundaries marked
+function features(text: string): Vector {
+    const counts: Vector = new Map();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    for (const word of tokenize(text)) {
+        add(`w:${word}`, WORD_WEIGHT);
+        const chars = Array.from(` ${word} `);
+        for (let i = 0; i + 3 <= chars.length; i++) add(`c:${chars.slice(i, i + 3).join("")}`, TRIGRAM_WEIGHT);
+    }
+    return counts;
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class SimilarityIndex {
+    private vectors = new Map<string, Vector>();        // prompt id → raw term counts
+    private documentFrequency = new Map<string, number>();
+    private docs = new Map<string, SavedPrompt>();
+
+    prompts(): SavedPrompt[] {
+        return [...this.docs.values()];
+    }
+
+    add(prompt: SavedPrompt) {
+        this.remove(prompt.id);
+        const vector = features(textOf(prompt));
+        for (const feature of vector.keys()) {
+            this.documentFrequency.set(feature, (this.documentFrequency.get(feature) ?? 0) + 1);
+        }
+        this.vectors.set(prompt.id, vector);
+        this.docs.set(prompt.id, prompt);
+    }
+
+    remove(id: string) {
+        for (const feature of this.vectors.get(id)?.keys() ?? []) {
+            const df = (this.documentFrequency.get(feature) ?? 1) - 1;
+            if (df > 0) this.documentFrequency.set(feature, df);
+            else this.documentFrequency.delete(feature);
+        }
+        this.vectors.delete(id);
+        this.docs.delete(id);
+    }
+
+    private weigh(vector: Vector): Vector {
+        const total = this.docs.size;
+        const weighted: Vector = new Map();
+        for (const [feature, count] of vector) {
+            const idf = Math.log((1 + total) / (1 + (this.documentFrequency.get(feature) ?? 0))) + 1;
+            weighted.set(feature, count * idf);
+        }
+        return weighted;
+    }
+
+    /**
+     * Saved prompts closest to `text`, best first. `exclude` skips an entry, e.g. the one being
+     * continued, which would always match itself.
+     */
+    similar(text: string, limit: number, minScore = MIN_SIMILARITY, exclude?: string): SimilarPrompt[] {
+        const query = this.weigh(features(text));
+        const queryNorm = Math.sqrt([...query.values()].reduce((sum, w) => sum + w * w, 0));
+        if (queryNorm === 0) return [];
+
+        const results: SimilarPrompt[] = [];
+        for (const [id, counts] of this.vectors) {
+            if (id === exclude) continue;
+            const vector = this.weigh(counts);
+            let dot = 0;
+            let norm = 0;
+            for (const [feature, weight] of vector) {
+                dot += weight * (query.get(feature) ?? 0);
+                norm += weight * weight;
+            }
+            const score = norm ? dot / (queryNorm * Math.sqrt(norm)) : 0;
+            if (score >= minScore) results.push({ prompt: this.docs.get(id)!, score });
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+}
+
+/**
+ * Ranks prompts by embedding similarity. Prompt vectors are cached by id and a hash of the embedded
+ * text, so tagging or moving a prompt keeps its vector and only the query and new or reworded prompts
+ * are sent to the backend. Lookups that overlap share one warm-up instead of each embedding the
+ * history. Create one per embedding model: vectors of different models cannot be compared.
+ */
+export class EmbeddingIndex {
+    private cache = new Map<string, { hash: string; vector: number[] }>();  // prompt id → vector of its text
+    private warming: Promise<void> | null = null;
+
+    constructor(private embed: EmbedTexts) { }
+
+    // Embed every prompt whose text has no cached vector; deleted prompts leave the cache
+    private async warm(prompts: SavedPrompt[]): Promise<void> {
+        while (this.warming) await this.warming.catch(() => { });
+
+        const ids = new Set(prompts.map((p) => p.id));
+        for (const id of this.cache.keys()) if (!ids.has(id)) this.cache.delete(id);
+        const missing = prompts
+            .map((prompt) => ({ prompt, hash: hashText(textOf(prompt)) }))
+            .filter(({ prompt, hash }) => this.cache.get(prompt.id)?.hash !== hash);
+        if (missing.length === 0) return;
+
+        this.warming = (async () => {
+            for (let i = 0; i < missing.length; i += EMBED_BATCH) {
+                const batch = missing.slice(i, i + EMBED_BATCH);
+                const vectors = await this.embed(batch.map(({ prompt }) => textOf(prompt)));
+                batch.forEach(({ prompt, hash }, j) => this.cache.set(prompt.id, { hash, vector: vectors[j] }));
+            }
+        })().finally(() => {
+            this.warming = null;
+        });
+        await this.warming;
+    }
+
+    async similar(text: string, prompts: SavedPrompt[], limit: number, minScore = MIN_EMBEDDING_SIMILARITY, exclude?: string): Promise<SimilarPrompt[]> {
+        const [[query]] = await Promise.all([this.embed([text]), this.warm(prompts)]);
+
+        return prompts
+            .filter((p) => p.id !== exclude && this.cache.has(p.id))
+            .map((prompt) => ({ prompt, score: cosine(query, this.cache.get(prompt.id)!.vector) }))
+            .filter((s) => s.score >= minScore)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+}
@@ -0,0 +1,253 @@
+// Slot filling for the clarifying conversation
+// Each intent lists the details a good prompt needs. Slots are filled from what the user said
+// (or by answering the slot's question), and only unfilled slots are asked about.
+
+import type { ChatTurn } from "./api-types";
+import { Intent } from "./intents";
+import { CompiledTerm, compileTerm, containsAny, normalizeText } from "./lexicon-match";
+import { isEnglish, translateLocally } from "./translation";
+
+export interface SlotDefinition {
+    id: string;
+    label: string;
+    question: string;
+    required: boolean;    // optional slots are shown but never block structuring
+    cues: string[];       // English terms that fill the slot, in lexicon-match syntax
+}
+
+export interface SlotState {
+    id: string;
+    label: string;
+    required: boolean;
+    filled: boolean;
+    value?: string;       // the cue or answer that filled it
+}
+
+export interface SlotAnalysis {
+    intent: Intent;
+    slots: SlotState[];
+    missing: SlotState[];         // required slots still unfilled
+    questionsAsked: number;
+    nextQuestion: string | null;  // null once there is nothing left worth asking
+    complete: boolean;
+}
+
+// Stop asking after this many questions, even with slots still open
+export const MAX_QUESTIONS = 3;
+
+export const AUDIENCE_CUES = [
+    "audience", "reader*", "beginner*", "for kids", "children", "students", "for my team", "customers", "clients",
+    "stakeholders", "executives", "managers", "developers", "non-technical", "technical readers", "target",
+    "for my boss", "for my manager", "professional*", "experts", "novice*",
+];
+
+export const INTENT_SLOTS: Record<Intent, SlotDefinition[]> = {
+    "Code Generation": [
+        {
+            id: "language", label: "Language", required: true,
+            question: "What programming language or framework would you like me to use?",
+            cues: [
+                "python", "javascript", "typescript", "java", "c++", "c#", "golang", "go$", "rust", "php", "ruby", "swift",
+                "kotlin", "dart", "flutter", "sql", "html", "css", "react", "vue", "angular", "svelte", "next.js", "nextjs",
+                "node*", "express", "django", "flask", "fastapi", "spring", "bash", "shell", "powershell",
+            ],
+        },
+        {
+            id: "scope", label: "Scope", required: true,
+            question: "Can you describe the specific functionality you need?",
+            cues: [
+                "app", "application", "function", "script", "api", "endpoint*", "website", "web app", "component*", "class",
+                "module", "cli", "command line", "bot", "page", "service", "library", "tool", "game", "feature*", "extension",
+            ],
+        },
+        {
+            id: "io", label: "Inputs & outputs", required: false,
+            question: "What inputs should it take, and what should it return or show?",
+            cues: [
+                "input*", "output*", "return*", "accept*", "takes", "read*", "file*", "json", "csv", "database", "form*",
+                "print*", "display*", "show*", "parameter*", "argument*", "upload*", "download*",
+            ],
+        },
+        {
+            id: "tests", label: "Tests", required: false,
+            question: "Do you need tests included with the code?",
+            cues: ["test*", "jest", "pytest", "vitest", "coverage", "tdd"],
+        },
+    ],
+    "Writing": [
+        {
+            id: "audience", label: "Audience", required: true,
+            question: "Who is the target audience?",
+            cues: AUDIENCE_CUES,
+        },
+        {
+            id: "tone", label: "Tone", required: true,
+            question: "What tone should the writing be — formal, casual, or conversational?",
+            cues: [
+                "tone", "formal", "informal", "casual", "friendly", "professional", "conversational", "humorous", "funny",
+                "serious", "persuasive", "academic", "inspiring", "inspirational", "warm", "witty",
+            ],
+        },
+        {
+            id: "length", label: "Length", required: true,
+            question: "How long should the content be?",
+            cues: ["words", "pages", "paragraph*", "sentences", "short", "long", "brief", "detailed", "minute read", "lines"],
+        },
+        {
+            id: "structure", label: "Structure", required: false,
+            question: "Should I include any specific sections or structure?",
+            cues: ["section*", "headings", "headers", "outline", "introduction", "conclusion", "bullet*", "list", "structure"],
+        },
+    ],
+    "Analysis": [
+        {
+            id: "focus", label: "Focus", required: true,
+            question: "What specific aspects should I focus on?",
+            cues: [
+                "focus", "aspect*", "performance", "cost*", "price*", "trend*", "risk*", "pros and cons", "strength*",
+                "weakness*", "impact", "growth", "security", "usability", "compare", "comparison",
+            ],
+        },
+        {
+            id: "depth", label: "Depth", required: false,
+            question: "What level of detail do you need — overview or deep dive?",
+            cues: ["overview", "deep dive", "detailed", "in-depth", "high-level", "high level", "summary", "brief", "thorough"],
+        },
+        {
+            id: "audience", label: "Audience", required: false,
+            question: "Who will read this analysis?",
+            cues: AUDIENCE_CUES,
+        },
+    ],
+    "Problem Solving": [
+        {
+            id: "symptom", label: "What happens", required: true,
+            question: "Can you describe what's happening vs what you expected?",
+            cues: [
+                "error*", "exception", "crash*", "fail*", "not working", "doesn't work", "does not work", "broken", "bug*",
+                "wrong", "instead of", "expected", "stuck", "slow", "freez*", "hang*",
+            ],
+        },
+        {
+            id: "environment", label: "Environment", required: true,
+            question: "What environment or platform are you using?",
+            cues: [
+                "windows", "mac*", "linux", "ubuntu", "android", "ios", "iphone", "browser", "chrome", "firefox", "safari",
+                "node*", "python", "version", "docker", "aws", "azure", "server", "phone", "laptop",
+            ],
+        },
+        {
+            id: "tried", label: "Already tried", required: false,
+            question: "What have you already tried?",
+            cues: ["tried", "attempted", "already", "restart*", "reinstall*", "reboot*", "googled", "searched"],
+        },
+    ],
+    "Creative": [
+        {
+            id: "style", label: "Style", required: true,
+            question: "What style or aesthetic are you going for?",
+            cues: [
+                "style", "aesthetic", "minimal*", "modern", "retro", "vintage", "colorful", "colourful", "dark", "playful",
+                "elegant", "cartoon", "realistic", "mood", "vibe", "tone", "theme",
+            ],
+        },
+        {
+            id: "purpose", label: "Purpose", required: true,
+            question: "What's the purpose — is it for a project, personal use, or something else?",
+            cues: [
+                "for my", "for a", "for our", "project", "personal", "business", "brand*", "company", "startup", "gift",
+                "wedding", "birthday", "presentation", "campaign", "youtube", "instagram", "website",
+            ],
+        },
+        {
+            id: "constraints", label: "Constraints", required: false,
+            question: "Are there any constraints or requirements to keep in mind?",
+            cues: ["must", "should", "only", "without", "size", "colors", "colours", "format", "deadline"],
+        },
+    ],
+    "Data": [
+        {
+            id: "dataType", label: "Data", required: true,
+            question: "What type of data are we working with?",
+            cues: [
+                "csv", "json", "excel", "spreadsheet", "sql", "database", "table*", "api", "logs", "xml", "dataset*",
+                "rows", "columns", "records", "sales", "transactions",
+            ],
+        },
+        {
+            id: "output", label: "Output", required: true,
+            question: "What's the expected output format?",
+            cues: ["chart*", "graph*", "report*", "dashboard*", "pdf", "summary", "visuali*", "export*", "plot*", "csv", "excel"],
+        },
+        {
+            id: "tools", label: "Tools", required: false,
+            question: "Are there any specific tools or platforms involved?",
+            cues: ["python", "pandas", "excel", "sql", "power bi", "tableau", "r$", "google sheets", "spark", "numpy", "airflow"],
+        },
+    ],
+    "General": [
+        {
+            id: "goal", label: "Goal", required: true,
+            question: "What's the main goal you want to achieve?",
+            cues: ["want*", "need*", "goal", "help", "trying to", "so that", "in order to", "looking for", "plan*"],
+        },
+        {
+            id: "details", label: "Details", required: false,
+            question: "Are there any specific requirements or constraints?",
+            cues: ["requirement*", "must", "should", "constraint*", "only", "without", "budget", "deadline"],
+        },
+    ],
+};
+
+const compiledCues = new Map<SlotDefinition, CompiledTerm[]>();
+
+function cuesOf(slot: SlotDefinition): CompiledTerm[] {
+    let cues = compiledCues.get(slot);
+    if (!cues) {
+        cues = slot.cues.map(compileTerm);
+        compiledCues.set(slot, cues);
+    }
+    return cues;
+}
+
+function firstCue(normalized: string, slot: SlotDefinition): string | undefined {
+    return cuesOf(slot).find((cue) => containsAny(normalized, [cue]))?.term;
+}
+
+// Every assistant turn after the user first spoke counts as a question
+function countQuestions(messages: ChatTurn[]): number {
+    const firstUser = messages.findIndex((m) => m.role === "user");
+    if (firstUser < 0) return 0;
+    return messages.slice(firstUser).filter((m) => m.role === "assistant").length;
+}
+
+// The user's reply to a slot's question fills it, whatever words were used
+function answerTo(question: string, messages: ChatTurn[]): string | undefined {
+    const asked = messages.findIndex((m) => m.role === "assistant" && m.content === question);
+    if (asked < 0) return undefined;
+    return messages.slice(asked + 1).find((m) => m.role === "user" && m.content.trim())?.content.trim();
+}
+
+/**
+ * Work out which slots of the intent the conversation has filled and what to ask next.
+ * Non-English speech is matched through the offline translator, so "పైథాన్" fills the language slot.
+ */
+export function analyzeSlots(messages: ChatTurn[], intent: Intent, language?: string): SlotAnalysis {
+    const userText = messages.filter((m) => m.role === "user").map((m) => m.content).join(". ");
+    const english = isEnglish(language) ? userText : `${userText}. ${translateLocally(userText, language!)}`;
+    const normalized = normalizeText(english);
+
+    const definitions = INTENT_SLOTS[intent];
+    const slots: SlotState[] = definitions.map((slot) => {
+        const value = firstCue(normalized, slot) ?? answerTo(slot.question, messages);
+        return { id: slot.id, label: slot.label, required: slot.required, filled: value !== undefined, value };
+    });
+
+    const missing = slots.filter((s) => s.required && !s.filled);
+    const questionsAsked = countQuestions(messages);
+    const asked = new Set(messages.filter((m) => m.role === "assistant").map((m) => m.content));
+    const next = definitions.find((d, i) => d.required && !slots[i].filled && !asked.has(d.question));
+    const nextQuestion = next && questionsAsked < MAX_QUESTIONS ? next.question : null;
+
+    return { intent, slots, missing, questionsAsked, nextQuestion, complete: nextQuestion === null };
+}
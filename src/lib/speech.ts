@@ -1,5 +1,6 @@
-// Web Speech API wrapper for speech-to-text
-// 100% free, built into Chrome/Edge, no API key needed
+// Speech-to-text behind one SpeechManager, with pluggable engines
+// The default engine wraps the Web Speech API: free, built into Chrome/Edge, no API key needed, but missing
+// in Firefox and sent to a cloud service. The local Whisper engine (whisper-stt.ts) keeps audio on your network.
 
 export interface SpeechRecognitionResult {
     transcript: string;
@@ -56,13 +57,31 @@ declare global {
     }
 }
 
-export class SpeechManager {
+export type SpeechEngineKind = "browser" | "whisper";
+
+// A speech-to-text engine. Results and status go to the callbacks given to start.
+export interface SpeechEngine {
+    // True when words arrive while the user speaks; false when they come only from transcribing the recording
+    readonly transcribesLive: boolean;
+    isSupported(): boolean;
+    start(lang: string, onResult: SpeechCallback, onStatus: StatusCallback): void;
+    // Resolves once the last words heard have been delivered as a final result
+    stop(): Promise<void>;
+    isListening(): boolean;
+}
+
+// How long stop waits for the browser to deliver its last result
+const STOP_TIMEOUT_MS = 1500;
+
+export class WebSpeechEngine implements SpeechEngine {
+    readonly transcribesLive = true;
     private recognition: SpeechRecognitionInstance | null = null;
-    private isListening = false;
+    private listening = false;
     private onResult: SpeechCallback | null = null;
     private onStatus: StatusCallback | null = null;
     private currentLang = "en-US";
     private shouldRestart = false;
+    private stopped: (() => void) | null = null;     // resolves a pending stop
 
     constructor() {
         if (typeof window !== "undefined") {
@@ -98,10 +117,11 @@ export class SpeechManager {
         };
 
         this.recognition.onend = () => {
-            this.isListening = false;
+            this.listening = false;
             if (this.shouldRestart) {
-                setTimeout(() => this.start(), 100);
+                setTimeout(() => this.restart(), 100);
             } else {
+                this.stopped?.();
                 this.onStatus?.("stopped");
             }
         };
@@ -113,26 +133,22 @@ export class SpeechManager {
         };
 
         this.recognition.onstart = () => {
-            this.isListening = true;
+            this.listening = true;
             this.onStatus?.("listening");
         };
     }
 
-    setLanguage(lang: string) {
+    start(lang: string, onResult: SpeechCallback, onStatus: StatusCallback) {
         this.currentLang = lang;
-        if (this.recognition) {
-            this.recognition.lang = lang;
-        }
-    }
-
-    setCallbacks(onResult: SpeechCallback, onStatus: StatusCallback) {
         this.onResult = onResult;
         this.onStatus = onStatus;
+        if (this.recognition) this.recognition.lang = lang;
+        this.restart();
     }
 
-    start() {
+    private restart() {
         if (!this.recognition) return;
-        if (this.isListening) return;
+        if (this.listening) return;
 
         try {
             this.shouldRestart = true;
@@ -143,15 +159,24 @@ export class SpeechManager {
         }
     }
 
-    stop() {
+    stop(): Promise<void> {
         this.shouldRestart = false;
-        if (this.recognition && this.isListening) {
-            this.recognition.stop();
-        }
+        if (!this.recognition || !this.listening) return Promise.resolve();
+        // Stopping (unlike aborting) delivers what was heard so far as a final result, then ends
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => finish(), STOP_TIMEOUT_MS);
+            const finish = () => {
+                clearTimeout(timer);
+                this.stopped = null;
+                resolve();
+            };
+            this.stopped = finish;
+            this.recognition!.stop();
+        });
     }
 
-    getIsListening() {
-        return this.isListening;
+    isListening() {
+        return this.listening;
     }
 
     isSupported(): boolean {
@@ -160,6 +185,61 @@ export class SpeechManager {
     }
 }
 
+export class SpeechManager {
+    private engine: SpeechEngine;
+    private onResult: SpeechCallback | null = null;
+    private onStatus: StatusCallback | null = null;
+    private currentLang = "en-US";
+
+    constructor(engine: SpeechEngine = new WebSpeechEngine()) {
+        this.engine = engine;
+    }
+
+    // Switch engines; one that is listening hands over to the new one
+    setEngine(engine: SpeechEngine) {
+        if (engine === this.engine) return;
+        const wasListening = this.engine.isListening();
+        this.engine.stop().catch(() => { });
+        this.engine = engine;
+        if (wasListening) this.start();
+    }
+
+    getEngine(): SpeechEngine {
+        return this.engine;
+    }
+
+    // Applies from the next start
+    setLanguage(lang: string) {
+        this.currentLang = lang;
+    }
+
+    setCallbacks(onResult: SpeechCallback, onStatus: StatusCallback) {
+        this.onResult = onResult;
+        this.onStatus = onStatus;
+    }
+
+    start() {
+        if (this.engine.isListening()) return;
+        this.engine.start(
+            this.currentLang,
+            (result) => this.onResult?.(result),
+            (status) => this.onStatus?.(status),
+        );
+    }
+
+    stop(): Promise<void> {
+        return this.engine.stop();
+    }
+
+    getIsListening() {
+        return this.engine.isListening();
+    }
+
+    isSupported(): boolean {
+        return this.engine.isSupported();
+    }
+}
+
 // Supported languages for Web Speech API
 export const SUPPORTED_LANGUAGES = [
     { code: "te-IN", name: "Telugu", flag: "🇮🇳" },
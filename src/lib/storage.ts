@@ -1,31 +1,149 @@
 // IndexedDB storage wrapper for prompt history
 // 100% free, built into all browsers, no external database needed
 
+import type { ChatMessage } from "./conversation";
+import type { LLMProviderKind } from "./llm";
+import type { PromptRevision } from "./revisions";
+import { SearchIndex, type SearchHit } from "./search-index";
+import { EmbeddingIndex, SimilarityIndex, type SimilarPrompt } from "./similarity";
+import type { SlotState } from "./slots";
+import type { StructuredPrompt } from "./structurer";
+
+// Conversation behind a saved prompt, so opening it resumes where it stopped
+export interface SavedSession {
+    messages: ChatMessage[];
+    slots?: SlotState[];
+    source?: "ai" | "rule-based";  // how the structured fields were produced
+    provider?: LLMProviderKind;
+    model?: string;
+}
+
 export interface SavedPrompt {
     id: string;
     title: string;
-    rawTranscript: string;
+    rawTranscript: string;          // as spoken, in the original language
+    englishTranscript?: string;     // translation the prompt was structured from; absent for English speech
     structuredPrompt: string;
+    structured?: StructuredPrompt;  // fields as last generated or edited; older entries re-structure from the transcript
+    revisions?: PromptRevision[];   // every version of the prompt, oldest first (revisions.ts)
+    revisionIndex?: number;         // the version shown; later ones are redo steps
+    session?: SavedSession;         // absent on entries saved before sessions were kept
     intent: string;
     qualityScore: number;
     language: string;
-    timestamp: number;
+    timestamp: number;              // created
+    updatedAt: number;              // last saved; set by savePrompt
+    tags: string[];
+    favorite: 0 | 1;                // a number, since IndexedDB cannot index booleans
+    folder?: string;
+    model?: string;                 // model that structured the prompt, when an LLM did
+}
+
+// Filters a history query can apply: equality on fields, plus creation date and quality score ranges
+export interface PromptFilter {
+    intent?: string;
+    language?: string;
+    model?: string;
+    folder?: string;
+    favorite?: boolean;
+    tag?: string;
+    since?: number;                 // created at or after this time
+    minQuality?: number;
+    maxQuality?: number;
+}
+
+export type PromptSort = "timestamp" | "updatedAt";
+
+// Position after the last prompt of a page: its sort-index key and id
+export interface PromptCursor {
+    key: IDBValidKey;
+    id: string;
+}
+
+export interface PromptQuery {
+    filter?: PromptFilter;
+    sort?: PromptSort;              // newest first; defaults to "timestamp"
+    limit?: number;
+    after?: PromptCursor | null;
+}
+
+export interface PromptPage {
+    prompts: SavedPrompt[];
+    next: PromptCursor | null;      // null on the last page
+}
+
+// A folder or tag with the number of prompts in it
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface SimilarQuery {
+    limit?: number;
+    exclude?: string;               // id of an entry to leave out, e.g. the one being continued
+    embeddings?: EmbeddingIndex;    // rank by embeddings; local TF-IDF when absent or failing
 }
 
 const DB_NAME = "voiceprompt-pro";
-const DB_VERSION = 1;
 const STORE_NAME = "prompts";
+export const PAGE_SIZE = 50;
+
+// Fields with a [field, sort] compound index, so a filtered page is read in order without a scan
+const INDEXED_FILTERS = ["intent", "language", "model", "folder", "favorite"] as const;
+const SORT_KEYS: PromptSort[] = ["timestamp", "updatedAt"];
+
+// --- Migrations ---
+
+// Migration n upgrades the database from version n to n + 1, so DB_VERSION is their count.
+// Append new ones; never edit a migration that has shipped.
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+    // 1: prompt store with creation-time and intent indexes
+    (db) => {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("timestamp", "timestamp", { unique: false });
+        store.createIndex("intent", "intent", { unique: false });
+    },
+
+    // 2: tags, favorite, folder, model and updatedAt, with indexes for filtered, paginated history
+    (_db, tx) => {
+        const store = tx.objectStore(STORE_NAME);
+        store.createIndex("updatedAt", "updatedAt", { unique: false });
+        store.createIndex("tags", "tags", { unique: false, multiEntry: true });
+        store.createIndex("language", "language", { unique: false });
+        store.createIndex("model", "model", { unique: false });
+        store.createIndex("folder", "folder", { unique: false });
+        for (const field of INDEXED_FILTERS) {
+            for (const sort of SORT_KEYS) store.createIndex(`${field}_${sort}`, [field, sort], { unique: false });
+        }
+
+        store.openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const prompt = cursor.value as SavedPrompt;
+            cursor.update({
+                ...prompt,
+                updatedAt: prompt.updatedAt ?? prompt.timestamp,
+                tags: prompt.tags ?? [],
+                favorite: prompt.favorite ?? 0,
+                model: prompt.model ?? prompt.session?.model,
+            });
+            cursor.continue();
+        };
+    },
+];
+
+const DB_VERSION = MIGRATIONS.length;
 
 function openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
         const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-        request.onupgradeneeded = () => {
-            const db = request.result;
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
-                store.createIndex("timestamp", "timestamp", { unique: false });
-                store.createIndex("intent", "intent", { unique: false });
+        request.onupgradeneeded = (event) => {
+            // Version 1 databases were created before migrations existed and already have the store
+            for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                MIGRATIONS[version](request.result, request.transaction!);
             }
         };
 
@@ -34,14 +152,54 @@ function openDB(): Promise<IDBDatabase> {
     });
 }
 
-export async function savePrompt(prompt: SavedPrompt): Promise<void> {
+// --- Queries ---
+
+// In-memory indexes over all of history, built on first use and kept current by save and delete
+interface HistoryIndexes {
+    search: SearchIndex;
+    similarity: SimilarityIndex;
+}
+
+let historyIndexes: Promise<HistoryIndexes> | null = null;
+
+function getHistoryIndexes(): Promise<HistoryIndexes> {
+    historyIndexes ??= getAllPrompts().then((prompts) => {
+        const indexes = { search: new SearchIndex(), similarity: new SimilarityIndex() };
+        for (const prompt of prompts) {
+            indexes.search.add(prompt);
+            indexes.similarity.add(prompt);
+        }
+        return indexes;
+    }).catch((error) => {
+        historyIndexes = null;
+        throw error;
+    });
+    return historyIndexes;
+}
+
+export function savePrompt(prompt: SavedPrompt): Promise<void> {
+    return savePrompts([prompt]);
+}
+
+// Save several prompts in one transaction, e.g. after a bulk tag or move
+export async function savePrompts(prompts: SavedPrompt[]): Promise<void> {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
+    const updatedAt = Date.now();
+    const saved = prompts.map((prompt) => ({ ...prompt, updatedAt }));
+    await new Promise<void>((resolve, reject) => {
         const tx = db.transaction(STORE_NAME, "readwrite");
-        tx.objectStore(STORE_NAME).put(prompt);
+        const store = tx.objectStore(STORE_NAME);
+        for (const prompt of saved) store.put(prompt);
         tx.oncomplete = () => resolve();
         tx.onerror = () => reject(tx.error);
     });
+    if (historyIndexes) {
+        const { search, similarity } = await historyIndexes;
+        for (const prompt of saved) {
+            search.add(prompt);
+            similarity.add(prompt);
+        }
+    }
 }
 
 export async function getAllPrompts(): Promise<SavedPrompt[]> {
@@ -57,23 +215,164 @@ export async function getAllPrompts(): Promise<SavedPrompt[]> {
     });
 }
 
-export async function deletePrompt(id: string): Promise<void> {
+export function deletePrompt(id: string): Promise<void> {
+    return deletePrompts([id]);
+}
+
+export async function deletePrompts(ids: string[]): Promise<void> {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
         const tx = db.transaction(STORE_NAME, "readwrite");
-        tx.objectStore(STORE_NAME).delete(id);
+        const store = tx.objectStore(STORE_NAME);
+        for (const id of ids) store.delete(id);
         tx.oncomplete = () => resolve();
         tx.onerror = () => reject(tx.error);
     });
+    if (historyIndexes) {
+        const { search, similarity } = await historyIndexes;
+        for (const id of ids) {
+            search.remove(id);
+            similarity.remove(id);
+        }
+    }
+}
+
+/**
+ * Keep history within `maxItems` by deleting the least recently updated entries. Favorites are never
+ * deleted, though they count toward the limit. Returns the ids that were deleted.
+ */
+export async function pruneHistory(maxItems: number): Promise<string[]> {
+    const db = await openDB();
+    const ids = await new Promise<string[]>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const store = tx.objectStore(STORE_NAME);
+        const countRequest = store.count();
+        countRequest.onerror = () => reject(countRequest.error);
+        countRequest.onsuccess = () => {
+            const excess = countRequest.result - maxItems;
+            if (excess <= 0) return resolve([]);
+            const range = IDBKeyRange.bound([0, -Infinity], [0, Infinity]);
+            const request = store.index("favorite_updatedAt").openKeyCursor(range, "next");
+            const oldest: string[] = [];
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return resolve(oldest);
+                oldest.push(String(cursor.primaryKey));
+                if (oldest.length >= excess) return resolve(oldest);
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        };
+    });
+    if (ids.length > 0) await deletePrompts(ids);
+    return ids;
+}
+
+// Every folder or tag in use with its prompt count, by name; walks index keys only
+export async function listFacet(field: "folder" | "tags"): Promise<FacetCount[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const request = tx.objectStore(STORE_NAME).index(field).openKeyCursor();
+        const facets: FacetCount[] = [];
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve(facets);
+            const value = String(cursor.key);
+            const last = facets[facets.length - 1];
+            if (last?.value === value) last.count++;
+            else if (value) facets.push({ value, count: 1 });
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function matchesFilter(prompt: SavedPrompt, filter: PromptFilter): boolean {
+    if (filter.intent !== undefined && prompt.intent !== filter.intent) return false;
+    if (filter.language !== undefined && prompt.language !== filter.language) return false;
+    if (filter.model !== undefined && prompt.model !== filter.model) return false;
+    if (filter.folder !== undefined && prompt.folder !== filter.folder) return false;
+    if (filter.favorite !== undefined && !!prompt.favorite !== filter.favorite) return false;
+    if (filter.tag !== undefined && !prompt.tags.includes(filter.tag)) return false;
+    if (filter.since !== undefined && prompt.timestamp < filter.since) return false;
+    if (filter.minQuality !== undefined && prompt.qualityScore < filter.minQuality) return false;
+    if (filter.maxQuality !== undefined && prompt.qualityScore > filter.maxQuality) return false;
+    return true;
+}
+
+// Walk the best index for the query: a compound [field, sort] index for the first indexed filter, else the sort index
+// A date range on creation time narrows the walk when sorting by it
+function openQueryCursor(store: IDBObjectStore, filter: PromptFilter, sort: PromptSort): IDBRequest<IDBCursorWithValue | null> {
+    const field = INDEXED_FILTERS.find((f) => filter[f] !== undefined);
+    const since = sort === "timestamp" && filter.since !== undefined ? filter.since : -Infinity;
+    if (!field) return store.index(sort).openCursor(since > -Infinity ? IDBKeyRange.lowerBound(since) : null, "prev");
+
+    const value = field === "favorite" ? (filter.favorite ? 1 : 0) : filter[field]!;
+    const range = IDBKeyRange.bound([value, since], [value, Infinity]);
+    return store.index(`${field}_${sort}`).openCursor(range, "prev");
+}
+
+/**
+ * One page of history, newest first. Pass the returned `next` as `after` for the following page.
+ * Filters other than the indexed one are checked while walking the cursor, so only the page is held in memory.
+ */
+export async function queryPrompts({ filter = {}, sort = "timestamp", limit = PAGE_SIZE, after = null }: PromptQuery = {}): Promise<PromptPage> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const request = openQueryCursor(tx.objectStore(STORE_NAME), filter, sort);
+        const prompts: SavedPrompt[] = [];
+        let positioned = !after;
+
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve({ prompts, next: null });
+
+            if (after) {
+                const keyOrder = indexedDB.cmp(cursor.key, after.key);
+                const atAfter = keyOrder === 0 && indexedDB.cmp(cursor.primaryKey, after.id) === 0;
+                // Jump straight to the previous page's last prompt, then step past it
+                if (!positioned && !atAfter && (keyOrder > 0 || (keyOrder === 0 && indexedDB.cmp(cursor.primaryKey, after.id) > 0))) {
+                    positioned = true;
+                    return cursor.continuePrimaryKey(after.key, after.id);
+                }
+                positioned = true;
+                if (atAfter) return cursor.continue();
+            }
+
+            const prompt = cursor.value as SavedPrompt;
+            if (matchesFilter(prompt, filter)) prompts.push(prompt);
+            if (prompts.length === limit) {
+                return resolve({ prompts, next: { key: cursor.key, id: prompt.id } });
+            }
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Ranked full-text search (search-index.ts) over history, restricted to prompts passing the filter.
+ * Results are not paginated: the best `limit` hits come back.
+ */
+export async function searchPrompts(query: string, filter: PromptFilter = {}, limit = PAGE_SIZE): Promise<SearchHit[]> {
+    const { search } = await getHistoryIndexes();
+    return search.search(query, limit, (prompt) => matchesFilter(prompt, filter));
 }
 
-export async function searchPrompts(query: string): Promise<SavedPrompt[]> {
-    const all = await getAllPrompts();
-    const lower = query.toLowerCase();
-    return all.filter(
-        (p) =>
-            p.title.toLowerCase().includes(lower) ||
-            p.rawTranscript.toLowerCase().includes(lower) ||
-            p.intent.toLowerCase().includes(lower)
-    );
+/**
+ * Saved prompts resembling `text` (similarity.ts), best first. Falls back to the local engine when
+ * the embedding backend fails, so suggestions keep working offline.
+ */
+export async function findSimilarPrompts(text: string, { limit = 3, exclude, embeddings }: SimilarQuery = {}): Promise<SimilarPrompt[]> {
+    const { similarity } = await getHistoryIndexes();
+    if (embeddings) {
+        try {
+            return await embeddings.similar(text, similarity.prompts(), limit, undefined, exclude);
+        } catch (err) {
+            console.warn("Embedding similarity failed, using local similarity:", err);
+        }
+    }
+    return similarity.similar(text, limit, undefined, exclude);
 }
@@ -0,0 +1,154 @@
+// Chunked NDJSON streaming shared by the API routes and the browser
+// One JSON event per line; the final "done" event carries the same body the non-streaming route returns
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+export type StreamEvent<TDone = unknown> =
+    | { type: "field"; name: string; value: unknown }   // a structured-prompt field finished
+    | { type: "item"; index: number; value: unknown }   // an array element (e.g. one LLM format) finished
+    | { type: "done"; payload: TDone }
+    | { type: "error"; error: string };
+
+// --- Server side ---
+
+/**
+ * Build a streaming NDJSON Response. `run` receives a `send` function and should
+ * finish by sending a "done" event; thrown errors become an "error" event.
+ */
+export function ndjsonResponse<TDone>(
+    run: (send: (event: StreamEvent<TDone>) => void, signal: AbortSignal) => Promise<void>,
+    signal: AbortSignal
+): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: StreamEvent<TDone>) => {
+                if (!signal.aborted) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+            };
+            try {
+                await run(send, signal);
+            } catch (err) {
+                send({ type: "error", error: (err as Error).message || "Stream failed" });
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Client already disconnected
+                }
+            }
+        },
+    });
+
+    return new Response(body, {
+        headers: {
+            "Content-Type": NDJSON_CONTENT_TYPE,
+            "Cache-Control": "no-cache, no-transform",
+        },
+    });
+}
+
+// Raw text of each top-level member of the first object/array that has been fully received
+function completedMembers(text: string, open: "{" | "["): string[] {
+    const start = text.indexOf(open);
+    if (start < 0) return [];
+
+    const members: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let memberStart = start + 1;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === "\\") escaped = true;
+            else if (ch === "\"") inString = false;
+            continue;
+        }
+        if (ch === "\"") {
+            inString = true;
+        } else if (ch === "{" || ch === "[") {
+            depth++;
+        } else if (ch === "}" || ch === "]") {
+            depth--;
+            if (depth === 0) {
+                members.push(text.slice(memberStart, i));
+                break;
+            }
+        } else if (ch === "," && depth === 1) {
+            members.push(text.slice(memberStart, i));
+            memberStart = i + 1;
+        }
+    }
+
+    return members.filter((m) => m.trim().length > 0);
+}
+
+// Fields of a JSON object whose values have been fully streamed so far
+export function completedObjectFields(text: string): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    for (const member of completedMembers(text, "{")) {
+        try {
+            Object.assign(fields, JSON.parse(`{${member}}`));
+        } catch {
+            // Not valid JSON yet (or ever) — skip
+        }
+    }
+    return fields;
+}
+
+// Elements of a JSON array that have been fully streamed so far
+export function completedArrayItems(text: string): unknown[] {
+    const items: unknown[] = [];
+    for (const member of completedMembers(text, "[")) {
+        try {
+            items.push(JSON.parse(member));
+        } catch {
+            // Not valid JSON yet (or ever) — skip
+        }
+    }
+    return items;
+}
+
+// --- Client side ---
+
+/**
+ * Read an NDJSON response, calling onEvent for each event. Resolves with the
+ * "done" payload. Plain JSON responses (servers without streaming support)
+ * are passed straight through as the payload.
+ */
+export async function readNDJSON<TDone>(
+    res: Response,
+    onEvent: (event: StreamEvent<TDone>) => void
+): Promise<TDone> {
+    if (!res.headers.get("Content-Type")?.includes(NDJSON_CONTENT_TYPE) || !res.body) {
+        return res.json() as Promise<TDone>;
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let done: TDone | undefined;
+
+    const handle = (line: string) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line) as StreamEvent<TDone>;
+        if (event.type === "error") throw new Error(event.error);
+        if (event.type === "done") done = event.payload;
+        onEvent(event);
+    };
+
+    while (true) {
+        const { value, done: finished } = await reader.read();
+        if (finished) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach(handle);
+    }
+    handle(buffer);
+
+    if (done === undefined) throw new Error("Stream ended before completion");
+    return done;
+}
@@ -0,0 +1,83 @@
+// Per-language cue words for the rule-based structurer
+// Term syntax ("stem*", "word$") is described in lexicon-match.ts
+
+// Constraints implied by a single word ("free", "simple", ...), always written out in English
+export const IMPLIED_CONSTRAINTS = {
+    free: "Must use only free/open-source tools",
+    simple: "Keep the solution simple and straightforward",
+    fast: "Optimize for speed and performance",
+    secure: "Follow security best practices",
+} as const;
+
+export type ImpliedConstraint = keyof typeof IMPLIED_CONSTRAINTS;
+
+export interface StructureLexicon {
+    requirement: string[];    // marks a sentence as something the user wants
+    constraint: string[];     // marks a sentence as a limitation ("no", "without", "only")
+    clauseBreaks: string[];   // spoken connectors that separate ideas when speech has no punctuation
+    clauseEnds: string[];     // clause-final verbs in verb-final languages ("కావాలి", "चाहिए")
+    implied: Record<ImpliedConstraint, string[]>;
+}
+
+export const STRUCTURE_LEXICONS: Record<string, StructureLexicon> = {
+    en: {
+        requirement: ["need*", "want*", "should", "must", "include*", "add", "with", "plus", "also", "and", "feature*"],
+        constraint: ["no", "don't", "dont", "do not", "without", "avoid", "never"],
+        clauseBreaks: ["and also", "and then", "also", "plus", "additionally"],
+        clauseEnds: [],
+        implied: {
+            free: ["free"],
+            simple: ["simple*"],
+            fast: ["fast", "faster", "quick*"],
+            secure: ["secur*"],
+        },
+    },
+
+    te: {
+        requirement: [
+            "కావాలి", "అవసరం", "ఉండాలి", "చేయాలి", "కలిగి", "చేర్చ", "జోడించ", "ఫీచర్", "కూడా$",
+            "మరియు$", "తప్పనిసరి",
+        ],
+        constraint: [
+            "వద్దు", "లేకుండా", "కాకుండా", "మాత్రమే", "ఉండకూడదు", "చేయకూడదు", "వాడకూడదు", "వాడొద్దు",
+        ],
+        clauseBreaks: ["మరియు$", "ఇంకా$", "అలాగే$", "తర్వాత$"],
+        clauseEnds: ["కావాలి$", "ఉండాలి$", "చేయాలి$", "వద్దు$", "లేదు$"],
+        implied: {
+            free: ["ఉచిత", "ఫ్రీ"],
+            simple: ["సులభ", "సింపుల్", "సరళ"],
+            fast: ["వేగ", "ఫాస్ట్"],
+            secure: ["సురక్షిత", "భద్రత", "సెక్యూర్"],
+        },
+    },
+
+    hi: {
+        requirement: [
+            "चाहिए", "चाह", "ज़रूरत", "ज़रूरी", "होना चाहिए", "शामिल", "जोड़", "साथ$", "भी$", "और$", "फीचर",
+        ],
+        constraint: ["नहीं", "बिना", "सिर्फ", "केवल", "मत$", "से बचें", "मना"],
+        clauseBreaks: ["और$", "साथ ही", "इसके अलावा", "फिर$"],
+        clauseEnds: ["चाहिए$", "है$", "हैं$", "करो$", "करें$"],
+        implied: {
+            free: ["मुफ़्त", "फ्री"],
+            simple: ["सरल", "आसान", "सिंपल"],
+            fast: ["तेज़", "जल्दी", "फास्ट"],
+            secure: ["सुरक्षित", "सुरक्षा", "सिक्योर"],
+        },
+    },
+
+    ta: {
+        requirement: [
+            "வேண்டும்", "தேவை", "சேர்க்க", "இணைக்க", "உடன்$", "மேலும்$", "மற்றும்$", "அம்சம்", "கண்டிப்பாக",
+        ],
+        constraint: ["வேண்டாம்", "இல்லாமல்", "மட்டும்", "கூடாது", "தவிர்"],
+        clauseBreaks: ["மற்றும்$", "மேலும்$", "அத்துடன்$", "பிறகு$"],
+        clauseEnds: ["வேண்டும்$", "வேண்டாம்$", "கூடாது$"],
+        implied: {
+            free: ["இலவச", "ஃப்ரீ"],
+            simple: ["எளிய", "எளிமை", "சிம்பிள்"],
+            fast: ["வேகம", "வேகமா", "ஃபாஸ்ட்"],
+            secure: ["பாதுகாப்ப", "செக்யூர்"],
+        },
+    },
+};
@@ -0,0 +1,17 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { structurePrompt } from "./structurer";
+
+describe("structurePrompt", () => {
+    it("keeps version numbers and decimals inside one sentence", () => {
+        const prompt = structurePrompt("I need a Python 3.12 script that parses logs. Don't use pandas.", undefined, "en-US");
+        assert.deepEqual(prompt.requirements, ["I need a Python 3.12 script that parses logs"]);
+        assert.deepEqual(prompt.constraints, ["Don't use pandas"]);
+    });
+
+    it("splits Telugu sentences at the danda", () => {
+        const prompt = structurePrompt("నాకు లాగిన్ పేజీ కావాలి। పాస్‌వర్డ్ రీసెట్ ఉండాలి। డేటాబేస్ వద్దు।", undefined, "te-IN");
+        assert.deepEqual(prompt.requirements, ["నాకు లాగిన్ పేజీ కావాలి", "పాస్‌వర్డ్ రీసెట్ ఉండాలి"]);
+        assert.ok(prompt.constraints.includes("డేటాబేస్ వద్దు"));
+    });
+});
@@ -2,6 +2,11 @@
 // 100% free — no LLM API calls needed
 // Uses intelligent parsing, intent detection, and prompt engineering templates
 
+import { classifyIntent, Intent, INTENT_INFO } from "./intents";
+import { CompiledTerm, compileTerm, containsAny, normalizeText } from "./lexicon-match";
+import { analyzePrompt } from "./quality";
+import { IMPLIED_CONSTRAINTS, ImpliedConstraint, STRUCTURE_LEXICONS } from "./structure-lexicons";
+
 export interface StructuredPrompt {
     title: string;
     intent: string;
@@ -13,176 +18,139 @@ export interface StructuredPrompt {
     qualityScore: number;
 }
 
-// Intent categories
-const INTENT_PATTERNS: Record<string, string[]> = {
-    "Code Generation": [
-        "code", "program", "function", "api", "app", "application", "build", "create",
-        "develop", "implement", "write code", "script", "website", "web", "database",
-        "backend", "frontend", "full stack", "fullstack", "rest api", "endpoint",
-        "component", "class", "module", "library", "package", "crud", "authentication",
-        "login", "signup", "deploy", "server", "client", "mobile", "react", "next",
-        "python", "javascript", "typescript", "java", "node", "express", "django",
-        "flask", "html", "css", "sql", "mongodb", "firebase", "docker", "kubernetes",
-    ],
-    "Writing & Content": [
-        "write", "essay", "article", "blog", "post", "email", "letter", "report",
-        "documentation", "readme", "story", "poem", "speech", "presentation",
-        "proposal", "resume", "cover letter", "content", "copy", "social media",
-        "tweet", "caption", "headline", "description", "summary", "translate",
-    ],
-    "Analysis & Research": [
-        "analyze", "analysis", "research", "compare", "evaluate", "review", "assess",
-        "investigate", "study", "examine", "explain", "understand", "learn", "teach",
-        "data", "statistics", "trend", "insight", "report", "survey",
-    ],
-    "Problem Solving": [
-        "fix", "debug", "error", "issue", "problem", "solve", "help", "why",
-        "how to", "troubleshoot", "broken", "not working", "crash", "bug",
-        "optimize", "improve", "refactor", "performance",
-    ],
-    "Creative": [
-        "design", "ui", "ux", "logo", "brand", "color", "layout", "mockup",
-        "wireframe", "prototype", "animation", "illustration", "image", "video",
-        "music", "game", "idea", "brainstorm", "creative", "innovate",
-    ],
-    "Data & Automation": [
-        "automate", "automation", "workflow", "pipeline", "etl", "scrape", "crawl",
-        "parse", "extract", "transform", "csv", "json", "xml", "excel", "spreadsheet",
-        "dashboard", "chart", "graph", "visualization", "bot", "cron",
-    ],
-};
-
-function detectIntent(text: string): string {
-    const lower = text.toLowerCase();
-    let bestMatch = "General";
-    let bestScore = 0;
-
-    for (const [intent, keywords] of Object.entries(INTENT_PATTERNS)) {
-        let score = 0;
-        for (const keyword of keywords) {
-            if (lower.includes(keyword)) {
-                score += keyword.split(" ").length; // Multi-word matches score higher
-            }
-        }
-        if (score > bestScore) {
-            bestScore = score;
-            bestMatch = intent;
-        }
-    }
-
-    return bestMatch;
+// Includes the danda (।) used in Telugu and Devanagari text; "." only ends a sentence before a space,
+// so versions and decimals ("Python 3.12") stay whole
+const SENTENCE_END = /[.!?]+(?=\s|$)|[|\n।॥。！？]+/;
+const LONG_SENTENCE_WORDS = 12;              // longer unpunctuated speech is split at spoken connectors
+const MIN_CLAUSE_WORDS = 2;
+
+interface CompiledStructureLexicon {
+    requirement: CompiledTerm[];
+    constraint: CompiledTerm[];
+    clauseBreaks: CompiledTerm[];
+    clauseEnds: CompiledTerm[];
+    implied: [ImpliedConstraint, CompiledTerm[]][];
 }
 
-function extractRequirements(text: string): string[] {
-    const requirements: string[] = [];
-    const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 5);
-
-    for (const sentence of sentences) {
-        const lower = sentence.toLowerCase().trim();
-        if (
-            lower.includes("need") ||
-            lower.includes("want") ||
-            lower.includes("should") ||
-            lower.includes("must") ||
-            lower.includes("include") ||
-            lower.includes("add") ||
-            lower.includes("with") ||
-            lower.includes("plus") ||
-            lower.includes("also") ||
-            lower.includes("and") ||
-            lower.includes("feature")
-        ) {
-            requirements.push(sentence.trim());
-        }
-    }
+const compiledLexicons = new Map<string, CompiledStructureLexicon>();
 
-    // If no specific requirements found, treat each sentence as a requirement
-    if (requirements.length === 0) {
-        return sentences.map((s) => s.trim()).filter((s) => s.length > 5);
-    }
+function compileLexicon(code: string): CompiledStructureLexicon {
+    const cached = compiledLexicons.get(code);
+    if (cached) return cached;
 
-    return requirements;
+    const lexicon = STRUCTURE_LEXICONS[code];
+    const result: CompiledStructureLexicon = {
+        requirement: lexicon.requirement.map(compileTerm),
+        constraint: lexicon.constraint.map(compileTerm),
+        clauseBreaks: lexicon.clauseBreaks.map(compileTerm),
+        clauseEnds: lexicon.clauseEnds.map(compileTerm),
+        implied: (Object.keys(lexicon.implied) as ImpliedConstraint[]).map((key) => [key, lexicon.implied[key].map(compileTerm)]),
+    };
+    compiledLexicons.set(code, result);
+    return result;
 }
 
-function extractConstraints(text: string): string[] {
-    const constraints: string[] = [];
-    const lower = text.toLowerCase();
+// English cues are always included because speech is often code-mixed; without a language, try them all
+function lexiconsFor(language?: string): CompiledStructureLexicon[] {
+    const base = language?.split("-")[0].toLowerCase();
+    const codes = !language ? Object.keys(STRUCTURE_LEXICONS)
+        : base && STRUCTURE_LEXICONS[base] ? Array.from(new Set(["en", base]))
+            : ["en"];
+    return codes.map(compileLexicon);
+}
 
-    if (lower.includes("no ") || lower.includes("don't") || lower.includes("without")) {
-        const sentences = text.split(/[.!?]+/);
-        for (const s of sentences) {
-            if (/\b(no |don'?t|without|avoid|never)\b/i.test(s)) {
-                constraints.push(s.trim());
-            }
-        }
+// Length (in words) of the connector or clause-final verb starting at words[index], or 0
+function termAt(normalizedWords: string[], index: number, terms: CompiledTerm[]): number {
+    for (const term of terms) {
+        const length = term.term.split(" ").length;
+        const candidate = normalizedWords.slice(index, index + length).join(" ");
+        term.pattern.lastIndex = 0;
+        const match = term.pattern.exec(candidate);
+        if (match && match.index === 0 && match[0].length === candidate.length) return length;
     }
-
-    // Technology-specific constraints
-    if (lower.includes("free")) constraints.push("Must use only free/open-source tools");
-    if (lower.includes("simple")) constraints.push("Keep the solution simple and straightforward");
-    if (lower.includes("fast") || lower.includes("quick")) constraints.push("Optimize for speed and performance");
-    if (lower.includes("secure") || lower.includes("security")) constraints.push("Follow security best practices");
-
-    return constraints;
+    return 0;
 }
 
-function determineOutputFormat(intent: string, text: string): string {
-    const lower = text.toLowerCase();
-
-    if (intent === "Code Generation") {
-        if (lower.includes("explain")) return "Code with detailed comments and explanation";
-        return "Complete, production-ready code with comments";
+function splitLongSentence(sentence: string, lexicons: CompiledStructureLexicon[]): string[] {
+    const words = sentence.split(/\s+/);
+    if (words.length <= LONG_SENTENCE_WORDS) return [sentence];
+
+    const normalizedWords = words.map(normalizeText);
+    const breaks = lexicons.flatMap((lx) => lx.clauseBreaks);
+    const ends = lexicons.flatMap((lx) => lx.clauseEnds);
+    const clauses: string[] = [];
+    let current: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+        // A connector at the very start of a clause is dropped too ("... కావాలి మరియు ...")
+        const atBoundary = current.length === 0 || current.length >= MIN_CLAUSE_WORDS;
+        const connector = atBoundary ? termAt(normalizedWords, i, breaks) : 0;
+        if (connector > 0) {
+            if (current.length > 0) clauses.push(current.join(" "));
+            current = [];
+            i += connector - 1;  // drop the connector itself
+            continue;
+        }
+        current.push(words[i]);
+        if (current.length >= MIN_CLAUSE_WORDS && i < words.length - 1 && termAt(normalizedWords, i, ends) > 0) {
+            clauses.push(current.join(" "));
+            current = [];
+        }
     }
-    if (intent === "Writing & Content") return "Well-structured written content";
-    if (intent === "Analysis & Research") return "Detailed analysis with key findings and recommendations";
-    if (intent === "Problem Solving") return "Step-by-step solution with explanation";
-    if (intent === "Creative") return "Creative output with reasoning behind design choices";
-    if (intent === "Data & Automation") return "Implementation with sample data and usage instructions";
+    if (current.length > 0) clauses.push(current.join(" "));
+    return clauses;
+}
 
-    return "Clear, comprehensive response";
+function splitSentences(text: string, lexicons: CompiledStructureLexicon[]): string[] {
+    return text
+        .split(SENTENCE_END)
+        .flatMap((s) => splitLongSentence(s.trim(), lexicons))
+        .map((s) => s.trim())
+        .filter((s) => s.length > 5);
 }
 
-function calculateQualityScore(prompt: StructuredPrompt): number {
-    let score = 40; // Base score
+function isConstraint(sentence: string, lexicons: CompiledStructureLexicon[]): boolean {
+    const normalized = normalizeText(sentence);
+    return lexicons.some((lx) => containsAny(normalized, lx.constraint));
+}
 
-    // Length bonus (detailed prompts are better)
-    if (prompt.fullPrompt.length > 200) score += 10;
-    if (prompt.fullPrompt.length > 400) score += 10;
-    if (prompt.fullPrompt.length > 600) score += 5;
+function extractRequirements(sentences: string[], lexicons: CompiledStructureLexicon[]): string[] {
+    const candidates = sentences.filter((s) => !isConstraint(s, lexicons));
+    const requirements = candidates.filter((s) => {
+        const normalized = normalizeText(s);
+        return lexicons.some((lx) => containsAny(normalized, lx.requirement));
+    });
 
-    // Requirements clarity
-    if (prompt.requirements.length > 0) score += 10;
-    if (prompt.requirements.length > 2) score += 5;
-    if (prompt.requirements.length > 4) score += 5;
+    // If no specific requirements found, treat each sentence as a requirement
+    return requirements.length > 0 ? requirements : candidates;
+}
 
-    // Has constraints (shows thoughtfulness)
-    if (prompt.constraints.length > 0) score += 5;
+function extractConstraints(text: string, sentences: string[], lexicons: CompiledStructureLexicon[]): string[] {
+    const constraints = sentences.filter((s) => isConstraint(s, lexicons));
 
-    // Intent detected (not generic)
-    if (prompt.intent !== "General") score += 10;
+    // Single words that imply a constraint ("free", "ఉచిత", "सरल")
+    const normalized = normalizeText(text);
+    for (const key of Object.keys(IMPLIED_CONSTRAINTS) as ImpliedConstraint[]) {
+        const implied = lexicons.some((lx) => lx.implied.some(([k, terms]) => k === key && containsAny(normalized, terms)));
+        if (implied) constraints.push(IMPLIED_CONSTRAINTS[key]);
+    }
 
-    return Math.min(score, 100);
+    return constraints;
 }
 
-export function structurePrompt(rawText: string, conversationHistory?: string): StructuredPrompt {
-    const intent = detectIntent(rawText);
-    const requirements = extractRequirements(rawText);
-    const constraints = extractConstraints(rawText);
-    const outputFormat = determineOutputFormat(intent, rawText);
-
-    // Generate descriptive title
-    const words = rawText.split(/\s+/).slice(0, 8).join(" ");
-    const title = words.length > 50 ? words.substring(0, 47) + "..." : words;
-
-    // Build context from conversation history
-    const context = conversationHistory
-        ? `Based on our conversation, the user wants: ${rawText}`
-        : rawText;
+function determineOutputFormat(intent: Intent, text: string): string {
+    if (intent === "Code Generation" && text.toLowerCase().includes("explain")) {
+        return "Code with detailed comments and explanation";
+    }
+    return INTENT_INFO[intent].outputFormat;
+}
 
-    // Build the full structured prompt
+// Build the full structured prompt from its fields; blank list entries (half-edited rows) are skipped
+export function buildFullPrompt(prompt: Omit<StructuredPrompt, "fullPrompt" | "qualityScore">): string {
+    const requirements = prompt.requirements.map((r) => r.trim()).filter(Boolean);
+    const constraints = prompt.constraints.map((c) => c.trim()).filter(Boolean);
     const sections: string[] = [];
 
-    sections.push(`## Task\n${context}`);
+    sections.push(`## Task\n${prompt.context}`);
 
     if (requirements.length > 0) {
         sections.push(
@@ -196,26 +164,45 @@ export function structurePrompt(rawText: string, conversationHistory?: string):
         );
     }
 
-    sections.push(`## Expected Output\n${outputFormat}`);
+    sections.push(`## Expected Output\n${prompt.outputFormat}`);
 
     sections.push(
         `## Guidelines\n- Be thorough and detailed in your response\n- Follow best practices and conventions\n- Provide explanations for important decisions\n- If anything is unclear, state your assumptions`
     );
 
-    const fullPrompt = sections.join("\n\n");
+    return sections.join("\n\n");
+}
+
+// Recompute the derived fields after the structured fields changed (e.g. in the editor)
+export function rebuildPrompt(prompt: StructuredPrompt): StructuredPrompt {
+    return { ...prompt, fullPrompt: buildFullPrompt(prompt), qualityScore: analyzePrompt(prompt).score };
+}
+
+export function structurePrompt(rawText: string, conversationHistory?: string, language?: string): StructuredPrompt {
+    const { intent } = classifyIntent(rawText, language);
+    const lexicons = lexiconsFor(language);
+    const sentences = splitSentences(rawText, lexicons);
+    const requirements = extractRequirements(sentences, lexicons);
+    const constraints = extractConstraints(rawText, sentences, lexicons);
+    const outputFormat = determineOutputFormat(intent, rawText);
 
-    const result: StructuredPrompt = {
+    // Generate descriptive title
+    const words = rawText.split(/\s+/).slice(0, 8).join(" ");
+    const title = words.length > 50 ? words.substring(0, 47) + "..." : words;
+
+    // Build context from conversation history
+    const context = conversationHistory
+        ? `Based on our conversation, the user wants: ${rawText}`
+        : rawText;
+
+    return rebuildPrompt({
         title,
         intent,
         context,
         requirements,
         constraints,
         outputFormat,
-        fullPrompt,
+        fullPrompt: "",
         qualityScore: 0,
-    };
-
-    result.qualityScore = calculateQualityScore(result);
-
-    return result;
+    });
 }
@@ -0,0 +1,48 @@
+// Tags for saved prompts
+// Tags are lowercase and hyphenated; suggestions are the prompt's intent plus its most telling keywords
+
+import { tokenize } from "./search-index";
+import type { SavedPrompt } from "./storage";
+
+const MAX_TAG_LENGTH = 32;
+
+// Words that say nothing about what a prompt is for
+const FILLER_WORDS = new Set([
+    "i", "me", "my", "we", "our", "you", "your", "that", "this", "these", "those", "there", "which",
+    "want", "need", "make", "create", "write", "build", "give", "help", "please", "can", "could",
+    "should", "would", "will", "like", "some", "about", "from", "into", "also", "just", "very",
+    "using", "use", "get", "have", "has", "are", "was", "not", "all", "any", "one", "new",
+]);
+
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, "").toLowerCase().replace(/\s+/g, "-").slice(0, MAX_TAG_LENGTH);
+}
+
+// Comma- or space-separated tags as typed, normalized and without duplicates
+export function parseTags(input: string): string[] {
+    return [...new Set(input.split(/[,\s]+/).map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Up to `limit` tags for a prompt it does not have yet: its intent first, then the words of the
+ * title and (English) transcript that occur most, title words counting double.
+ */
+export function suggestTags(prompt: SavedPrompt, limit = 5): string[] {
+    const counts = new Map<string, number>();
+    const count = (text: string, weight: number) => {
+        for (const word of tokenize(text)) {
+            if (FILLER_WORDS.has(word) || /^\d+$/.test(word)) continue;
+            if (/^[a-z]/.test(word) && word.length < 3) continue;
+            counts.set(word, (counts.get(word) ?? 0) + weight);
+        }
+    };
+    count(prompt.title, 2);
+    count(prompt.englishTranscript ?? prompt.rawTranscript, 1);
+
+    // Map keeps first-seen order, so ties go to the word that came first
+    const keywords = [...counts.entries()].sort(([, a], [, b]) => b - a).map(([word]) => word);
+    const existing = new Set(prompt.tags);
+    return [...new Set([normalizeTag(prompt.intent), ...keywords.map(normalizeTag)])]
+        .filter((tag) => tag && !existing.has(tag))
+        .slice(0, limit);
+}
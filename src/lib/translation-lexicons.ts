@@ -0,0 +1,132 @@
+// Word lists for the offline translator (translation.ts)
+// Keys are matched after normalizeText, values are English; "" drops the word.
+// Anything not listed here is transliterated to Latin letters instead.
+
+export interface TranslationLexicon {
+    words: Record<string, string>;          // words and short phrases, longest phrase wins
+    suffixes: Record<string, string>;       // case endings glued to a known word ("లాగిన్తో" → "with login")
+    postpositions: Record<string, string>;  // separate words that become a preposition before the previous word
+    clauseFinal: Record<string, string>;    // verb-final wants/commands, moved to the front of their clause
+}
+
+// Spoken-English technical words written in Indic scripts, shared by every language below
+const TECH_WORDS: Record<string, string> = {
+    // Telugu
+    "యాప్": "app", "అప్లికేషన్": "application", "వెబ్సైట్": "website", "వెబ్ సైట్": "website", "పేజీ": "page",
+    "లాగిన్": "login", "పాస్వర్డ్": "password", "డేటాబేస్": "database", "డేటా": "data", "ఫీచర్": "feature",
+    "ఫీచర్లు": "features", "కోడ్": "code", "ప్రోగ్రామ్": "program", "ఫంక్షన్": "function", "స్క్రిప్ట్": "script",
+    "పైథాన్": "Python", "జావాస్క్రిప్ట్": "JavaScript", "రియాక్ట్": "React", "ఏపీఐ": "API", "సర్వర్": "server",
+    "డాష్బోర్డ్": "dashboard", "యూజర్": "user", "యూజర్లు": "users", "ఈమెయిల్": "email", "రిపోర్ట్": "report",
+    "బటన్": "button", "ఫారమ్": "form", "చార్ట్": "chart", "టేబుల్": "table", "ఫైల్": "file", "మొబైల్": "mobile",
+    "డిజైన్": "design", "లోగో": "logo", "బ్లాగ్": "blog", "ఆర్టికల్": "article", "టుడూ": "todo", "టు డూ": "todo",
+    "ఫ్రీ": "free", "సింపుల్": "simple", "ఫాస్ట్": "fast", "సెక్యూర్": "secure", "డార్క్ మోడ్": "dark mode",
+    "ఫార్మల్": "formal", "క్యాజువల్": "casual", "ఫ్రెండ్లీ": "friendly", "ప్రొఫెషనల్": "professional",
+
+    // Hindi
+    "ऐप": "app", "एप": "app", "एप्लिकेशन": "application", "वेबसाइट": "website", "पेज": "page", "लॉगिन": "login",
+    "पासवर्ड": "password", "डेटाबेस": "database", "डाटाबेस": "database", "डेटा": "data", "डाटा": "data",
+    "फीचर": "feature", "कोड": "code", "प्रोग्राम": "program", "फंक्शन": "function", "स्क्रिप्ट": "script",
+    "पाइथन": "Python", "पायथन": "Python", "जावास्क्रिप्ट": "JavaScript", "रिएक्ट": "React", "एपीआई": "API",
+    "सर्वर": "server", "डैशबोर्ड": "dashboard", "यूजर": "user", "यूज़र": "user", "ईमेल": "email", "रिपोर्ट": "report",
+    "बटन": "button", "फॉर्म": "form", "चार्ट": "chart", "टेबल": "table", "फाइल": "file", "फ़ाइल": "file",
+    "मोबाइल": "mobile", "डिज़ाइन": "design", "डिजाइन": "design", "लोगो": "logo", "ब्लॉग": "blog", "आर्टिकल": "article",
+    "टूडू": "todo", "टुडू": "todo", "टू डू": "todo", "फ्री": "free", "सिंपल": "simple", "फास्ट": "fast",
+    "सिक्योर": "secure", "डार्क मोड": "dark mode", "फॉर्मल": "formal", "कैजुअल": "casual", "फ्रेंडली": "friendly",
+    "प्रोफेशनल": "professional",
+
+    // Tamil
+    "ஆப்": "app", "அப்ளிகேஷன்": "application", "வெப்சைட்": "website", "இணையதளம்": "website", "பக்கம்": "page",
+    "லாகின்": "login", "பாஸ்வேர்ட்": "password", "டேட்டாபேஸ்": "database", "டேட்டா": "data", "தரவு": "data",
+    "அம்சம்": "feature", "அம்சங்கள்": "features", "ஃபீச்சர்": "feature", "கோட்": "code", "நிரல்": "program",
+    "ஃபங்க்ஷன்": "function", "ஸ்கிரிப்ட்": "script", "பைதான்": "Python", "ஜாவாஸ்கிரிப்ட்": "JavaScript",
+    "ரியாக்ட்": "React", "ஏபிஐ": "API", "சர்வர்": "server", "டாஷ்போர்டு": "dashboard", "யூசர்": "user",
+    "பயனர்": "user", "பயனர்கள்": "users", "ஈமெயில்": "email", "ரிப்போர்ட்": "report", "பட்டன்": "button",
+    "ஃபார்ம்": "form", "சார்ட்": "chart", "டேபிள்": "table", "ஃபைல்": "file", "கோப்பு": "file", "மொபைல்": "mobile",
+    "டிசைன்": "design", "லோகோ": "logo", "பிளாக்": "blog", "கட்டுரை": "article", "டுடூ": "todo", "டு டூ": "todo",
+    "ஃப்ரீ": "free", "சிம்பிள்": "simple", "ஃபாஸ்ட்": "fast", "செக்யூர்": "secure", "டார்க் மோட்": "dark mode",
+    "ஃபார்மல்": "formal", "கேஷுவல்": "casual", "ஃப்ரெண்ட்லி": "friendly", "ப்ரொஃபஷனல்": "professional",
+};
+
+export const TRANSLATION_LEXICONS: Record<string, TranslationLexicon> = {
+    te: {
+        words: {
+            ...TECH_WORDS,
+            "నాకు": "I", "నేను": "I", "మాకు": "we", "మేము": "we", "మనకు": "we", "మీరు": "you", "నువ్వు": "you",
+            "ఒక": "a", "ఒక్క": "one", "ఈ": "this", "ఆ": "that", "అది": "it", "ఇది": "this", "అన్ని": "all",
+            "మరియు": "and", "ఇంకా": "and", "అలాగే": "also", "కూడా": "also", "తర్వాత": "then", "లేదా": "or",
+            "కానీ": "but", "మాత్రమే": "only", "లేకుండా": "without", "లేదు": "not", "కాదు": "not",
+            "ఉచిత": "free", "ఉచితంగా": "free", "సులభమైన": "simple", "సులభంగా": "simple", "సరళమైన": "simple",
+            "వేగంగా": "fast", "వేగవంతమైన": "fast", "సురక్షితమైన": "secure", "సురక్షితంగా": "secure",
+            "చిన్న": "small", "పెద్ద": "large", "కొత్త": "new", "మంచి": "good", "అందమైన": "beautiful",
+            "గురించి": "about", "కోసం": "for", "వివరంగా": "in detail", "పూర్తి": "complete",
+            "కథ": "story", "కవిత": "poem", "వ్యాసం": "essay", "ఉత్తరం": "letter", "లెక్క": "calculation",
+            "సమస్య": "problem", "లోపం": "error", "పరీక్ష": "test", "జాబితా": "list", "వివరణ": "explanation",
+            "తెలుగు": "Telugu", "ఇంగ్లీష్": "English",
+        },
+        suffixes: { "తో": "with", "లో": "in", "కోసం": "for", "కు": "to", "కి": "to", "ని": "", "ను": "", "గా": "" },
+        postpositions: { "తో": "with", "లో": "in", "కోసం": "for", "గురించి": "about", "లేకుండా": "without" },
+        clauseFinal: {
+            "కావాలి": "need", "అవసరం": "need", "ఉండాలి": "should have", "చేయాలి": "should do",
+            "వద్దు": "don't want", "ఉండకూడదు": "must not have", "చేయకూడదు": "must not do",
+            "వాడకూడదు": "must not use", "వాడొద్దు": "don't use", "వాడాలి": "should use", "వాడు": "use",
+            "తయారు చేయి": "build", "తయారు చేయండి": "build", "చేయి": "make", "చేయండి": "make",
+            "రాయి": "write", "రాయండి": "write", "రాసి ఇవ్వు": "write", "వివరించు": "explain", "వివరించండి": "explain",
+            "చెప్పు": "tell", "చెప్పండి": "tell", "ఇవ్వు": "give", "ఇవ్వండి": "give", "సరిచేయి": "fix",
+            "సరిచేయండి": "fix", "విశ్లేషించు": "analyze", "పోల్చు": "compare",
+        },
+    },
+
+    hi: {
+        words: {
+            ...TECH_WORDS,
+            "मुझे": "I", "मैं": "I", "हमें": "we", "हम": "we", "आप": "you", "तुम": "you", "मेरा": "my", "मेरी": "my",
+            "एक": "a", "यह": "this", "ये": "these", "वह": "that", "सभी": "all", "सब": "all",
+            "और": "and", "भी": "also", "साथ ही": "also", "इसके अलावा": "also", "फिर": "then", "या": "or",
+            "लेकिन": "but", "सिर्फ": "only", "केवल": "only", "बिना": "without", "नहीं": "not", "मत": "not",
+            "मुफ़्त": "free", "मुफ्त": "free", "सरल": "simple", "आसान": "simple", "तेज़": "fast", "तेज": "fast",
+            "जल्दी": "quickly", "सुरक्षित": "secure", "छोटा": "small", "बड़ा": "large", "नया": "new", "अच्छा": "good",
+            "सुंदर": "beautiful", "पूरा": "complete", "विस्तार से": "in detail", "जिसमें": "with", "जिसमे": "with",
+            "कहानी": "story", "कविता": "poem", "निबंध": "essay", "पत्र": "letter", "समस्या": "problem",
+            "त्रुटि": "error", "एरर": "error", "टेस्ट": "test", "सूची": "list", "हिंदी": "Hindi", "अंग्रेज़ी": "English",
+            "का": "", "की": "", "के": "", "को": "", "है": "", "हैं": "", "हो": "", "होना": "",
+        },
+        suffixes: {},
+        postpositions: {
+            "में": "in", "से": "with", "के साथ": "with", "के लिए": "for", "के बारे में": "about", "के बिना": "without",
+            "पर": "on",
+        },
+        clauseFinal: {
+            "चाहिए": "need", "होना चाहिए": "should have", "होनी चाहिए": "should have", "नहीं चाहिए": "don't want",
+            "नहीं होना चाहिए": "must not have", "मत करो": "don't", "मत करना": "don't", "इस्तेमाल करो": "use",
+            "इस्तेमाल मत करो": "don't use", "बनाओ": "build", "बनाइए": "build", "बनाएं": "build", "बना दो": "build",
+            "लिखो": "write", "लिखिए": "write", "लिखें": "write", "लिख दो": "write", "समझाओ": "explain",
+            "समझाइए": "explain", "बताओ": "tell", "बताइए": "tell", "दीजिए": "give", "बनाना है": "want to build",
+            "लिखना है": "want to write",
+            "ठीक करो": "fix", "सुधारो": "fix", "विश्लेषण करो": "analyze", "तुलना करो": "compare",
+        },
+    },
+
+    ta: {
+        words: {
+            ...TECH_WORDS,
+            "எனக்கு": "I", "நான்": "I", "எங்களுக்கு": "we", "நாங்கள்": "we", "நீங்கள்": "you", "நீ": "you",
+            "ஒரு": "a", "இந்த": "this", "அந்த": "that", "இது": "this", "அது": "it", "எல்லா": "all",
+            "மற்றும்": "and", "மேலும்": "also", "அத்துடன்": "also", "பிறகு": "then", "அல்லது": "or",
+            "ஆனால்": "but", "மட்டும்": "only", "இல்லாமல்": "without", "இல்லை": "not",
+            "இலவச": "free", "இலவசமாக": "free", "எளிய": "simple", "எளிமையான": "simple", "வேகமான": "fast",
+            "வேகமாக": "fast", "பாதுகாப்பான": "secure", "பாதுகாப்பாக": "secure", "சிறிய": "small", "பெரிய": "large",
+            "புதிய": "new", "நல்ல": "good", "அழகான": "beautiful", "முழு": "complete", "விரிவாக": "in detail",
+            "கதை": "story", "கவிதை": "poem", "கடிதம்": "letter", "பிரச்சனை": "problem", "பிழை": "error",
+            "சோதனை": "test", "பட்டியல்": "list", "தமிழ்": "Tamil", "ஆங்கிலம்": "English",
+        },
+        suffixes: { "ுடன்": "with", "ில்": "in", "க்கு": "for", "ுக்கு": "for", "ை": "" },
+        postpositions: { "உடன்": "with", "பற்றி": "about", "இல்லாமல்": "without", "க்காக": "for" },
+        clauseFinal: {
+            "வேண்டும்": "need", "தேவை": "need", "வேண்டாம்": "don't want", "கூடாது": "must not",
+            "பயன்படுத்து": "use", "பயன்படுத்தவும்": "use", "உருவாக்கு": "build", "உருவாக்கவும்": "build",
+            "செய்": "make", "செய்யவும்": "make", "எழுது": "write", "எழுதவும்": "write", "விளக்கு": "explain",
+            "விளக்கவும்": "explain", "சொல்": "tell", "சொல்லுங்கள்": "tell", "கொடு": "give", "கொடுங்கள்": "give",
+            "சரி செய்": "fix", "சரிசெய்": "fix", "ஒப்பிடு": "compare", "பகுப்பாய்வு செய்": "analyze",
+        },
+    },
+};
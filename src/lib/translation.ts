@@ -0,0 +1,246 @@
+// Translation stage between the transcript and the structurer
+// Non-English speech is turned into English so every structuring path (rule-based or LLM) works on one language.
+// The local backend runs offline from word lists plus a transliterator; the API backend asks the configured LLM
+// through /api/translate and falls back to the local one when the route is unreachable.
+
+import type { ApiClient } from "./api-client";
+import { normalizeText } from "./lexicon-match";
+import { TRANSLATION_LEXICONS } from "./translation-lexicons";
+
+export type TranslationBackend = "none" | "local" | "llm";
+
+export interface Translation {
+    original: string;
+    text: string;                 // English; equal to original when nothing was translated
+    language: string;             // language of the original
+    backend: TranslationBackend;  // "none" when the input was already English
+}
+
+export interface Translator {
+    translate(text: string, language: string, signal?: AbortSignal): Promise<Translation>;
+}
+
+export function isEnglish(language?: string): boolean {
+    return !language || language.toLowerCase().startsWith("en");
+}
+
+// --- Transliteration ---
+
+// Every Brahmic script block (Devanagari U+0900 … Malayalam U+0D00) puts the same letter at the same
+// offset, so one table keyed by offset covers Hindi, Bengali, Gujarati, Tamil, Telugu, Kannada and Malayalam
+const BRAHMIC_START = 0x0900;
+const BRAHMIC_END = 0x0dff;
+const DEVANAGARI_BLOCK = 0x0900;
+const VIRAMA = 0x4d;
+const NUKTA = 0x3c;
+
+const CONSONANTS: Record<number, string> = {
+    0x15: "k", 0x16: "kh", 0x17: "g", 0x18: "gh", 0x19: "ng",
+    0x1a: "ch", 0x1b: "chh", 0x1c: "j", 0x1d: "jh", 0x1e: "ny",
+    0x1f: "t", 0x20: "th", 0x21: "d", 0x22: "dh", 0x23: "n",
+    0x24: "t", 0x25: "th", 0x26: "d", 0x27: "dh", 0x28: "n", 0x29: "n",
+    0x2a: "p", 0x2b: "ph", 0x2c: "b", 0x2d: "bh", 0x2e: "m",
+    0x2f: "y", 0x30: "r", 0x31: "r", 0x32: "l", 0x33: "l", 0x34: "zh", 0x35: "v",
+    0x36: "sh", 0x37: "sh", 0x38: "s", 0x39: "h",
+    0x58: "q", 0x59: "kh", 0x5a: "gh", 0x5b: "z", 0x5c: "r", 0x5d: "rh", 0x5e: "f", 0x5f: "y",
+};
+
+const VOWELS: Record<number, string> = {
+    0x05: "a", 0x06: "aa", 0x07: "i", 0x08: "ii", 0x09: "u", 0x0a: "uu", 0x0b: "ru", 0x0c: "lu",
+    0x0d: "e", 0x0e: "e", 0x0f: "e", 0x10: "ai", 0x11: "o", 0x12: "o", 0x13: "o", 0x14: "au",
+};
+
+const VOWEL_SIGNS: Record<number, string> = {
+    0x3e: "aa", 0x3f: "i", 0x40: "ii", 0x41: "u", 0x42: "uu", 0x43: "ru", 0x44: "ruu",
+    0x45: "e", 0x46: "e", 0x47: "e", 0x48: "ai", 0x49: "o", 0x4a: "o", 0x4b: "o", 0x4c: "au", 0x57: "au",
+};
+
+const MARKS: Record<number, string> = { 0x01: "n", 0x02: "n", 0x03: "h", 0x64: ".", 0x65: "." };
+
+function brahmicOffset(char: string | undefined): number | null {
+    const code = char?.codePointAt(0);
+    if (code === undefined || code < BRAHMIC_START || code > BRAHMIC_END) return null;
+    return code & 0x7f;
+}
+
+// Romanize Indic script letters; everything else passes through unchanged
+export function transliterate(text: string): string {
+    const chars = Array.from(text);
+    let out = "";
+    let trailingSchwa = false;
+
+    for (let i = 0; i < chars.length; i++) {
+        const offset = brahmicOffset(chars[i]);
+        if (offset === null) {
+            if (trailingSchwa && /\s/.test(chars[i])) out = out.slice(0, -1);
+            out += chars[i];
+            trailingSchwa = false;
+            continue;
+        }
+
+        const consonant = CONSONANTS[offset];
+        if (consonant !== undefined) {
+            let next = i + 1;
+            while (brahmicOffset(chars[next]) === NUKTA) next++;
+            const nextOffset = brahmicOffset(chars[next]);
+            const hasVowel = nextOffset !== null && (nextOffset === VIRAMA || VOWEL_SIGNS[nextOffset] !== undefined);
+            out += hasVowel ? consonant : consonant + "a";
+            // Hindi drops the inherent vowel at the end of a word ("कोड" is "kod", not "koda")
+            trailingSchwa = !hasVowel && chars[i].codePointAt(0)! - offset === DEVANAGARI_BLOCK;
+            continue;
+        }
+
+        trailingSchwa = false;
+        if (offset >= 0x66 && offset <= 0x6f) out += String(offset - 0x66);
+        else out += VOWELS[offset] ?? VOWEL_SIGNS[offset] ?? MARKS[offset] ?? "";
+    }
+
+    return trailingSchwa ? out.slice(0, -1) : out;
+}
+
+// --- Local backend ---
+
+type EntryKind = "word" | "postposition" | "clauseFinal";
+
+interface Entry {
+    kind: EntryKind;
+    english: string;
+}
+
+interface CompiledTranslationLexicon {
+    entries: Map<string, Entry>;
+    suffixes: [string, string][];   // longest first
+    longestPhrase: number;          // in words
+}
+
+const SEGMENT_BREAK = /[.!?|\n,;:।॥]+/;
+const SUBJECTS = new Set(["I", "we", "you"]);
+
+const compiled = new Map<string, CompiledTranslationLexicon>();
+
+function compileLexicon(code: string): CompiledTranslationLexicon | null {
+    const cached = compiled.get(code);
+    if (cached) return cached;
+
+    const lexicon = TRANSLATION_LEXICONS[code];
+    if (!lexicon) return null;
+
+    // Later kinds win when a word appears twice ("లేకుండా" is a postposition before it is a word)
+    const entries = new Map<string, Entry>();
+    const add = (kind: EntryKind, table: Record<string, string>) => {
+        for (const [key, english] of Object.entries(table)) entries.set(normalizeText(key), { kind, english });
+    };
+    add("word", lexicon.words);
+    add("postposition", lexicon.postpositions);
+    add("clauseFinal", lexicon.clauseFinal);
+
+    const result = {
+        entries,
+        suffixes: Object.entries(lexicon.suffixes)
+            .map(([suffix, english]): [string, string] => [normalizeText(suffix), english])
+            .sort((a, b) => b[0].length - a[0].length),
+        longestPhrase: Math.max(...[...entries.keys()].map((key) => key.split(" ").length)),
+    };
+    compiled.set(code, result);
+    return result;
+}
+
+// A known word with a case ending glued on: "లాగిన్తో" → "with login"
+function translateInflected(key: string, lexicon: CompiledTranslationLexicon): string | null {
+    for (const [suffix, preposition] of lexicon.suffixes) {
+        if (!key.endsWith(suffix) || key.length === suffix.length) continue;
+        const stem = key.slice(0, -suffix.length);
+        // Vowel-initial endings replace the stem's virama ("லாகின்" + "ுடன்" → "லாகினுடன்")
+        const last = stem.codePointAt(stem.length - 1)!;
+        const withVirama = stem + String.fromCodePoint(last - (last & 0x7f) + VIRAMA);
+        const entry = lexicon.entries.get(stem) ?? lexicon.entries.get(withVirama);
+        if (entry?.kind === "word") return [preposition, entry.english].filter(Boolean).join(" ");
+    }
+    return null;
+}
+
+// Verb-final clauses ("I a todo app need") become verb-first ("I need a todo app")
+function reorderClause(words: string[], verb?: string): string {
+    const rest = words[0] === "and" ? words.slice(1) : words;
+    if (!verb) return rest.join(" ");
+    if (rest.length > 0 && SUBJECTS.has(rest[0])) return [rest[0], verb, ...rest.slice(1)].join(" ");
+    return [verb, ...rest].join(" ");
+}
+
+function translateSegment(segment: string, lexicon: CompiledTranslationLexicon): string[] {
+    const tokens = segment.split(/\s+/).filter(Boolean);
+    const keys = tokens.map(normalizeText);
+    const clauses: string[] = [];
+    let words: string[] = [];
+
+    for (let i = 0; i < tokens.length;) {
+        let entry: Entry | undefined;
+        let length = Math.min(lexicon.longestPhrase, tokens.length - i);
+        for (; length > 0; length--) {
+            entry = lexicon.entries.get(keys.slice(i, i + length).join(" "));
+            if (entry) break;
+        }
+
+        if (!entry) {
+            words.push(translateInflected(keys[i], lexicon) ?? transliterate(tokens[i]));
+            i++;
+            continue;
+        }
+
+        if (entry.kind === "clauseFinal") {
+            clauses.push(reorderClause(words, entry.english));
+            words = [];
+        } else if (entry.kind === "postposition") {
+            const previous = words.pop();
+            words.push(previous ? `${entry.english} ${previous}` : entry.english);
+        } else if (entry.english) {
+            words.push(entry.english);
+        }
+        i += length;
+    }
+
+    if (words.length > 0) clauses.push(reorderClause(words));
+    return clauses.filter(Boolean);
+}
+
+/**
+ * Word-by-word English rendering of Telugu, Hindi or Tamil speech.
+ * Known words are translated, verb-final clauses are turned around and anything unknown is transliterated,
+ * which keeps names and loanwords readable. Other languages are transliterated only.
+ */
+export function translateLocally(text: string, language: string): string {
+    const lexicon = compileLexicon(language.split("-")[0].toLowerCase());
+    if (!lexicon) return transliterate(text).replace(/\s+/g, " ").trim();
+
+    return text
+        .split(SEGMENT_BREAK)
+        .flatMap((segment) => translateSegment(segment, lexicon))
+        .map((sentence) => sentence.charAt(0).toUpperCase() + sentence.slice(1))
+        .join(". ");
+}
+
+export class LocalTranslator implements Translator {
+    async translate(text: string, language: string): Promise<Translation> {
+        if (isEnglish(language)) return { original: text, text, language, backend: "none" };
+        return { original: text, text: translateLocally(text, language), language, backend: "local" };
+    }
+}
+
+// --- API backend ---
+
+// Uses /api/translate, which calls the LLM when a provider key is configured and translates locally otherwise
+export class ApiTranslator implements Translator {
+    constructor(private client: ApiClient, private fallback: Translator = new LocalTranslator()) { }
+
+    async translate(text: string, language: string, signal?: AbortSignal): Promise<Translation> {
+        if (isEnglish(language)) return { original: text, text, language, backend: "none" };
+        try {
+            const res = await this.client.translate({ text, language }, signal);
+            return { original: text, text: res.data.text, language, backend: res.source === "ai" ? "llm" : "local" };
+        } catch (err) {
+            if (signal?.aborted) throw err;
+            console.warn("Translation API unavailable, translating locally:", err);
+            return this.fallback.translate(text, language, signal);
+        }
+    }
+}
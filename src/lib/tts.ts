@@ -1,9 +1,16 @@
 // Text-to-Speech wrapper using Web Speech Synthesis API
 // 100% free, built into all modern browsers
 
+export interface TTSOptions {
+    rate: number;             // 0.5 - 2.0
+    pitch: number;            // 0.5 - 2.0
+    voice: string;            // voice name; "" picks a natural-sounding English voice
+}
+
 export class TTSManager {
     private synth: SpeechSynthesis | null = null;
     private preferredVoice: SpeechSynthesisVoice | null = null;
+    private options: TTSOptions = { rate: 1.05, pitch: 1.0, voice: "" };
 
     constructor() {
         if (typeof window !== "undefined") {
@@ -17,8 +24,9 @@ export class TTSManager {
 
         const setVoice = () => {
             const voices = this.synth!.getVoices();
-            // Prefer a natural-sounding English voice
+            // The chosen voice if this browser has it, otherwise a natural-sounding English one
             this.preferredVoice =
+                (this.options.voice && voices.find((v) => v.name === this.options.voice)) ||
                 voices.find((v) => v.name.includes("Google") && v.lang.startsWith("en")) ||
                 voices.find((v) => v.lang.startsWith("en-US")) ||
                 voices.find((v) => v.lang.startsWith("en")) ||
@@ -30,6 +38,13 @@ export class TTSManager {
         this.synth.onvoiceschanged = setVoice;
     }
 
+    // Applies to the next utterance; the one being spoken finishes as it started
+    configure(options: TTSOptions) {
+        const voiceChanged = options.voice !== this.options.voice;
+        this.options = options;
+        if (voiceChanged) this.loadVoice();
+    }
+
     speak(text: string, onEnd?: () => void): void {
         if (!this.synth) return;
 
@@ -37,8 +52,8 @@ export class TTSManager {
         this.synth.cancel();
 
         const utterance = new SpeechSynthesisUtterance(text);
-        utterance.rate = 1.05;
-        utterance.pitch = 1.0;
+        utterance.rate = this.options.rate;
+        utterance.pitch = this.options.pitch;
         utterance.volume = 0.9;
 
         if (this.preferredVoice) {
@@ -0,0 +1,155 @@
+// Voice activity detection and endpointing while the user dictates
+// A worklet (public/worklets/level-processor.js) measures each 20 ms of microphone audio. The noise floor
+// follows the quietest frame of the last moment, since even fluent speech dips between syllables. A frame is
+// speech when it is well above the floor, or a little above it with the high zero-crossing rate of "s" and "f".
+// The turn ends after enough quiet, and the quiet needed grows with how long the user has been talking:
+// "undo" finishes in under a second, a long explanation survives a pause to think.
+
+import { CloseCapture, openWorkletCapture } from "./audio-capture";
+
+const LEVEL_WORKLET_URL = "/worklets/level-processor.js";
+
+export interface VadOptions {
+    minSilenceMs: number;     // quiet that ends a short command
+    maxSilenceMs: number;     // the longest pause ever waited out
+    pauseGrowth: number;      // extra quiet allowed per millisecond already spoken
+}
+
+export interface VadCallbacks {
+    onSpeechStart?: () => void;
+    onEndOfUtterance?: () => void;   // once per utterance, after speech and then enough quiet
+}
+
+export interface LevelFrame {
+    rms: number;
+    zcr: number;              // zero crossings per sample, 0-1
+    frameMs: number;
+}
+
+export type LevelListener = (level: number) => void;
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = { minSilenceMs: 700, maxSilenceMs: 3000, pauseGrowth: 0.2 };
+
+const MIN_SPEECH_RMS = 0.008;     // quieter than this is never speech, whatever the noise floor
+const SPEECH_RATIO = 3;           // voiced speech: this many times the noise floor
+const FRICATIVE_RATIO = 1.8;      // unvoiced "s"/"f": softer, but crossing zero far more often
+const FRICATIVE_ZCR = 0.25;
+const ONSET_FRAMES = 3;           // 60 ms of speech before an utterance counts as started
+const CALIBRATION_MS = 300;       // the first frames only learn the room's noise
+const NOISE_WINDOW_MS = 1500;     // the floor is the quietest frame this far back...
+const NOISE_RISE = 0.03;          // ...reached slowly when it gets louder, so a fan switched on takes a second or two
+const NOISE_FALL = 0.2;           // ...and quickly when the room gets quieter
+
+// Loudness for display, 0-1 on a 60 dB scale
+function displayLevel(rms: number): number {
+    return Math.min(Math.max((20 * Math.log10(rms + 1e-9) + 60) / 60, 0), 1);
+}
+
+export class VoiceActivityDetector {
+    private options = DEFAULT_VAD_OPTIONS;
+    private callbacks: VadCallbacks = {};
+    private closeCapture: CloseCapture | null = null;
+    private session = 0;                           // bumped by stop, so a microphone that opens late is closed again
+    private listeners = new Set<LevelListener>();
+
+    private noise = MIN_SPEECH_RMS / SPEECH_RATIO;
+    private onset = 0;                             // consecutive speech frames before the utterance started
+    private speaking = false;                      // an utterance is in progress
+    private spokenMs = 0;
+    private quietMs = 0;
+    private calibrationMs = 0;
+    private recent: number[] = [];                 // rms of the frames in the noise window
+
+    configure(options: Partial<VadOptions>) {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Start listening to the microphone. Rejects when it or AudioWorklet is unavailable, so the caller
+     * can fall back to a fixed silence timer.
+     */
+    async start(callbacks: VadCallbacks): Promise<void> {
+        this.stop();
+        this.callbacks = callbacks;
+        this.calibrationMs = 0;
+        this.recent = [];
+        this.reset();
+        const session = ++this.session;
+        const close = await openWorkletCapture<LevelFrame>(LEVEL_WORKLET_URL, "level-processor", (frame) => this.handleFrame(frame));
+        if (session === this.session) this.closeCapture = close;
+        else close();
+    }
+
+    stop() {
+        this.session++;
+        this.closeCapture?.();
+        this.closeCapture = null;
+        this.callbacks = {};
+        this.listeners.forEach((listener) => listener(0));
+    }
+
+    // Live input level (0-1) for meters; returns the unsubscribe function
+    subscribeLevel(listener: LevelListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private reset() {
+        this.onset = 0;
+        this.speaking = false;
+        this.spokenMs = 0;
+        this.quietMs = 0;
+    }
+
+    private isSpeech({ rms, zcr }: LevelFrame): boolean {
+        if (rms < MIN_SPEECH_RMS) return false;
+        return rms > this.noise * SPEECH_RATIO || (rms > this.noise * FRICATIVE_RATIO && zcr > FRICATIVE_ZCR);
+    }
+
+    // Quiet needed to end the utterance now: short for commands, longer the more has been said
+    silenceNeededMs(): number {
+        const { minSilenceMs, maxSilenceMs, pauseGrowth } = this.options;
+        return Math.min(maxSilenceMs, minSilenceMs + this.spokenMs * pauseGrowth);
+    }
+
+    // One frame from the worklet
+    handleFrame(frame: LevelFrame) {
+        this.listeners.forEach((listener) => listener(displayLevel(frame.rms)));
+        this.recent.push(frame.rms);
+        if (this.recent.length > NOISE_WINDOW_MS / frame.frameMs) this.recent.shift();
+        if (this.calibrationMs < CALIBRATION_MS) {
+            this.noise = this.calibrationMs === 0 ? frame.rms : this.noise + (frame.rms - this.noise) * NOISE_FALL;
+            this.calibrationMs += frame.frameMs;
+            return;
+        }
+
+        const floor = Math.min(...this.recent);
+        this.noise += (floor - this.noise) * (floor < this.noise ? NOISE_FALL : NOISE_RISE);
+        const speech = this.isSpeech(frame);
+
+        if (!this.speaking) {
+            this.onset = speech ? this.onset + 1 : 0;
+            if (this.onset >= ONSET_FRAMES) {
+                this.speaking = true;
+                this.spokenMs = this.onset * frame.frameMs;
+                this.quietMs = 0;
+                this.callbacks.onSpeechStart?.();
+            }
+            return;
+        }
+
+        if (speech) {
+            this.spokenMs += frame.frameMs + this.quietMs;  // a pause inside speech counts as speaking time
+            this.quietMs = 0;
+            return;
+        }
+
+        this.quietMs += frame.frameMs;
+        if (this.quietMs >= this.silenceNeededMs()) {
+            this.reset();
+            this.callbacks.onEndOfUtterance?.();
+        }
+    }
+}
@@ -0,0 +1,452 @@
+// Spoken editing commands per language, for voice-commands.ts
+// Term syntax ("stem*", "word$") is described in lexicon-match.ts.
+// Languages follow SUPPORTED_LANGUAGES in speech.ts; English is always tried as well.
+
+export type CommandVerb = "add" | "remove" | "change" | "undo" | "redo" | "shorter" | "longer";
+export type CommandField = "requirements" | "constraints" | "tone" | "title" | "outputFormat" | "intent" | "context";
+
+export interface CommandLexicon {
+    verbs: Record<CommandVerb, string[]>;
+    fields: Record<CommandField, string[]>;
+    ordinals: Record<string, number>;  // -1 is the last item
+    fillers: string[];                 // articles, particles and politeness trimmed from the spoken value
+}
+
+export const COMMAND_LEXICONS: Record<string, CommandLexicon> = {
+    en: {
+        verbs: {
+            add: ["add", "also add", "include", "append", "put in"],
+            remove: ["remove", "delete", "drop", "take out", "get rid of"],
+            change: ["change", "set", "switch", "update", "rename"],
+            undo: ["undo", "undo that", "go back", "revert"],
+            redo: ["redo", "redo that", "put it back"],
+            shorter: ["make it shorter", "shorter", "more concise", "less detail*", "trim it"],
+            longer: ["make it longer", "longer", "more detail*", "expand it", "elaborate"],
+        },
+        fields: {
+            requirements: ["requirement*"],
+            constraints: ["constraint*", "restriction*", "limitation*", "rule$"],
+            tone: ["tone"],
+            title: ["title"],
+            outputFormat: ["output format", "expected output", "format"],
+            intent: ["intent", "category"],
+            context: ["task", "context", "description"],
+        },
+        ordinals: { first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, last: -1, "final": -1 },
+        fillers: ["the", "a", "an", "to", "as", "that", "it", "please", "saying", "called", "about", "is", "be", "of", "one", "number", "new"],
+    },
+
+    te: {
+        verbs: {
+            add: ["జోడించు", "జోడించండి", "చేర్చు", "చేర్చండి", "యాడ్ చేయి", "యాడ్ చేయండి", "కలుపు"],
+            remove: ["తీసేయి", "తీసేయండి", "తొలగించు", "తొలగించండి", "డిలీట్ చేయి", "డిలీట్ చేయండి"],
+            change: ["మార్చు", "మార్చండి", "చేంజ్ చేయి", "పెట్టు"],
+            undo: ["వెనక్కి తీసుకో", "అన్డు", "రద్దు చేయి"],
+            redo: ["రీడు", "మళ్ళీ చేయి"],
+            shorter: ["చిన్నగా చేయి", "తగ్గించు", "క్లుప్తంగా"],
+            longer: ["పెద్దగా చేయి", "ఇంకా వివరంగా", "పెంచు"],
+        },
+        fields: {
+            requirements: ["అవసరం", "రిక్వైర్మెంట్"],
+            constraints: ["పరిమితి", "నిబంధన", "కన్స్ట్రైంట్"],
+            tone: ["టోన్", "స్వరం", "శైలి"],
+            title: ["శీర్షిక", "టైటిల్"],
+            outputFormat: ["ఫార్మాట్", "అవుట్పుట్"],
+            intent: ["ఉద్దేశం", "రకం"],
+            context: ["టాస్క్", "వివరణ"],
+        },
+        ordinals: { "మొదటి": 1, "రెండవ": 2, "రెండో": 2, "మూడవ": 3, "మూడో": 3, "నాలుగవ": 4, "ఐదవ": 5, "చివరి": -1 },
+        fillers: ["ని", "ను", "కి", "కు", "గా", "లో", "అనే", "దయచేసి"],
+    },
+
+    hi: {
+        verbs: {
+            add: ["जोड़ो", "जोड़ें", "जोड़िए", "जोड़ दो", "शामिल करो", "ऐड करो"],
+            remove: ["हटाओ", "हटाएं", "हटाइए", "हटा दो", "डिलीट करो", "निकालो"],
+            change: ["बदलो", "बदलें", "बदलिए", "बदल दो", "चेंज करो"],
+            undo: ["वापस लो", "पहले जैसा करो", "अनडू"],
+            redo: ["रीडू", "फिर से करो"],
+            shorter: ["छोटा करो", "छोटा कर दो", "संक्षेप में"],
+            longer: ["लंबा करो", "और विस्तार से", "विस्तार से"],
+        },
+        fields: {
+            requirements: ["ज़रूरत", "आवश्यकता", "रिक्वायरमेंट"],
+            constraints: ["शर्त", "प्रतिबंध", "सीमा", "कंस्ट्रेंट"],
+            tone: ["टोन", "लहजा", "शैली"],
+            title: ["शीर्षक", "टाइटल"],
+            outputFormat: ["फॉर्मेट", "आउटपुट"],
+            intent: ["इरादा", "श्रेणी"],
+            context: ["काम$", "टास्क", "विवरण"],
+        },
+        ordinals: { "पहली": 1, "पहला": 1, "दूसरी": 2, "दूसरा": 2, "तीसरी": 3, "तीसरा": 3, "चौथी": 4, "चौथा": 4, "पांचवीं": 5, "आखिरी": -1, "अंतिम": -1 },
+        fillers: ["को", "की", "का", "के", "में", "वाली", "वाला", "एक", "कृपया", "है"],
+    },
+
+    ta: {
+        verbs: {
+            add: ["சேர்", "சேர்க்கவும்", "சேர்த்துவிடு", "ஆட் செய்"],
+            remove: ["நீக்கு", "நீக்கவும்", "அகற்று", "டெலீட் செய்"],
+            change: ["மாற்று", "மாற்றவும்", "சேஞ்ச் செய்"],
+            undo: ["திரும்பப் பெறு", "அன்டூ", "ரத்து செய்"],
+            redo: ["ரீடூ", "மீண்டும் செய்"],
+            shorter: ["சுருக்கு", "சுருக்கமாக", "குறை"],
+            longer: ["விரிவாக்கு", "இன்னும் விரிவாக", "நீட்டு"],
+        },
+        fields: {
+            requirements: ["தேவை", "ரிக்வயர்மென்ட்"],
+            constraints: ["கட்டுப்பாடு", "வரம்பு", "கன்ஸ்ட்ரெயின்ட்"],
+            tone: ["தொனி", "டோன்", "நடை"],
+            title: ["தலைப்பு", "டைட்டில்"],
+            outputFormat: ["வடிவம்", "ஃபார்மட்", "அவுட்புட்"],
+            intent: ["நோக்கம்", "வகை"],
+            context: ["பணி", "டாஸ்க்", "விவரம்"],
+        },
+        ordinals: { "முதல்": 1, "இரண்டாவது": 2, "மூன்றாவது": 3, "நான்காவது": 4, "ஐந்தாவது": 5, "கடைசி": -1 },
+        fillers: ["ஐ", "ஆக", "என்ற", "தயவுசெய்து"],
+    },
+
+    kn: {
+        verbs: {
+            add: ["ಸೇರಿಸು", "ಸೇರಿಸಿ", "ಆಡ್ ಮಾಡು"],
+            remove: ["ತೆಗೆದುಹಾಕು", "ತೆಗೆದುಹಾಕಿ", "ಅಳಿಸು", "ಡಿಲೀಟ್ ಮಾಡು"],
+            change: ["ಬದಲಾಯಿಸು", "ಬದಲಾಯಿಸಿ", "ಚೇಂಜ್ ಮಾಡು"],
+            undo: ["ಹಿಂದಕ್ಕೆ", "ಅನ್ಡು", "ರದ್ದು ಮಾಡು"],
+            redo: ["ರೀಡು", "ಮತ್ತೆ ಮಾಡು"],
+            shorter: ["ಚಿಕ್ಕದಾಗಿ", "ಸಂಕ್ಷಿಪ್ತವಾಗಿ"],
+            longer: ["ದೊಡ್ಡದಾಗಿ", "ವಿವರವಾಗಿ"],
+        },
+        fields: {
+            requirements: ["ಅವಶ್ಯಕತೆ", "ರಿಕ್ವೈರ್ಮೆಂಟ್"],
+            constraints: ["ನಿರ್ಬಂಧ", "ಮಿತಿ"],
+            tone: ["ಟೋನ್", "ಧಾಟಿ", "ಶೈಲಿ"],
+            title: ["ಶೀರ್ಷಿಕೆ", "ಟೈಟಲ್"],
+            outputFormat: ["ಫಾರ್ಮ್ಯಾಟ್", "ಔಟ್ಪುಟ್"],
+            intent: ["ಉದ್ದೇಶ", "ವರ್ಗ"],
+            context: ["ಕೆಲಸ", "ಟಾಸ್ಕ್", "ವಿವರಣೆ"],
+        },
+        ordinals: { "ಮೊದಲ": 1, "ಎರಡನೇ": 2, "ಮೂರನೇ": 3, "ನಾಲ್ಕನೇ": 4, "ಐದನೇ": 5, "ಕೊನೆಯ": -1 },
+        fillers: ["ಅನ್ನು", "ಆಗಿ", "ಎಂಬ", "ದಯವಿಟ್ಟು"],
+    },
+
+    ml: {
+        verbs: {
+            add: ["ചേർക്കുക", "ചേർക്കൂ", "ആഡ് ചെയ്യുക"],
+            remove: ["നീക്കം ചെയ്യുക", "നീക്കുക", "മാറ്റുക", "ഡിലീറ്റ് ചെയ്യുക"],
+            change: ["മാറ്റൂ", "മാറ്റം വരുത്തുക", "ചേഞ്ച് ചെയ്യുക"],
+            undo: ["പഴയപടി", "അൺഡു", "റദ്ദാക്കുക"],
+            redo: ["റീഡു", "വീണ്ടും ചെയ്യുക"],
+            shorter: ["ചുരുക്കുക", "ചെറുതാക്കുക"],
+            longer: ["വിപുലമാക്കുക", "വിശദമാക്കുക"],
+        },
+        fields: {
+            requirements: ["ആവശ്യകത", "റിക്വയർമെന്റ്"],
+            constraints: ["നിയന്ത്രണം", "പരിധി"],
+            tone: ["ടോൺ", "ശൈലി"],
+            title: ["തലക്കെട്ട്", "ടൈറ്റിൽ"],
+            outputFormat: ["ഫോർമാറ്റ്", "ഔട്ട്പുട്ട്"],
+            intent: ["ഉദ്ദേശ്യം", "വിഭാഗം"],
+            context: ["ജോലി", "ടാസ്ക്", "വിവരണം"],
+        },
+        ordinals: { "ഒന്നാമത്തെ": 1, "രണ്ടാമത്തെ": 2, "മൂന്നാമത്തെ": 3, "നാലാമത്തെ": 4, "അവസാനത്തെ": -1 },
+        fillers: ["നെ", "ആയി", "എന്ന", "ദയവായി"],
+    },
+
+    mr: {
+        verbs: {
+            add: ["जोडा", "जोड", "समाविष्ट करा", "ऍड करा"],
+            remove: ["काढा", "काढून टाका", "हटवा", "डिलीट करा"],
+            change: ["बदला", "बदल", "चेंज करा"],
+            undo: ["मागे घ्या", "अनडू", "रद्द करा"],
+            redo: ["रीडू", "पुन्हा करा"],
+            shorter: ["लहान करा", "थोडक्यात"],
+            longer: ["मोठे करा", "सविस्तर"],
+        },
+        fields: {
+            requirements: ["गरज", "आवश्यकता"],
+            constraints: ["अट", "मर्यादा", "निर्बंध"],
+            tone: ["टोन", "शैली"],
+            title: ["शीर्षक", "टायटल"],
+            outputFormat: ["फॉरमॅट", "आउटपुट"],
+            intent: ["हेतू", "प्रकार"],
+            context: ["काम$", "टास्क", "वर्णन"],
+        },
+        ordinals: { "पहिली": 1, "पहिला": 1, "दुसरी": 2, "दुसरा": 2, "तिसरी": 3, "तिसरा": 3, "चौथी": 4, "शेवटची": -1, "शेवटचा": -1 },
+        fillers: ["ला", "चा", "ची", "चे", "मध्ये", "एक", "कृपया"],
+    },
+
+    bn: {
+        verbs: {
+            add: ["যোগ করো", "যোগ করুন", "যুক্ত করো", "অ্যাড করো"],
+            remove: ["সরাও", "সরান", "মুছে দাও", "বাদ দাও", "ডিলিট করো"],
+            change: ["বদলাও", "বদলান", "পরিবর্তন করো", "চেঞ্জ করো"],
+            undo: ["আগের মতো করো", "আনডু", "বাতিল করো"],
+            redo: ["রিডু", "আবার করো"],
+            shorter: ["ছোট করো", "সংক্ষেপে"],
+            longer: ["বড় করো", "আরও বিস্তারিত"],
+        },
+        fields: {
+            requirements: ["প্রয়োজন", "চাহিদা", "রিকোয়ারমেন্ট"],
+            constraints: ["শর্ত", "সীমাবদ্ধতা"],
+            tone: ["টোন", "সুর", "ভঙ্গি"],
+            title: ["শিরোনাম", "টাইটেল"],
+            outputFormat: ["ফরম্যাট", "আউটপুট"],
+            intent: ["উদ্দেশ্য", "ধরন"],
+            context: ["কাজ$", "টাস্ক", "বিবরণ"],
+        },
+        ordinals: { "প্রথম": 1, "দ্বিতীয়": 2, "তৃতীয়": 3, "চতুর্থ": 4, "পঞ্চম": 5, "শেষ": -1 },
+        fillers: ["কে", "টা", "টি", "এর", "একটা", "দয়া করে"],
+    },
+
+    gu: {
+        verbs: {
+            add: ["ઉમેરો", "ઉમેર", "એડ કરો"],
+            remove: ["દૂર કરો", "કાઢી નાખો", "હટાવો", "ડિલીટ કરો"],
+            change: ["બદલો", "બદલ", "ચેન્જ કરો"],
+            undo: ["પાછું લો", "અનડુ", "રદ કરો"],
+            redo: ["રીડુ", "ફરી કરો"],
+            shorter: ["ટૂંકું કરો", "સંક્ષિપ્તમાં"],
+            longer: ["લાંબુ કરો", "વિગતવાર"],
+        },
+        fields: {
+            requirements: ["જરૂરિયાત", "આવશ્યકતા"],
+            constraints: ["શરત", "મર્યાદા", "પ્રતિબંધ"],
+            tone: ["ટોન", "શૈલી"],
+            title: ["શીર્ષક", "ટાઇટલ"],
+            outputFormat: ["ફોર્મેટ", "આઉટપુટ"],
+            intent: ["હેતુ", "પ્રકાર"],
+            context: ["કામ$", "ટાસ્ક", "વર્ણન"],
+        },
+        ordinals: { "પહેલી": 1, "પહેલું": 1, "બીજી": 2, "બીજું": 2, "ત્રીજી": 3, "ત્રીજું": 3, "છેલ્લી": -1, "છેલ્લું": -1 },
+        fillers: ["ને", "નો", "ની", "નું", "માં", "એક", "કૃપા કરીને"],
+    },
+
+    es: {
+        verbs: {
+            add: ["añade", "añadir", "agrega", "agregar", "incluye"],
+            remove: ["quita", "quitar", "elimina", "eliminar", "borra", "borrar"],
+            change: ["cambia", "cambiar", "pon", "establece"],
+            undo: ["deshacer", "deshaz", "vuelve atrás"],
+            redo: ["rehacer", "rehaz"],
+            shorter: ["más corto", "más breve", "acórtalo", "resume"],
+            longer: ["más largo", "más detallado", "amplía", "amplíalo"],
+        },
+        fields: {
+            requirements: ["requisito*"],
+            constraints: ["restricción", "restricciones", "limitación*"],
+            tone: ["tono"],
+            title: ["título"],
+            outputFormat: ["formato de salida", "formato"],
+            intent: ["intención", "categoría"],
+            context: ["tarea", "contexto", "descripción"],
+        },
+        ordinals: { primer: 1, primero: 1, primera: 1, segundo: 2, segunda: 2, tercer: 3, tercero: 3, tercera: 3, cuarto: 4, cuarta: 4, último: -1, última: -1 },
+        fillers: ["el", "la", "los", "las", "un", "una", "a", "al", "de", "del", "que", "por favor", "en", "otro", "otra", "nuevo", "nueva"],
+    },
+
+    fr: {
+        verbs: {
+            add: ["ajoute", "ajouter", "ajoutez", "inclus"],
+            remove: ["supprime", "supprimer", "supprimez", "enlève", "retire"],
+            change: ["change", "changer", "changez", "modifie", "mets"],
+            undo: ["annule", "annuler", "reviens en arrière"],
+            redo: ["rétablir", "rétablis", "refais"],
+            shorter: ["plus court", "plus concis", "raccourcis"],
+            longer: ["plus long", "plus détaillé", "développe"],
+        },
+        fields: {
+            requirements: ["exigence*", "besoin*"],
+            constraints: ["contrainte*", "restriction*", "limite*"],
+            tone: ["ton$"],
+            title: ["titre"],
+            outputFormat: ["format de sortie", "format"],
+            intent: ["intention", "catégorie"],
+            context: ["tâche", "contexte", "description"],
+        },
+        ordinals: { premier: 1, première: 1, deuxième: 2, second: 2, seconde: 2, troisième: 3, quatrième: 4, dernier: -1, dernière: -1 },
+        fillers: ["le", "la", "les", "l'", "un", "une", "en", "à", "au", "de", "du", "que", "s'il te plaît", "s'il vous plaît", "nouveau", "nouvelle"],
+    },
+
+    de: {
+        verbs: {
+            add: ["füge", "hinzufügen", "ergänze", "ergänzen"],
+            remove: ["entferne", "entfernen", "lösche", "löschen", "streiche"],
+            change: ["ändere", "ändern", "setze", "stelle"],
+            undo: ["rückgängig", "mach das rückgängig", "zurück"],
+            redo: ["wiederherstellen", "wiederholen"],
+            shorter: ["kürzer", "knapper", "kürze"],
+            longer: ["länger", "ausführlicher", "detaillierter"],
+        },
+        fields: {
+            requirements: ["anforderung*"],
+            constraints: ["einschränkung*", "beschränkung*", "bedingung*"],
+            tone: ["ton$", "tonfall"],
+            title: ["titel"],
+            outputFormat: ["ausgabeformat", "format"],
+            intent: ["absicht", "kategorie"],
+            context: ["aufgabe", "kontext", "beschreibung"],
+        },
+        ordinals: { erste: 1, ersten: 1, zweite: 2, zweiten: 2, dritte: 3, dritten: 3, vierte: 4, vierten: 4, letzte: -1, letzten: -1 },
+        fillers: ["der", "die", "das", "den", "dem", "ein", "eine", "einen", "auf", "zu", "hinzu", "bitte", "neue", "neuen", "mach", "es"],
+    },
+
+    it: {
+        verbs: {
+            add: ["aggiungi", "aggiungere", "includi"],
+            remove: ["rimuovi", "rimuovere", "elimina", "eliminare", "togli"],
+            change: ["cambia", "cambiare", "modifica", "imposta"],
+            undo: ["annulla", "torna indietro"],
+            redo: ["ripristina", "rifai"],
+            shorter: ["più corto", "più breve", "accorcia"],
+            longer: ["più lungo", "più dettagliato", "espandi"],
+        },
+        fields: {
+            requirements: ["requisit*"],
+            constraints: ["vincol*", "restrizion*", "limit*"],
+            tone: ["tono"],
+            title: ["titolo"],
+            outputFormat: ["formato di output", "formato"],
+            intent: ["intento", "categoria"],
+            context: ["compito", "contesto", "descrizione"],
+        },
+        ordinals: { primo: 1, prima: 1, secondo: 2, seconda: 2, terzo: 3, terza: 3, quarto: 4, quarta: 4, ultimo: -1, ultima: -1 },
+        fillers: ["il", "lo", "la", "i", "gli", "le", "un", "uno", "una", "in", "a", "di", "del", "della", "per favore", "nuovo", "nuova"],
+    },
+
+    pt: {
+        verbs: {
+            add: ["adicione", "adicionar", "adiciona", "inclua", "acrescente"],
+            remove: ["remova", "remover", "remove", "exclua", "apague", "tire"],
+            change: ["mude", "mudar", "altere", "alterar", "troque"],
+            undo: ["desfazer", "desfaça", "volte"],
+            redo: ["refazer", "refaça"],
+            shorter: ["mais curto", "mais breve", "encurte"],
+            longer: ["mais longo", "mais detalhado", "expanda"],
+        },
+        fields: {
+            requirements: ["requisito*"],
+            constraints: ["restrição", "restrições", "limitaç*"],
+            tone: ["tom$"],
+            title: ["título"],
+            outputFormat: ["formato de saída", "formato"],
+            intent: ["intenção", "categoria"],
+            context: ["tarefa", "contexto", "descrição"],
+        },
+        ordinals: { primeiro: 1, primeira: 1, segundo: 2, segunda: 2, terceiro: 3, terceira: 3, quarto: 4, quarta: 4, último: -1, última: -1 },
+        fillers: ["o", "a", "os", "as", "um", "uma", "para", "de", "do", "da", "que", "por favor", "novo", "nova"],
+    },
+
+    ru: {
+        verbs: {
+            add: ["добавь", "добавьте", "добавить", "включи"],
+            remove: ["удали", "удалите", "удалить", "убери", "уберите"],
+            change: ["измени", "измените", "поменяй", "смени"],
+            undo: ["отмени", "отменить", "верни как было", "назад"],
+            redo: ["повтори", "повторить", "верни обратно"],
+            shorter: ["короче", "покороче", "сократи"],
+            longer: ["длиннее", "подробнее", "расширь"],
+        },
+        fields: {
+            requirements: ["требовани*"],
+            constraints: ["ограничени*", "услови*"],
+            tone: ["тон*"],
+            title: ["заголов*", "названи*"],
+            outputFormat: ["формат*"],
+            intent: ["намерени*", "категори*"],
+            context: ["задач*", "контекст*", "описани*"],
+        },
+        ordinals: { первое: 1, первый: 1, первую: 1, второе: 2, второй: 2, вторую: 2, третье: 3, третий: 3, третью: 3, последнее: -1, последний: -1, последнюю: -1 },
+        fillers: ["на", "в", "и", "что", "пожалуйста", "новое", "новый", "новую"],
+    },
+
+    ar: {
+        verbs: {
+            add: ["أضف", "اضف", "أضيفي", "ضيف"],
+            remove: ["احذف", "إحذف", "أزل", "ازل", "امسح"],
+            change: ["غير", "غيّر", "بدل", "عدل"],
+            undo: ["تراجع", "ألغ ذلك", "الغاء"],
+            redo: ["أعد التنفيذ", "إعادة التنفيذ"],
+            shorter: ["أقصر", "اختصر", "باختصار"],
+            longer: ["أطول", "بتفصيل أكثر", "وسع"],
+        },
+        fields: {
+            requirements: ["متطلب", "شرط"],
+            constraints: ["قيد", "قيود", "حد"],
+            tone: ["النبرة", "نبرة", "الأسلوب"],
+            title: ["العنوان", "عنوان"],
+            outputFormat: ["التنسيق", "صيغة الإخراج", "الصيغة"],
+            intent: ["النية", "الفئة"],
+            context: ["المهمة", "السياق", "الوصف"],
+        },
+        ordinals: { "الأول": 1, "الاول": 1, "الثاني": 2, "الثالث": 3, "الرابع": 4, "الأخير": -1, "الاخير": -1 },
+        fillers: ["إلى", "الى", "من", "ال", "هذا", "من فضلك", "جديد"],
+    },
+
+    ja: {
+        verbs: {
+            add: ["追加して", "追加", "加えて", "足して"],
+            remove: ["削除して", "削除", "消して", "外して"],
+            change: ["変更して", "変えて", "にして"],
+            undo: ["元に戻して", "取り消して", "アンドゥ"],
+            redo: ["やり直して", "やり直し", "リドゥ"],
+            shorter: ["短くして", "簡潔に"],
+            longer: ["長くして", "詳しく"],
+        },
+        fields: {
+            requirements: ["要件", "要求"],
+            constraints: ["制約", "制限", "条件"],
+            tone: ["トーン", "口調", "文体"],
+            title: ["タイトル", "題名"],
+            outputFormat: ["出力形式", "フォーマット", "形式"],
+            intent: ["意図", "カテゴリ"],
+            context: ["タスク", "内容", "説明"],
+        },
+        ordinals: { "最初の": 1, "一つ目の": 1, "1つ目の": 1, "二つ目の": 2, "2つ目の": 2, "三つ目の": 3, "3つ目の": 3, "最後の": -1 },
+        fillers: ["を", "に", "の", "は", "という", "ください", "新しい"],
+    },
+
+    ko: {
+        verbs: {
+            add: ["추가해", "추가해줘", "추가해 줘", "추가", "넣어줘", "넣어 줘"],
+            remove: ["삭제해", "삭제해줘", "삭제", "지워줘", "빼줘", "빼 줘"],
+            change: ["바꿔줘", "바꿔 줘", "변경해", "변경해줘"],
+            undo: ["되돌려", "실행 취소", "취소해"],
+            redo: ["다시 실행", "다시 해줘"],
+            shorter: ["짧게", "간결하게"],
+            longer: ["길게", "자세하게", "더 자세히"],
+        },
+        fields: {
+            requirements: ["요구사항", "요구 사항", "요건"],
+            constraints: ["제약", "제한", "조건"],
+            tone: ["톤", "어조", "말투"],
+            title: ["제목", "타이틀"],
+            outputFormat: ["출력 형식", "형식", "포맷"],
+            intent: ["의도", "카테고리"],
+            context: ["작업", "과제", "설명"],
+        },
+        ordinals: { "첫 번째": 1, "첫번째": 1, "두 번째": 2, "두번째": 2, "세 번째": 3, "세번째": 3, "네 번째": 4, "마지막": -1 },
+        fillers: ["을", "를", "으로", "로", "에", "좀", "새", "새로운"],
+    },
+
+    zh: {
+        verbs: {
+            add: ["添加", "加上", "增加", "加一个", "加一条"],
+            remove: ["删除", "删掉", "去掉", "移除"],
+            change: ["改成", "改为", "修改", "更改", "换成"],
+            undo: ["撤销", "撤回", "恢复原样"],
+            redo: ["重做", "恢复"],
+            shorter: ["短一点", "简短一些", "精简"],
+            longer: ["长一点", "详细一点", "更详细"],
+        },
+        fields: {
+            requirements: ["需求", "要求"],
+            constraints: ["约束", "限制", "条件"],
+            tone: ["语气", "语调", "风格"],
+            title: ["标题"],
+            outputFormat: ["输出格式", "格式"],
+            intent: ["意图", "类别"],
+            context: ["任务", "描述", "背景"],
+        },
+        ordinals: { "第一": 1, "第1": 1, "第二": 2, "第2": 2, "第三": 3, "第3": 3, "第四": 4, "最后": -1, "最后一": -1 },
+        fillers: ["把", "将", "的", "一个", "一条", "个", "条", "请", "吧", "新"],
+    },
+};
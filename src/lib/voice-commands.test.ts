@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseVoiceCommand } from "./voice-commands";
+
+describe("parseVoiceCommand", () => {
+    it("leaves new requests that open with an add verb to the conversation", () => {
+        assert.equal(parseVoiceCommand("Add a login page to my website with Google auth", "en-US"), null);
+        assert.equal(parseVoiceCommand("include unit tests and make it run on Python 3.12", "en-US"), null);
+        assert.equal(parseVoiceCommand("remove the old API and rewrite everything in Rust please", "en-US"), null);
+    });
+
+    it("edits when a field is named or the utterance is short", () => {
+        assert.deepEqual(parseVoiceCommand("add a requirement that it supports Google login with two factor auth", "en-US"),
+            { kind: "add", field: "requirements", value: "supports Google login with two factor auth" });
+        assert.deepEqual(parseVoiceCommand("add dark mode", "en-US"), { kind: "add", field: "requirements", value: "dark mode" });
+        assert.deepEqual(parseVoiceCommand("remove the second constraint", "en-US"), { kind: "remove", field: "constraints", index: 2 });
+        assert.deepEqual(parseVoiceCommand("undo", "en-US"), { kind: "undo" });
+    });
+});
@@ -0,0 +1,290 @@
+// Spoken editing commands for the structured prompt
+// "add requirement …", "remove the second constraint", "change the tone to formal", "make it shorter", "undo", "redo".
+// The page tries the parser before handing speech to the conversation; anything that is not clearly
+// a command (verb opening or closing the utterance, with a field word unless it is short) falls through
+// to ConversationManager.
+
+import { normalizeIntent } from "./intents";
+import { CompiledTerm, compileTerm, normalizeText, TOKEN } from "./lexicon-match";
+import { rebuildPrompt, StructuredPrompt } from "./structurer";
+import { isEnglish, translateLocally } from "./translation";
+import { COMMAND_LEXICONS, CommandField, CommandVerb } from "./voice-command-lexicons";
+
+export type ListField = "requirements" | "constraints";
+export type TextField = Exclude<CommandField, ListField>;
+
+export type VoiceCommand =
+    | { kind: "add"; field: ListField; value: string }
+    | { kind: "remove"; field?: ListField; index?: number; match?: string }   // index is 1-based, -1 is the last item
+    | { kind: "replace"; field: ListField; index: number; value: string }
+    | { kind: "set"; field: TextField; value: string }
+    | { kind: "length"; value: "shorter" | "longer" }
+    | { kind: "undo" }
+    | { kind: "redo" };
+
+export interface VoiceEditResult {
+    prompt: StructuredPrompt | null;  // null when the command did not apply (e.g. no third constraint)
+    message: string;                  // spoken back to the user
+}
+
+// Words allowed before a leading command verb ("please add …"); a trailing verb must end the utterance ("… జోడించండి")
+const MAX_WORDS_BEFORE_VERB = 2;
+// "undo", "make it shorter", or an add or remove that names no field ("add dark mode"): longer utterances
+// are new requests that merely contain these words ("add a login page to my website with Google auth")
+const MAX_SHORT_COMMAND_WORDS = 5;
+
+const TONE_CONSTRAINT = /^use an? .+ tone\.?$/i;
+const LENGTH_CONSTRAINTS = {
+    shorter: "Keep the response short and concise",
+    longer: "Give a detailed, in-depth response",
+};
+
+const ORDINAL_NAMES: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last" };
+
+const FIELD_NAMES: Record<CommandField, string> = {
+    requirements: "requirement",
+    constraints: "constraint",
+    tone: "tone",
+    title: "title",
+    outputFormat: "output format",
+    intent: "intent",
+    context: "task",
+};
+
+interface CompiledCommandLexicon {
+    verbs: [CommandVerb, CompiledTerm[]][];
+    fields: [CommandField, CompiledTerm[]][];
+    ordinals: [CompiledTerm, number][];
+    fillers: CompiledTerm[];
+}
+
+interface Span {
+    start: number;
+    end: number;
+}
+
+const compiled = new Map<string, CompiledCommandLexicon>();
+
+// The language's phrases plus English, which people mix into commands in every language
+function lexiconFor(language?: string): CompiledCommandLexicon {
+    const code = language?.split("-")[0].toLowerCase() ?? "en";
+    const cached = compiled.get(code);
+    if (cached) return cached;
+
+    const sources = [COMMAND_LEXICONS.en, ...(code !== "en" && COMMAND_LEXICONS[code] ? [COMMAND_LEXICONS[code]] : [])];
+    const merge = <K extends string>(pick: (l: (typeof sources)[number]) => Record<K, string[]>) =>
+        (Object.keys(pick(sources[0])) as K[]).map((key): [K, CompiledTerm[]] => [
+            key,
+            sources.flatMap((l) => pick(l)[key]).map(compileTerm),
+        ]);
+
+    const lexicon: CompiledCommandLexicon = {
+        verbs: merge((l) => l.verbs),
+        fields: merge((l) => l.fields),
+        ordinals: sources.flatMap((l) => Object.entries(l.ordinals)).map(([word, n]): [CompiledTerm, number] => [compileTerm(`${word}$`), n]),
+        fillers: sources.flatMap((l) => l.fillers).map((word) => compileTerm(`${word}$`)),
+    };
+    compiled.set(code, lexicon);
+    return lexicon;
+}
+
+// Earliest match of any term; the longer one wins a tie ("take out" over "take")
+function findTerm(normalized: string, terms: CompiledTerm[]): Span | null {
+    let best: Span | null = null;
+    for (const t of terms) {
+        t.pattern.lastIndex = 0;
+        const m = t.pattern.exec(normalized);
+        if (!m) continue;
+        const span = { start: m.index, end: m.index + m[0].length };
+        if (!best || span.start < best.start || (span.start === best.start && span.end > best.end)) best = span;
+    }
+    return best;
+}
+
+// Word count, with unspaced Chinese/Japanese counted as roughly two characters per word
+function wordCount(text: string): number {
+    return (text.match(TOKEN) ?? []).reduce((n, token) => n + (/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(token) ? Math.ceil(token.length / 2) : 1), 0);
+}
+
+function nearEdge(normalized: string, span: Span): boolean {
+    return wordCount(normalized.slice(0, span.start)) <= MAX_WORDS_BEFORE_VERB || wordCount(normalized.slice(span.end)) === 0;
+}
+
+function findOrdinal(normalized: string, lexicon: CompiledCommandLexicon): [Span, number] | null {
+    const digit = /(?:#|no\.?\s*)?(\d+)(?:st|nd|rd|th)?/u.exec(normalized);
+    if (digit) return [{ start: digit.index, end: digit.index + digit[0].length }, Number(digit[1])];
+
+    let best: [Span, number] | null = null;
+    for (const [term, n] of lexicon.ordinals) {
+        const span = findTerm(normalized, [term]);
+        if (span && (!best || span.start < best[0].start)) best = [span, n];
+    }
+    return best;
+}
+
+// Drop punctuation and filler words ("the", "to", "ని", "を") from both ends of the spoken value
+function trimFillers(text: string, fillers: CompiledTerm[]): string {
+    let value = text;
+    let previous = "";
+    while (value !== previous) {
+        previous = value;
+        value = value.replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, "");
+        const normalized = normalizeText(value);
+        for (const filler of fillers) {
+            const { term } = filler;
+            const boundary = filler.dense ? "" : "(?![\\p{L}\\p{M}\\p{N}])";
+            if (new RegExp(`^${escape(term)}${boundary}`, "u").test(normalized)) value = value.slice(term.length);
+            else if (new RegExp(`${filler.dense ? "" : "(?<![\\p{L}\\p{M}\\p{N}])"}${escape(term)}$`, "u").test(normalized)) value = value.slice(0, -term.length);
+            else continue;
+            break;
+        }
+    }
+    return value.trim();
+}
+
+function escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function removeSpans(text: string, spans: Span[]): string {
+    return [...spans]
+        .sort((a, b) => b.start - a.start)
+        .reduce((rest, span) => `${rest.slice(0, span.start)} ${rest.slice(span.end)}`, text)
+        .replace(/\s+/g, " ");
+}
+
+function isListField(field: CommandField): field is ListField {
+    return field === "requirements" || field === "constraints";
+}
+
+/**
+ * Recognize an editing command in a spoken utterance, or return null for ordinary speech.
+ * Values stay in the speaker's words; Telugu, Hindi and Tamil go through the offline translator.
+ */
+export function parseVoiceCommand(spoken: string, language?: string): VoiceCommand | null {
+    const text = spoken.replace(/\s+/g, " ").trim();
+    if (!text) return null;
+    const normalized = normalizeText(text);
+    // Keep the speaker's casing for values unless normalizing shifted offsets (nukta, joiners)
+    const source = normalized.length === text.length ? text : normalized;
+    const lexicon = lexiconFor(language);
+    const verb = (name: CommandVerb) => findTerm(normalized, lexicon.verbs.find(([v]) => v === name)![1]);
+
+    const action = (["add", "remove", "change"] as const)
+        .map((name) => ({ name, span: verb(name) }))
+        .filter((a): a is { name: "add" | "remove" | "change"; span: Span } => a.span !== null && nearEdge(normalized, a.span))
+        .sort((a, b) => a.span.start - b.span.start)[0];
+
+    if (action) {
+        // The field named closest to the verb ("add a constraint about the title" edits constraints)
+        const distance = (span: Span) => Math.max(span.start - action.span.end, action.span.start - span.end);
+        const field = lexicon.fields
+            .map(([name, terms]) => ({ name, span: findTerm(normalized, terms) }))
+            .filter((f): f is { name: CommandField; span: Span } => f.span !== null && (f.span.end <= action.span.start || f.span.start >= action.span.end))
+            .sort((a, b) => distance(a.span) - distance(b.span))[0];
+        if (!field && wordCount(normalized) > MAX_SHORT_COMMAND_WORDS) return null;
+        // Only removals and replacements point at an item, so "support 2 languages" keeps its number
+        const ordinal = action.name === "add" ? null : findOrdinal(normalized, lexicon);
+
+        const spans = [action.span, ...(field ? [field.span] : []), ...(ordinal ? [ordinal[0]] : [])];
+        let value = trimFillers(removeSpans(source, spans), lexicon.fillers);
+        if (value && !isEnglish(language)) value = translateLocally(value, language!);
+
+        if (action.name === "add" && value && (!field || isListField(field.name))) {
+            return { kind: "add", field: field ? (field.name as ListField) : "requirements", value };
+        }
+        if (action.name === "remove" && (!field || isListField(field.name))) {
+            const listField = field?.name as ListField | undefined;
+            if (ordinal && listField) return { kind: "remove", field: listField, index: ordinal[1] };
+            if (value) return { kind: "remove", field: listField, match: value };
+        }
+        if (action.name === "change" && field && value) {
+            if (!isListField(field.name)) return { kind: "set", field: field.name, value };
+            if (ordinal) return { kind: "replace", field: field.name, index: ordinal[1], value };
+        }
+    }
+
+    if (wordCount(normalized) > MAX_SHORT_COMMAND_WORDS) return null;
+    if (verb("undo")) return { kind: "undo" };
+    if (verb("redo")) return { kind: "redo" };
+    if (verb("shorter")) return { kind: "length", value: "shorter" };
+    if (verb("longer")) return { kind: "length", value: "longer" };
+    return null;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// 1-based spoken position to array index; -1 is the last item
+function resolveIndex(items: string[], index: number): number | null {
+    const i = index < 0 ? items.length + index : index - 1;
+    return i >= 0 && i < items.length ? i : null;
+}
+
+/**
+ * Apply a parsed command (other than undo/redo, which the caller handles with its history) and rebuild
+ * the prompt text and score. Tone and length become constraints that replace any earlier ones.
+ */
+export function applyVoiceCommand(prompt: StructuredPrompt, command: Exclude<VoiceCommand, { kind: "undo" | "redo" }>): VoiceEditResult {
+    switch (command.kind) {
+        case "add": {
+            const value = capitalize(command.value);
+            return {
+                prompt: rebuildPrompt({ ...prompt, [command.field]: [...prompt[command.field], value] }),
+                message: `Added ${FIELD_NAMES[command.field]}: ${value}`,
+            };
+        }
+        case "remove": {
+            const fields: ListField[] = command.field ? [command.field] : ["requirements", "constraints"];
+            for (const field of fields) {
+                const items = prompt[field];
+                const match = command.match && normalizeText(command.match);
+                const i = command.index !== undefined
+                    ? resolveIndex(items, command.index)
+                    : items.findIndex((item) => !!match && normalizeText(item).includes(match));
+                if (i === null || i < 0) continue;
+                return {
+                    prompt: rebuildPrompt({ ...prompt, [field]: items.filter((_, j) => j !== i) }),
+                    message: `Removed ${FIELD_NAMES[field]}: ${items[i]}`,
+                };
+            }
+            const which = command.index !== undefined ? ORDINAL_NAMES[command.index] ?? `number ${command.index}` : "matching";
+            return { prompt: null, message: `There is no ${which} ${command.field ? FIELD_NAMES[command.field] : "requirement or constraint"}.` };
+        }
+        case "replace": {
+            const items = prompt[command.field];
+            const i = resolveIndex(items, command.index);
+            if (i === null) return { prompt: null, message: `There is no ${ORDINAL_NAMES[command.index] ?? `number ${command.index}`} ${FIELD_NAMES[command.field]}.` };
+            const value = capitalize(command.value);
+            return {
+                prompt: rebuildPrompt({ ...prompt, [command.field]: items.map((item, j) => (j === i ? value : item)) }),
+                message: `Changed the ${FIELD_NAMES[command.field]} to: ${value}`,
+            };
+        }
+        case "set": {
+            if (command.field === "tone") {
+                const tone = command.value.toLowerCase().replace(/\s+tone$/, "");
+                const constraints = prompt.constraints.filter((c) => !TONE_CONSTRAINT.test(c.trim()));
+                const article = /^[aeiou]/.test(tone) ? "an" : "a";
+                return {
+                    prompt: rebuildPrompt({ ...prompt, constraints: [...constraints, `Use ${article} ${tone} tone`] }),
+                    message: `Changed the tone to ${tone}`,
+                };
+            }
+            const value = command.field === "intent" ? normalizeIntent(command.value) : capitalize(command.value);
+            return {
+                prompt: rebuildPrompt({ ...prompt, [command.field]: value }),
+                message: `Changed the ${FIELD_NAMES[command.field]} to ${value}`,
+            };
+        }
+        case "length": {
+            const lengths = Object.values(LENGTH_CONSTRAINTS) as string[];
+            const constraints = prompt.constraints.filter((c) => !lengths.includes(c));
+            return {
+                prompt: rebuildPrompt({ ...prompt, constraints: [...constraints, LENGTH_CONSTRAINTS[command.value]] }),
+                message: command.value === "shorter" ? "I'll ask for a shorter response" : "I'll ask for a more detailed response",
+            };
+        }
+    }
+}
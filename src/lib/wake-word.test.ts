@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_WAKE_OPTIONS, WakeWordDetector } from "./wake-word";
+
+function detector(sensitivity = DEFAULT_WAKE_OPTIONS.sensitivity): WakeWordDetector {
+    const wake = new WakeWordDetector();
+    wake.configure({ ...DEFAULT_WAKE_OPTIONS, sensitivity });
+    return wake;
+}
+
+describe("WakeWordDetector.matches", () => {
+    it("wakes on the phrase, its mishearings and the other script", () => {
+        const wake = detector();
+        for (const heard of ["hey listen", "okay so hey listen", "hey lesson", "a listen", "హే లిసన్", "హే వినండి"]) {
+            assert.ok(wake.matches(heard), heard);
+        }
+    });
+
+    it("ignores sentences that only sound close", () => {
+        for (const sensitivity of [DEFAULT_WAKE_OPTIONS.sensitivity, 1]) {
+            const wake = detector(sensitivity);
+            for (const heard of ["they listen", "so listen to me", "you need to listen carefully", "play listen", "listen", "hello there"]) {
+                assert.ok(!wake.matches(heard), `${heard} at sensitivity ${sensitivity}`);
+            }
+        }
+    });
+});
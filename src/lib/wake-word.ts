@@ -1,14 +1,128 @@
-// Wake word detection — listens for "Hey Listen"
-// Uses Web Speech API in continuous mode, scanning for the keyword
-// 100% free, no API key, runs entirely in browser
+// Wake word detection — listens for the wake phrases set in settings, in any of their languages
+// Uses Web Speech API in continuous mode and matches interim results against every phrase, exactly or
+// by a phonetic key that must start with the phrase's sound, so mishearings ("hey lesson") and the other
+// script ("హే లిసన్") still wake it but "they listen" does not
+// 100% free, no API key; note that Chrome's recognizer streams the audio to Google.
+// keyword-spotter.ts is the on-device alternative behind the same WakeDetector interface.
+
+import { normalizeText, TOKEN } from "./lexicon-match";
+import { editDistance } from "./search-index";
+import { transliterate } from "./translation";
 
 export type WakeWordCallback = () => void;
 
-export class WakeWordDetector {
+export interface WakePhrase {
+    phrase: string;
+    lang: string;             // BCP-47 code from SUPPORTED_LANGUAGES, e.g. "te-IN"
+}
+
+export interface WakeWordOptions {
+    phrases: WakePhrase[];
+    sensitivity: number;      // 0-1; higher accepts looser matches
+    cooldownMs: number;       // further matches are ignored this long after waking
+    lang: string;             // language being spoken; recognition uses it when a phrase is in it
+    templates: number[][][];  // MFCC recordings of the wake phrase, for the local keyword spotter
+}
+
+// What the page needs from a wake word engine
+export interface WakeDetector {
+    configure(options: WakeWordOptions): void;   // engines ignore the options they do not use
+    start(onWake: WakeWordCallback): void;
+    stop(): void;
+    isListening(): boolean;
+}
+
+export type WakeEngine = "speech" | "local";
+
+export const DEFAULT_WAKE_PHRASES: WakePhrase[] = [
+    { phrase: "hey listen", lang: "en-US" },
+    { phrase: "హే వినండి", lang: "te-IN" },
+];
+
+export const DEFAULT_WAKE_OPTIONS: WakeWordOptions = {
+    phrases: DEFAULT_WAKE_PHRASES,
+    sensitivity: 0.5,
+    cooldownMs: 3000,
+    lang: "en-US",
+    templates: [],
+};
+
+const MAX_LOOSENESS = 0.35;   // at full sensitivity a phrase matches with 35% of its key wrong
+const WINDOW_WORDS = 12;      // only the latest words of a result are searched
+
+// Spelling differences that rarely change how a word sounds, applied after romanizing
+const SOUND_ALIKES: [RegExp, string][] = [
+    [/ph/g, "f"],
+    [/[cs]h/g, "s"],
+    [/([bdgjkpt])h/g, "$1"],
+    [/ck|q|c/g, "k"],
+    [/x/g, "ks"],
+    [/w/g, "v"],
+    [/z/g, "s"],
+    [/[aeiouy]+/g, "a"],
+    [/(.)\1+/g, "$1"],
+];
+
+/**
+ * How a phrase sounds, roughly: Indic letters romanized, aspirates and look-alike consonants merged,
+ * every vowel run reduced to "a" and spaces dropped. "hey listen", "hey lesson" and "హే లిసన్" come out
+ * within an edit or two of each other. Empty for scripts it cannot romanize.
+ */
+export function phoneticKey(text: string): string {
+    let key = transliterate(normalizeText(text)).replace(/[^a-z]/g, "");
+    for (const [pattern, replacement] of SOUND_ALIKES) key = key.replace(pattern, replacement);
+    return key;
+}
+
+interface CompiledPhrase {
+    normalized: string;
+    key: string;
+    words: number;
+}
+
+function compilePhrase(phrase: string): CompiledPhrase | null {
+    const normalized = (normalizeText(phrase).match(TOKEN) ?? []).join(" ");
+    if (!normalized) return null;
+    return { normalized, key: phoneticKey(normalized), words: normalized.split(" ").length };
+}
+
+// The words must start the way the phrase does, so "they listen" and "so listen" are not "hey listen".
+// An "h" may go unheard ("a listen"), since recognizers often drop it.
+function sameOnset(key: string, phraseKey: string): boolean {
+    const [a, b] = [key[0], phraseKey[0]];
+    return a === b || (a === "a" && b === "h") || (a === "h" && b === "a");
+}
+
+// How closely any run of words in the transcript sounds like the phrase, 0-1
+function matchScore(words: string[], phrase: CompiledPhrase): number {
+    if (` ${words.join(" ")} `.includes(` ${phrase.normalized} `)) return 1;
+    if (!phrase.key) return 0;
+
+    // A word more or fewer than the phrase, since the recognizer splits and joins words freely
+    const limit = Math.ceil(phrase.key.length * MAX_LOOSENESS);
+    let best = 0;
+    for (let size = Math.max(1, phrase.words - 1); size <= phrase.words + 1; size++) {
+        for (let i = 0; i + size <= words.length; i++) {
+            const key = phoneticKey(words.slice(i, i + size).join(" "));
+            if (!key || !sameOnset(key, phrase.key)) continue;
+            const distance = editDistance(Array.from(key), Array.from(phrase.key), limit);
+            best = Math.max(best, 1 - distance / Math.max(key.length, phrase.key.length));
+        }
+    }
+    return best;
+}
+
+function sameLanguage(a: string, b: string): boolean {
+    return a.split("-")[0].toLowerCase() === b.split("-")[0].toLowerCase();
+}
+
+export class WakeWordDetector implements WakeDetector {
     private listening = false;
     private onWake: WakeWordCallback | null = null;
     private recognition: ReturnType<typeof this.createRecognition> | null = null;
     private cooldown = false;
+    private options = DEFAULT_WAKE_OPTIONS;
+    private phrases = this.compile(DEFAULT_WAKE_OPTIONS.phrases);
 
     private createRecognition() {
         if (typeof window === "undefined") return null;
@@ -17,6 +131,39 @@ export class WakeWordDetector {
         return new SR();
     }
 
+    private compile(phrases: WakePhrase[]): CompiledPhrase[] {
+        return phrases.map((p) => compilePhrase(p.phrase)).filter((p): p is CompiledPhrase => p !== null);
+    }
+
+    // The spoken language when a phrase is in it; otherwise the first phrase's, which is likeliest to be heard right
+    private recognitionLang(): string {
+        const { phrases, lang } = this.options;
+        if (phrases.length === 0 || phrases.some((p) => sameLanguage(p.lang, lang))) return lang;
+        return phrases[0].lang;
+    }
+
+    // True when the transcript contains any wake phrase closely enough for the sensitivity
+    matches(transcript: string): boolean {
+        const words = (normalizeText(transcript).match(TOKEN) ?? []).slice(-WINDOW_WORDS);
+        const minScore = 1 - MAX_LOOSENESS * Math.min(Math.max(this.options.sensitivity, 0), 1);
+        return this.phrases.some((phrase) => matchScore(words, phrase) >= minScore);
+    }
+
+    // Phrases and sensitivity apply to the next result; a new language restarts recognition
+    configure(options: WakeWordOptions) {
+        const previousLang = this.recognitionLang();
+        this.options = options;
+        this.phrases = this.compile(options.phrases);
+        if (this.recognition && this.recognitionLang() !== previousLang) {
+            this.recognition.lang = this.recognitionLang();
+            try {
+                this.recognition.stop();  // onend starts it again in the new language
+            } catch {
+                // ignore
+            }
+        }
+    }
+
     start(onWake: WakeWordCallback) {
         if (this.listening) return;
         this.onWake = onWake;
@@ -26,27 +173,18 @@ export class WakeWordDetector {
 
         this.recognition.continuous = true;
         this.recognition.interimResults = true;
-        this.recognition.lang = "en-US";
+        this.recognition.lang = this.recognitionLang();
 
         this.recognition.onresult = (event: unknown) => {
             const e = event as { resultIndex: number; results: { length: number;[key: number]: { [key: number]: { transcript: string } } } };
             for (let i = e.resultIndex; i < e.results.length; i++) {
-                const transcript = e.results[i][0].transcript.toLowerCase().trim();
-                if (
-                    !this.cooldown &&
-                    (transcript.includes("hey listen") ||
-                        transcript.includes("hey lisen") ||
-                        transcript.includes("hey lisn") ||
-                        transcript.includes("heyy listen") ||
-                        transcript.includes("a listen") ||
-                        transcript.includes("hey lesson"))
-                ) {
+                if (!this.cooldown && this.matches(e.results[i][0].transcript)) {
                     this.cooldown = true;
                     this.onWake?.();
                     // Cooldown to prevent double triggers
                     setTimeout(() => {
                         this.cooldown = false;
-                    }, 3000);
+                    }, this.options.cooldownMs);
                 }
             }
         };
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { transcribe } from "./whisper-stt";
+
+interface Received {
+    path: string;
+    file: File;
+    language: string;
+}
+
+// Stub of the whisper.cpp (/inference) and faster-whisper (/v1/audio/transcriptions) endpoints
+let server: Server;
+let base = "";
+const received: Received[] = [];
+
+async function readForm(req: IncomingMessage): Promise<FormData> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return new Response(Buffer.concat(chunks), { headers: { "content-type": req.headers["content-type"] ?? "" } }).formData();
+}
+
+before(async () => {
+    server = createServer(async (req, res) => {
+        if (req.url === "/slow") return;  // never answers
+        if (req.url !== "/inference" && req.url !== "/v1/audio/transcriptions") {
+            res.writeHead(500).end("model not loaded");
+            return;
+        }
+        const form = await readForm(req);
+        const file = form.get("file") as File;
+        received.push({ path: req.url, file, language: String(form.get("language")) });
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ text: `  heard ${file.size} bytes\n` }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.closeAllConnections();
+    server.close();
+});
+
+describe("transcribe", () => {
+    for (const path of ["/inference", "/v1/audio/transcriptions"]) {
+        it(`posts a multipart file and language to ${path} and reads { text }`, async () => {
+            const audio = new Blob(["fake opus"], { type: "audio/webm;codecs=opus" });
+            const text = await transcribe(`${base}${path}`, audio, "te-IN");
+
+            assert.equal(text, "heard 9 bytes");
+            const last = received.at(-1)!;
+            assert.equal(last.path, path);
+            assert.equal(last.file.name, "speech.webm");
+            assert.equal(await last.file.text(), "fake opus");
+            assert.equal(last.language, "te");
+        });
+    }
+
+    it("rejects when the server answers with an error", async () => {
+        await assert.rejects(transcribe(`${base}/broken`, new Blob(["x"]), "en-US"), /answered 500/);
+    });
+
+    it("stops waiting when aborted", async () => {
+        const controller = new AbortController();
+        const pending = transcribe(`${base}/slow`, new Blob(["x"]), "en-US", controller.signal);
+        setTimeout(() => controller.abort(), 50);
+        await assert.rejects(pending, { name: "AbortError" });
+    });
+});
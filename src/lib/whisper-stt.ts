@@ -0,0 +1,154 @@
+// Speech-to-text on a local Whisper server: audio stays on your own machine or network
+// MediaRecorder records the microphone. While the user speaks, the recording so far is transcribed every
+// PARTIAL_INTERVAL_MS for interim results; on stop the whole recording is transcribed once more for the final one.
+// Works with the whisper.cpp server (/inference) and OpenAI-compatible faster-whisper servers
+// (/v1/audio/transcriptions): both take a multipart "file" and answer with { text }.
+
+import { SpeechCallback, SpeechEngine, StatusCallback } from "./speech";
+
+export const DEFAULT_WHISPER_URL = "http://localhost:8080/inference";
+
+const CHUNK_MS = 250;                 // MediaRecorder hands over audio this often
+const PARTIAL_INTERVAL_MS = 1500;
+const TRANSCRIBE_TIMEOUT_MS = 30000;  // a final transcription that takes longer gives up
+
+function fileExtension(mimeType: string): string {
+    if (mimeType.includes("ogg")) return "ogg";
+    if (mimeType.includes("mp4")) return "mp4";
+    return "webm";
+}
+
+/**
+ * Transcribe recorded audio on the server at `url`. `lang` is a BCP 47 code such as "te-IN"; Whisper
+ * only takes the language part. Rejects when the server is unreachable or answers with an error.
+ */
+export async function transcribe(url: string, audio: Blob, lang: string, signal?: AbortSignal): Promise<string> {
+    const form = new FormData();
+    form.append("file", audio, `speech.${fileExtension(audio.type)}`);
+    form.append("language", lang.split("-")[0]);
+    form.append("response_format", "json");
+    const response = await fetch(url, { method: "POST", body: form, signal });
+    if (!response.ok) throw new Error(`Transcription server answered ${response.status}`);
+    const data = (await response.json()) as { text?: string };
+    return (data.text ?? "").trim();
+}
+
+export class WhisperEngine implements SpeechEngine {
+    readonly transcribesLive = false;
+    private url: string;
+    private listening = false;
+    private recorder: MediaRecorder | null = null;
+    private chunks: Blob[] = [];
+    private session = 0;              // bumped by stop, so late partials and a microphone that opens late are dropped
+    private partialTimer: ReturnType<typeof setInterval> | null = null;
+    private partialInFlight = false;
+    private lang = "en-US";
+    private onResult: SpeechCallback | null = null;
+    private onStatus: StatusCallback | null = null;
+
+    constructor(url = DEFAULT_WHISPER_URL) {
+        this.url = url;
+    }
+
+    // Applies to the next transcription
+    configure(url: string) {
+        this.url = url;
+    }
+
+    isSupported(): boolean {
+        return typeof window !== "undefined" && typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+    }
+
+    start(lang: string, onResult: SpeechCallback, onStatus: StatusCallback) {
+        if (this.listening) return;
+        this.listening = true;
+        this.lang = lang;
+        this.onResult = onResult;
+        this.onStatus = onStatus;
+        this.chunks = [];
+        const session = ++this.session;
+
+        navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 } })
+            .then((stream) => {
+                if (session !== this.session) {
+                    stream.getTracks().forEach((track) => track.stop());
+                    return;
+                }
+                const recorder = new MediaRecorder(stream);
+                recorder.ondataavailable = (event) => {
+                    if (event.data.size) this.chunks.push(event.data);
+                };
+                recorder.start(CHUNK_MS);
+                this.recorder = recorder;
+                this.partialTimer = setInterval(() => this.transcribePartial(session), PARTIAL_INTERVAL_MS);
+                onStatus("listening");
+            })
+            .catch((error) => {
+                console.error("Microphone unavailable for Whisper transcription:", error);
+                if (session !== this.session) return;
+                this.listening = false;
+                onStatus("error");
+            });
+    }
+
+    // Interim result from the recording so far; skipped while the previous one is still on the server
+    private transcribePartial(session: number) {
+        if (this.partialInFlight || !this.recorder || !this.chunks.length) return;
+        this.partialInFlight = true;
+        const lang = this.lang;
+        transcribe(this.url, new Blob(this.chunks, { type: this.recorder.mimeType }), lang)
+            .then((transcript) => {
+                if (session === this.session && transcript) this.onResult?.({ transcript, isFinal: false, confidence: 0, lang });
+            })
+            // The final transcription reports a server that is down
+            .catch((error) => console.warn("Partial transcription failed:", error))
+            .finally(() => {
+                this.partialInFlight = false;
+            });
+    }
+
+    async stop(): Promise<void> {
+        if (!this.listening) return;
+        this.listening = false;
+        this.session++;
+        if (this.partialTimer) clearInterval(this.partialTimer);
+        this.partialTimer = null;
+        const { recorder, lang, onResult, onStatus } = this;
+        this.recorder = null;
+        // Stopped while the microphone was opening
+        if (!recorder) {
+            onStatus?.("stopped");
+            return;
+        }
+
+        // The recorder hands over its last chunk before it reports stopping
+        await new Promise<void>((resolve) => {
+            recorder.onstop = () => resolve();
+            recorder.stop();
+        });
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        const audio = new Blob(this.chunks, { type: recorder.mimeType });
+        this.chunks = [];
+        if (!audio.size) {
+            onStatus?.("stopped");
+            return;
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), TRANSCRIBE_TIMEOUT_MS);
+        try {
+            const transcript = await transcribe(this.url, audio, lang, controller.signal);
+            if (transcript) onResult?.({ transcript, isFinal: true, confidence: 1, lang });
+            onStatus?.("stopped");
+        } catch (error) {
+            console.error("Whisper transcription failed:", error);
+            onStatus?.("error");
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    isListening() {
+        return this.listening;
+    }
+}